@@ -4,4 +4,25 @@
 type NextOnPagesBuildMetadata = {
 	/** Locales used by the application (collected from the Vercel output) */
 	collectedLocales: string[];
+	/** Id of the build (the Next.js build id when available) */
+	buildId: string;
+	/** Time at which the application was built (in milliseconds since the epoch) */
+	buildTimestamp: number;
+	/** Pathnames of the ISR routes that can't be regenerated (i.e. not re-rendered when revalidated) */
+	staticIsrRoutes?: string[];
+	/** The suspense cache adaptor set in the next-on-pages config file (if any) */
+	suspenseCacheAdaptor?: 'cache-api' | 'kv' | 'd1' | 'r2' | 'tiered';
+	/** Whether a custom suspense cache adaptor has been bundled alongside the worker */
+	customCacheAdaptor?: boolean;
+	/** Whether a fallback image transformer has been bundled alongside the worker */
+	fallbackImageTransformer?: boolean;
+	/** Whether an error reporter has been bundled alongside the worker */
+	errorReporter?: boolean;
+	/** How the `next/image` images are served (only `optimized` images are handled by the worker) */
+	imagesMode: ImagesMode;
 };
+
+/**
+ * How the `next/image` images of the application are served
+ */
+type ImagesMode = 'optimized' | 'unoptimized' | 'custom-loader';
@@ -6,7 +6,15 @@ declare global {
 			CF_PAGES?: string;
 			SHELL?: string;
 			__NEXT_ON_PAGES__KV_SUSPENSE_CACHE?: KVNamespace;
-			[key: string]: string | Fetcher;
+			__NEXT_ON_PAGES__D1_SUSPENSE_CACHE?: D1Database;
+			__NEXT_ON_PAGES__R2_SUSPENSE_CACHE?: R2Bucket;
+			__NEXT_ON_PAGES__CACHE_ANALYTICS?: AnalyticsEngineDataset;
+			[key: string]:
+				| string
+				| Fetcher
+				| D1Database
+				| R2Bucket
+				| AnalyticsEngineDataset;
 		}
 	}
 }
@@ -5,7 +5,9 @@ import { getPackageManager } from 'package-manager-manager';
 import type { CliOptions } from '../cli';
 import { cliError, cliLog, cliSuccess, cliWarn } from '../cli';
 import { getVercelConfig } from './getVercelConfig';
+import { getImagesMode } from './getImagesMode';
 import { buildWorkerFile } from './buildWorkerFile';
+import { buildRouteGroups } from './buildRouteGroups';
 import { buildVercelOutput } from './buildVercelOutput';
 import { buildMetadataFiles } from './buildMetadataFiles';
 import { validateDir } from '../utils';
@@ -14,9 +16,16 @@ import {
 	processVercelOutput,
 	processOutputDir,
 } from './processVercelOutput';
-import { printBuildSummary, writeBuildInfo } from './buildSummary';
+import {
+	getBuildInfo,
+	printBuildSummary,
+	writeBuildInfo,
+} from './buildSummary';
+import { warnIfWorkerExceedsSizeLimits, writeHtmlReport } from './buildReport';
+import { enforceSizeBudgets, getBaselineBuildSizes } from './sizeBudgets';
 import type { ProcessedVercelFunctions } from './processVercelFunctions';
 import { processVercelFunctions } from './processVercelFunctions';
+import { getStaticIsrRoutes } from './processVercelFunctions/prerenderFunctions';
 
 /**
  * Builds the _worker.js with static assets implementing the Next.js application
@@ -30,6 +39,18 @@ export async function buildApplication({
 	watch,
 	outdir: outputDir,
 	customEntrypoint,
+	customCacheAdaptor,
+	cache,
+	images,
+	fallbackImageTransformer,
+	errorReporter,
+	routesJson,
+	experimentalNodejsFunctions,
+	experimentalRouteGroups,
+	sourcemap,
+	json,
+	report,
+	sizeBudgets,
 }: Pick<
 	CliOptions,
 	| 'skipBuild'
@@ -38,6 +59,18 @@ export async function buildApplication({
 	| 'watch'
 	| 'outdir'
 	| 'customEntrypoint'
+	| 'customCacheAdaptor'
+	| 'cache'
+	| 'images'
+	| 'fallbackImageTransformer'
+	| 'errorReporter'
+	| 'routesJson'
+	| 'experimentalNodejsFunctions'
+	| 'experimentalRouteGroups'
+	| 'sourcemap'
+	| 'json'
+	| 'report'
+	| 'sizeBudgets'
 >) {
 	const pm = await getPackageManager();
 
@@ -87,6 +120,18 @@ export async function buildApplication({
 		disableChunksDedup,
 		disableWorkerMinification,
 		customEntrypoint,
+		customCacheAdaptor,
+		cache,
+		images,
+		fallbackImageTransformer,
+		errorReporter,
+		routesJson,
+		experimentalNodejsFunctions,
+		experimentalRouteGroups,
+		sourcemap,
+		json,
+		report,
+		sizeBudgets,
 	});
 
 	const totalBuildTime = ((Date.now() - buildStartTime) / 1000).toFixed(2);
@@ -99,9 +144,35 @@ async function prepareAndBuildWorker(
 		disableChunksDedup,
 		disableWorkerMinification,
 		customEntrypoint,
+		customCacheAdaptor,
+		cache,
+		images,
+		fallbackImageTransformer,
+		errorReporter,
+		routesJson,
+		experimentalNodejsFunctions,
+		experimentalRouteGroups,
+		sourcemap,
+		json,
+		report,
+		sizeBudgets,
 	}: Pick<
 		CliOptions,
-		'disableChunksDedup' | 'disableWorkerMinification' | 'customEntrypoint'
+		| 'disableChunksDedup'
+		| 'disableWorkerMinification'
+		| 'customEntrypoint'
+		| 'customCacheAdaptor'
+		| 'cache'
+		| 'images'
+		| 'fallbackImageTransformer'
+		| 'errorReporter'
+		| 'routesJson'
+		| 'experimentalNodejsFunctions'
+		| 'experimentalRouteGroups'
+		| 'sourcemap'
+		| 'json'
+		| 'report'
+		| 'sizeBudgets'
 	>,
 ): Promise<void> {
 	let vercelConfig: VercelConfig;
@@ -114,17 +185,33 @@ async function prepareAndBuildWorker(
 		exit(1);
 	}
 
-	const staticAssets = await getVercelStaticAssets();
+	if (images) {
+		// Apply the images overrides from the next-on-pages config file.
+		const {
+			sizes = [],
+			domains = [],
+			...imagesConfig
+		} = { ...vercelConfig.images, ...images };
+		vercelConfig.images = { sizes, domains, ...imagesConfig };
+	}
 
-	await processOutputDir(outputDir, staticAssets);
+	const imagesMode = await getImagesMode();
 
-	let processedFunctions: ProcessedVercelFunctions | undefined;
+	const staticAssets = await getVercelStaticAssets();
 
 	const functionsDir = resolve('.vercel', 'output', 'functions');
 	const workerJsDir = join(outputDir, '_worker.js');
 	const nopDistDir = join(workerJsDir, '__next-on-pages-dist__');
 	const templatesDir = join(__dirname, '..', 'templates');
 
+	const baselineBuildSizes = sizeBudgets
+		? await getBaselineBuildSizes(workerJsDir, sizeBudgets)
+		: null;
+
+	await processOutputDir(outputDir, staticAssets);
+
+	let processedFunctions: ProcessedVercelFunctions | undefined;
+
 	if (!(await validateDir(functionsDir))) {
 		cliLog(
 			'No functions detected (no functions directory generated by Vercel).',
@@ -135,7 +222,11 @@ async function prepareAndBuildWorker(
 			outputDir,
 			workerJsDir,
 			nopDistDir,
+			templatesDir,
 			disableChunksDedup,
+			experimentalNodejsFunctions,
+			sourcemap,
+			json,
 			vercelConfig,
 		});
 	}
@@ -145,8 +236,20 @@ async function prepareAndBuildWorker(
 		staticAssets,
 		processedFunctions?.collectedFunctions?.prerenderedFunctions,
 		processedFunctions?.collectedFunctions?.edgeFunctions,
+		processedFunctions?.collectedFunctions?.nodejsFunctions,
 	);
 
+	const routeGroupsManifest =
+		experimentalRouteGroups && processedFunctions
+			? await buildRouteGroups(processedFunctions, processedVercelOutput, {
+					outputDir,
+					workerJsDir,
+					nopDistDir,
+					minify: !disableWorkerMinification,
+					sourcemap,
+			  })
+			: null;
+
 	const outputtedWorkerPath = await buildWorkerFile(processedVercelOutput, {
 		outputDir,
 		workerJsDir,
@@ -154,21 +257,54 @@ async function prepareAndBuildWorker(
 		templatesDir,
 		customEntrypoint,
 		minify: !disableWorkerMinification,
+		sourcemap,
+		suspenseCacheAdaptor: cache?.adaptor,
+		customCacheAdaptor,
+		fallbackImageTransformer,
+		errorReporter,
+		imagesMode,
+		routeGroups: routeGroupsManifest?.entrypoints,
+		staticIsrRoutes: getStaticIsrRoutes(
+			processedFunctions?.collectedFunctions?.prerenderedFunctions,
+		),
 	});
 
-	await buildMetadataFiles(outputDir, { staticAssets });
+	await buildMetadataFiles(outputDir, { staticAssets, routesJson });
 
 	await copyNoNodejsCompatStaticErrorPage(outputDir);
 
-	printBuildSummary(staticAssets, processedVercelOutput, processedFunctions);
+	printBuildSummary(
+		staticAssets,
+		processedVercelOutput,
+		processedFunctions,
+		imagesMode,
+	);
 
-	await writeBuildInfo(
+	const buildLog = await getBuildInfo(
 		{ outputDir: workerJsDir, functionsDir },
 		staticAssets,
 		processedVercelOutput,
 		processedFunctions,
+		routeGroupsManifest,
 	);
 
+	warnIfWorkerExceedsSizeLimits(buildLog.sizes);
+
+	if (report === 'html') {
+		await writeHtmlReport(
+			resolve('.vercel', 'output', 'nop-build-report.html'),
+			buildLog.sizes,
+		);
+	}
+
+	if (sizeBudgets) {
+		// Note: the budgets are checked before writing the build log, so that the build log of a build
+		// exceeding them doesn't become the baseline of the next build.
+		enforceSizeBudgets(buildLog.sizes, sizeBudgets, baselineBuildSizes);
+	}
+
+	await writeBuildInfo(workerJsDir, buildLog);
+
 	cliSuccess(`Generated '${outputtedWorkerPath}'.`);
 }
 
@@ -3,6 +3,7 @@ import { writeFile, stat, unlink, readFile } from 'fs/promises';
 import { nextOnPagesVersion, readJsonFile } from '../utils';
 import { getPhaseRoutes, getVercelConfig } from './getVercelConfig';
 import { cliError } from '../cli';
+import type { NextOnPagesConfig } from '../config';
 
 /**
  * Builds metadata files needed for the worker to correctly run.
@@ -77,7 +78,8 @@ ${Object.entries(nextStaticHeaders)
  * Builds the `_routes.json` file, which is used by Khulnasoft to determine which routes should
  * invoke the worker.
  *
- * Collects existing entries from the `_routes.json` file in the root of the project, if it exists.
+ * Collects existing entries from the `_routes.json` file in the root of the project, if it exists,
+ * alongside the ones from the next-on-pages config file.
  *
  * @param outputDir Output directory for the metadata files.
  * @param opts Options for building metadata files.
@@ -93,8 +95,15 @@ async function buildRoutes(outputDir: string, opts: BuildMetadataFilesOpts) {
 		process.exit(1);
 	}
 
-	const { include = [], exclude = [] } = existingFile ?? {};
-	const includeEntries = include.length > 0 ? include : ['/*'];
+	const include = [
+		...(existingFile?.include ?? []),
+		...(opts.routesJson?.include ?? []),
+	];
+	const exclude = [
+		...(existingFile?.exclude ?? []),
+		...(opts.routesJson?.exclude ?? []),
+	];
+	const includeEntries = include.length > 0 ? [...new Set(include)] : ['/*'];
 	const excludeEntries = new Set([`${nextStaticPath}/*`, ...exclude]);
 
 	try {
@@ -138,4 +147,5 @@ function getNextStaticDirPath({
 
 type BuildMetadataFilesOpts = {
 	staticAssets: string[];
+	routesJson?: NextOnPagesConfig['routesJson'];
 };
@@ -0,0 +1,503 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { join, relative, resolve } from 'node:path';
+import { promisify } from 'node:util';
+import { gzip } from 'node:zlib';
+import { cliLog, cliWarn } from '../cli';
+import { normalizePath, readPathsRecursively } from '../utils';
+import type { ProcessedVercelFunctions } from './processVercelFunctions';
+import type { RouteGroupsManifest } from './buildRouteGroups';
+import type { IdentifierType } from './processVercelFunctions/ast';
+import { getFunctionSharedFiles } from './processVercelFunctions/dedupeEdgeFunctions';
+
+const gzipAsync = promisify(gzip);
+
+/**
+ * Limits of the gzipped size of a worker, depending on the Workers plan
+ * (see https://developers.khulnasoft.com/workers/platform/limits/#worker-size)
+ */
+export const workerGzipByteSizeLimits = {
+	free: 3 * 1024 * 1024,
+	paid: 10 * 1024 * 1024,
+};
+
+/**
+ * Collects the sizes of the functions' files and of the whole worker.
+ *
+ * Each function lists the deduped files (webpack chunks, manifests and wasm) it imports, which are
+ * shared with the other functions importing them.
+ *
+ * When the routes are grouped, the sizes of a grouped function are the sizes of its route group's
+ * module, and it only lists the deduped files that the module imports (the others being bundled in
+ * the module).
+ *
+ * @param workerJsDir Path to the `_worker.js` directory.
+ * @param processedVercelFunctions Results of processing the Vercel functions.
+ * @param routeGroupsManifest The manifest of the route groups (if the routes are grouped).
+ * @returns The sizes of the build.
+ */
+export async function getBuildSizes(
+	workerJsDir: string,
+	{ collectedFunctions, identifiers }: ProcessedVercelFunctions,
+	routeGroupsManifest: RouteGroupsManifest | null = null,
+): Promise<BuildSizes> {
+	const fileSizesCache = new Map<string, Promise<FileSizes | null>>();
+	const getSizes = async (path: string) => {
+		if (!fileSizesCache.has(path)) {
+			fileSizesCache.set(path, getFileSizes(join(workerJsDir, path)));
+		}
+		// eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+		return fileSizesCache.get(path)!;
+	};
+
+	const routeGroups = new Map(
+		routeGroupsManifest?.groups.flatMap(group =>
+			group.routes.map(({ entrypoint }) => [entrypoint, group]),
+		),
+	);
+
+	const functions: FunctionSizes[] = [];
+
+	for (const [path, fnInfo] of [
+		...collectedFunctions.edgeFunctions,
+		...collectedFunctions.nodejsFunctions,
+	]) {
+		if (!fnInfo.outputPath) continue;
+
+		const routeGroup = routeGroups.get(normalizePath(fnInfo.outputPath));
+		const outputPath = routeGroup?.module ?? normalizePath(fnInfo.outputPath);
+
+		const ownSizes = await getSizes(outputPath);
+		if (!ownSizes) continue;
+
+		const sharedFiles = getFunctionSharedFiles(path, fnInfo, identifiers);
+
+		const importedFiles = {} as FunctionSizes['imports'];
+		for (const [type, paths] of Object.entries(sharedFiles)) {
+			importedFiles[type as IdentifierType] = [];
+			for (const importPath of paths) {
+				// Note: the chunks bundled in a route group's module have been removed
+				const sizes = await getSizes(importPath);
+				if (sizes) {
+					importedFiles[type as IdentifierType].push({
+						path: importPath,
+						...sizes,
+					});
+				}
+			}
+		}
+
+		const allImports = Object.values(importedFiles).flat();
+
+		functions.push({
+			route: fnInfo.route?.path ?? fnInfo.relativePath,
+			outputPath,
+			...(routeGroup ? { routeGroup: routeGroup.name } : {}),
+			...ownSizes,
+			imports: importedFiles,
+			totalByteSize: allImports.reduce(
+				(total, { byteSize }) => total + byteSize,
+				ownSizes.byteSize,
+			),
+			totalGzipByteSize: allImports.reduce(
+				(total, { gzipByteSize }) => total + gzipByteSize,
+				ownSizes.gzipByteSize,
+			),
+		});
+	}
+
+	const workerFiles = (await readPathsRecursively(workerJsDir)).filter(
+		// Note: source maps are not part of the deployed worker
+		path => !path.endsWith('nop-build-log.json') && !path.endsWith('.map'),
+	);
+	let workerByteSize = 0;
+	let workerGzipByteSize = 0;
+	for (const file of workerFiles) {
+		const sizes = await getSizes(normalizePath(relative(workerJsDir, file)));
+		workerByteSize += sizes?.byteSize ?? 0;
+		workerGzipByteSize += sizes?.gzipByteSize ?? 0;
+	}
+
+	return {
+		functions: functions.sort((a, b) => b.totalByteSize - a.totalByteSize),
+		worker: {
+			byteSize: workerByteSize,
+			gzipByteSize: workerGzipByteSize,
+			gzipByteSizeLimits: workerGzipByteSizeLimits,
+		},
+	};
+}
+
+/**
+ * Gets the size of a file, and its size once gzipped.
+ *
+ * @param path Path to the file.
+ * @returns The file's sizes, or null if the file could not be read.
+ */
+async function getFileSizes(path: string): Promise<FileSizes | null> {
+	try {
+		const contents = await readFile(path);
+		const gzipped = await gzipAsync(contents);
+
+		return { byteSize: contents.byteLength, gzipByteSize: gzipped.byteLength };
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Warns when the gzipped worker exceeds the size limit of a Workers plan, listing the routes that
+ * contribute the most to its size.
+ *
+ * @param buildSizes The sizes of the build.
+ */
+export function warnIfWorkerExceedsSizeLimits({
+	functions,
+	worker,
+}: BuildSizes): void {
+	const { free, paid } = worker.gzipByteSizeLimits;
+	if (worker.gzipByteSize <= free) return;
+
+	const exceededLimit =
+		worker.gzipByteSize > paid
+			? `the ${formatByteSize(paid)} limit of the Workers Paid plan`
+			: `the ${formatByteSize(free)} limit of the Workers Free plan`;
+	const largestRoutes = [...functions]
+		.sort((a, b) => b.totalGzipByteSize - a.totalGzipByteSize)
+		.slice(0, 5)
+		.map(
+			({ route, routeGroup, totalGzipByteSize }) =>
+				`  - ${route} (${formatByteSize(totalGzipByteSize)} gzipped${
+					routeGroup ? `, in ${routeGroup}` : ''
+				})`,
+		)
+		.join('\n');
+
+	cliWarn(
+		`Warning: the worker is ${formatByteSize(
+			worker.gzipByteSize,
+		)} gzipped, which exceeds ${exceededLimit}.\n` +
+			`The largest routes (including the chunks they share with other routes) are:\n${largestRoutes}`,
+		{ spaced: true, skipDedent: true },
+	);
+}
+
+/**
+ * Writes an html report rendering the sizes of the build as an interactive treemap.
+ *
+ * @param reportPath Path of the report file.
+ * @param buildSizes The sizes of the build.
+ */
+export async function writeHtmlReport(
+	reportPath: string,
+	buildSizes: BuildSizes,
+): Promise<void> {
+	// Note: `<` is escaped so that the data can't close the script tag it is embedded in
+	const data = JSON.stringify(getTreemapData(buildSizes)).replace(
+		/</g,
+		'\\u003c',
+	);
+
+	// Note: a replacer function is used so that `$` patterns in the data are not expanded
+	await writeFile(
+		reportPath,
+		htmlReportTemplate.replace('__REPORT_DATA__', () => data),
+	);
+
+	cliLog(`Build report saved to '${relative(resolve(), reportPath)}'`);
+}
+
+/**
+ * Groups the sizes of the build into the tree rendered by the html report.
+ *
+ * Shared files are listed once, with the routes importing them, grouped routes are listed once per
+ * route group (as they share the group's module), and the rest of the worker (e.g. the routing
+ * logic and the static assets metadata) is grouped in a separate node.
+ *
+ * @param buildSizes The sizes of the build.
+ * @returns The root node of the tree.
+ */
+function getTreemapData({ functions, worker }: BuildSizes): TreemapNode {
+	const sharedFiles = new Map<string, TreemapNode & { routes: string[] }>();
+	const routeGroups = new Map<string, FunctionSizes[]>();
+
+	for (const fn of functions) {
+		if (!fn.routeGroup) continue;
+		routeGroups.set(fn.routeGroup, [
+			...(routeGroups.get(fn.routeGroup) ?? []),
+			fn,
+		]);
+	}
+
+	const routes = functions.flatMap(
+		({ route, routeGroup, imports, ...sizes }) => {
+			const importedFiles = Object.values(imports).flat();
+			for (const { path, byteSize, gzipByteSize } of importedFiles) {
+				const sharedFile = sharedFiles.get(path) ?? {
+					name: path,
+					byteSize,
+					gzipByteSize,
+					routes: [],
+				};
+				sharedFile.routes.push(route);
+				sharedFiles.set(path, sharedFile);
+			}
+
+			if (routeGroup) {
+				// Note: a route group's node is only added once, for its first route
+				const groupFunctions = routeGroups.get(routeGroup) ?? [];
+				if (groupFunctions[0]?.route !== route) return [];
+
+				return [
+					{
+						name: routeGroup,
+						byteSize: sizes.byteSize,
+						gzipByteSize: sizes.gzipByteSize,
+						details: [
+							`Output file: ${sizes.outputPath}`,
+							...groupFunctions.map(
+								fn =>
+									`Route: ${
+										fn.route
+									} (including the shared files: ${formatByteSize(
+										fn.totalByteSize,
+									)}, ${formatByteSize(fn.totalGzipByteSize)} gzipped)`,
+							),
+						],
+					},
+				];
+			}
+
+			return [
+				{
+					name: route,
+					byteSize: sizes.byteSize,
+					gzipByteSize: sizes.gzipByteSize,
+					details: [
+						`Output file: ${sizes.outputPath}`,
+						`Including the shared files: ${formatByteSize(
+							sizes.totalByteSize,
+						)} (${formatByteSize(sizes.totalGzipByteSize)} gzipped)`,
+						...importedFiles.map(({ path }) => `Imports: ${path}`),
+					],
+				},
+			];
+		},
+	);
+
+	const shared = [...sharedFiles.values()].map(({ routes, ...node }) => ({
+		...node,
+		details: routes.map(route => `Imported by: ${route}`),
+	}));
+
+	const sumSizes = (nodes: TreemapNode[]) =>
+		nodes.reduce(
+			(total, { byteSize, gzipByteSize }) => ({
+				byteSize: total.byteSize + byteSize,
+				gzipByteSize: total.gzipByteSize + gzipByteSize,
+			}),
+			{ byteSize: 0, gzipByteSize: 0 },
+		);
+	const routesSizes = sumSizes(routes);
+	const sharedSizes = sumSizes(shared);
+
+	return {
+		name: '_worker.js',
+		byteSize: worker.byteSize,
+		gzipByteSize: worker.gzipByteSize,
+		details: [
+			`Gzipped size limit: ${formatByteSize(
+				worker.gzipByteSizeLimits.free,
+			)} (Free plan), ${formatByteSize(
+				worker.gzipByteSizeLimits.paid,
+			)} (Paid plan)`,
+		],
+		children: [
+			{ name: 'Routes', ...routesSizes, children: routes },
+			{ name: 'Shared files', ...sharedSizes, children: shared },
+			{
+				name: 'Other worker files',
+				byteSize: Math.max(
+					worker.byteSize - routesSizes.byteSize - sharedSizes.byteSize,
+					0,
+				),
+				gzipByteSize: Math.max(
+					worker.gzipByteSize -
+						routesSizes.gzipByteSize -
+						sharedSizes.gzipByteSize,
+					0,
+				),
+			},
+		],
+	};
+}
+
+/**
+ * Formats a size in bytes into a human readable string (e.g. `1.5 MiB`).
+ *
+ * @param bytes The size in bytes.
+ * @returns The formatted size.
+ */
+export function formatByteSize(bytes: number): string {
+	if (bytes < 1024) return `${bytes} B`;
+	if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KiB`;
+	return `${(bytes / 1024 / 1024).toFixed(2)} MiB`;
+}
+
+type TreemapNode = {
+	name: string;
+	byteSize: number;
+	gzipByteSize: number;
+	details?: string[];
+	children?: TreemapNode[];
+};
+
+type FileSizes = {
+	/** Size of the file */
+	byteSize: number;
+	/** Size of the file once gzipped */
+	gzipByteSize: number;
+};
+
+export type FunctionSizes = FileSizes & {
+	/** The route handled by the function */
+	route: string;
+	/**
+	 * Path of the function's file (or of its route group's module), relative to the `_worker.js`
+	 * directory
+	 */
+	outputPath: string;
+	/** Name of the route group the function is bundled in (if the routes are grouped) */
+	routeGroup?: string;
+	/** The deduped files imported by the function, shared with other functions */
+	imports: Record<IdentifierType, (FileSizes & { path: string })[]>;
+	/** Size of the function's file and of the files it imports */
+	totalByteSize: number;
+	/** Gzipped size of the function's file and of the files it imports */
+	totalGzipByteSize: number;
+};
+
+export type BuildSizes = {
+	/** The sizes of the functions, from the largest to the smallest */
+	functions: FunctionSizes[];
+	worker: FileSizes & {
+		gzipByteSizeLimits: typeof workerGzipByteSizeLimits;
+	};
+};
+
+const htmlReportTemplate = `<!DOCTYPE html>
+<html lang="en">
+	<head>
+		<meta charset="utf-8" />
+		<meta name="viewport" content="width=device-width, initial-scale=1" />
+		<title>@khulnasoft/next-on-pages build report</title>
+		<style>
+			body { margin: 0; font-family: system-ui, sans-serif; display: flex; flex-direction: column; height: 100vh; }
+			header { display: flex; gap: 1rem; align-items: center; padding: 0.5rem 1rem; border-bottom: 1px solid #ddd; }
+			#breadcrumbs a { cursor: pointer; color: #0051c3; }
+			#treemap { position: relative; flex: 1; margin: 0.5rem; }
+			.node { position: absolute; box-sizing: border-box; overflow: hidden; border: 1px solid #fff; padding: 2px 4px; font-size: 12px; color: #fff; cursor: pointer; }
+			.node:hover { filter: brightness(1.15); }
+			#tooltip { position: fixed; pointer-events: none; background: #222; color: #fff; padding: 0.5rem; font-size: 12px; border-radius: 4px; max-width: 480px; white-space: pre-wrap; display: none; }
+		</style>
+	</head>
+	<body>
+		<header>
+			<strong>Build report</strong>
+			<span id="breadcrumbs"></span>
+			<label>Size: <select id="metric"><option value="byteSize">Raw</option><option value="gzipByteSize">Gzipped</option></select></label>
+		</header>
+		<div id="treemap"></div>
+		<div id="tooltip"></div>
+		<script>
+			const data = __REPORT_DATA__;
+			const colors = ['#f6821f', '#0051c3', '#2c7a3f', '#8a3ffc', '#d3302f', '#00838f'];
+			const treemap = document.getElementById('treemap');
+			const tooltip = document.getElementById('tooltip');
+			const metricSelect = document.getElementById('metric');
+			let path = [data];
+
+			const format = bytes =>
+				bytes < 1024 ? bytes + ' B'
+				: bytes < 1024 * 1024 ? (bytes / 1024).toFixed(1) + ' KiB'
+				: (bytes / 1024 / 1024).toFixed(2) + ' MiB';
+
+			// Squarified treemap layout (https://www.win.tue.nl/~vanwijk/stm.pdf)
+			function layout(nodes, x, y, w, h, metric) {
+				const items = nodes.filter(node => node[metric] > 0).sort((a, b) => b[metric] - a[metric]);
+				const total = items.reduce((sum, node) => sum + node[metric], 0);
+				const scale = (w * h) / (total || 1);
+				const rects = [];
+				let row = [];
+				const worst = (row, side) => {
+					const areas = row.map(node => node[metric] * scale);
+					const sum = areas.reduce((a, b) => a + b, 0);
+					return Math.max(...areas.map(area => Math.max((side * side * area) / (sum * sum), (sum * sum) / (side * side * area))));
+				};
+				const placeRow = () => {
+					const sum = row.reduce((a, node) => a + node[metric] * scale, 0);
+					const horizontal = w >= h;
+					const thickness = sum / (horizontal ? h : w);
+					let offset = 0;
+					for (const node of row) {
+						const length = (node[metric] * scale) / thickness;
+						rects.push(horizontal
+							? { node, x, y: y + offset, w: thickness, h: length }
+							: { node, x: x + offset, y, w: length, h: thickness });
+						offset += length;
+					}
+					if (horizontal) { x += thickness; w -= thickness; } else { y += thickness; h -= thickness; }
+					row = [];
+				};
+				for (const node of items) {
+					const side = Math.min(w, h);
+					if (row.length && worst([...row, node], side) > worst(row, side)) placeRow();
+					row.push(node);
+				}
+				if (row.length) placeRow();
+				return rects;
+			}
+
+			function render() {
+				const current = path[path.length - 1];
+				const metric = metricSelect.value;
+				treemap.innerHTML = '';
+				const breadcrumbs = document.getElementById('breadcrumbs');
+				breadcrumbs.innerHTML = '';
+				path.forEach((node, idx) => {
+					const link = document.createElement('a');
+					link.textContent = node.name + ' (' + format(node[metric]) + ')';
+					link.onclick = () => { path = path.slice(0, idx + 1); render(); };
+					breadcrumbs.append(link, idx < path.length - 1 ? ' / ' : '');
+				});
+				const { width, height } = treemap.getBoundingClientRect();
+				const rects = layout(current.children ?? [current], 0, 0, width, height, metric);
+				rects.forEach(({ node, x, y, w, h }, idx) => {
+					const element = document.createElement('div');
+					element.className = 'node';
+					Object.assign(element.style, { left: x + 'px', top: y + 'px', width: w + 'px', height: h + 'px', background: colors[idx % colors.length] });
+					element.textContent = node.name + ' ' + format(node[metric]);
+					element.onmousemove = event => {
+						tooltip.style.display = 'block';
+						tooltip.style.left = Math.min(event.clientX + 12, window.innerWidth - 500) + 'px';
+						tooltip.style.top = event.clientY + 12 + 'px';
+						tooltip.textContent = [
+							node.name,
+							'Size: ' + format(node.byteSize) + ' (' + format(node.gzipByteSize) + ' gzipped)',
+							...(node.details ?? []),
+						].join('\\n');
+					};
+					element.onmouseleave = () => { tooltip.style.display = 'none'; };
+					element.onclick = () => {
+						if (node.children?.length) { path = [...path, node]; render(); }
+					};
+					treemap.append(element);
+				});
+			}
+
+			metricSelect.onchange = render;
+			window.onresize = render;
+			render();
+		</script>
+	</body>
+</html>
+`;
@@ -0,0 +1,643 @@
+import { build } from 'esbuild';
+import type { Plugin } from 'esbuild';
+import { execFile } from 'node:child_process';
+import { rm, stat, writeFile } from 'node:fs/promises';
+import { dirname, join, relative, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { promisify } from 'node:util';
+import { cliLog } from '../cli';
+import { normalizePath } from '../utils';
+import { formatByteSize } from './buildReport';
+import { getEntrypointImportPath } from './buildWorkerFile';
+import type { ProcessedVercelFunctions } from './processVercelFunctions';
+import type { ProcessedVercelOutput } from './processVercelOutput';
+import { getFunctionSharedFiles } from './processVercelFunctions/dedupeEdgeFunctions';
+
+/**
+ * Minimum co-usage for two groups of routes to be merged: the size of the shared chunks both groups
+ * import, relative to the size of all the shared chunks they import.
+ */
+const minGroupCoUsage = 0.5;
+
+/**
+ * Name of the file (in the `_worker.js` directory) containing the route groups manifest
+ */
+export const routeGroupsManifestFileName = 'nop-route-groups.json';
+
+/**
+ * Module bundled in each route group's module, loading the shared chunks that the group's module
+ * imports (see `relocatedImportsPlugin`)
+ */
+const routeGroupChunksModule = '__next-on-pages-route-group-chunks__';
+
+/**
+ * Maximum time (in milliseconds) to measure the evaluation of a grouped route
+ */
+const evaluationTimeout = 10_000;
+
+/**
+ * Marker preceding the evaluation time of a grouped route in the output of its measurement
+ */
+const evaluationTimeMarker = '__next-on-pages-evaluation-time__:';
+
+/**
+ * Groups the routes' edge functions into separately loaded modules, based on the shared chunks that
+ * they import.
+ *
+ * Routes that import mostly the same shared chunks are grouped together, and each group is bundled
+ * into a single module with the functions and the chunks only they import. A group's module only
+ * evaluates the function of the route (and the chunks it imports) for which it is loaded, so that a
+ * request only loads the group of its matched route, instead of a tightly coupled graph of shared
+ * chunk modules.
+ *
+ * The chunks also imported by other groups or by ungrouped functions are not bundled (which would
+ * duplicate them in every module importing them), the groups' modules dynamically import them from
+ * their deduped files instead, when loading a function importing them.
+ *
+ * The time it takes to evaluate each route (its group's module, and its function with the chunks
+ * it imports) is then measured with Node.js.
+ *
+ * The grouped function files, and the shared chunks bundled in the groups' modules, are removed
+ * from the `_worker.js` directory. Middleware functions, which run for most requests, are not
+ * grouped.
+ *
+ * @param processedVercelFunctions Results of processing the Vercel functions.
+ * @param processedVercelOutput Results of processing the Vercel output directory.
+ * @param opts Options for building the route groups.
+ * @returns The manifest of the route groups.
+ */
+export async function buildRouteGroups(
+	{ collectedFunctions, identifiers }: ProcessedVercelFunctions,
+	{ vercelOutput }: ProcessedVercelOutput,
+	{
+		outputDir,
+		workerJsDir,
+		nopDistDir,
+		minify,
+		sourcemap,
+	}: BuildRouteGroupsOpts,
+): Promise<RouteGroupsManifest> {
+	const middlewareEntrypoints = new Set(
+		[...vercelOutput.values()].flatMap(item =>
+			item.type === 'middleware' ? [normalizePath(item.entrypoint)] : [],
+		),
+	);
+
+	const chunkSizes = new Map<string, number>();
+	const routes: GroupedRoute[] = [];
+
+	for (const [path, fnInfo] of collectedFunctions.edgeFunctions) {
+		if (!fnInfo.outputPath) continue;
+
+		const entrypoint = normalizePath(fnInfo.outputPath);
+		if (middlewareEntrypoints.has(entrypoint)) continue;
+
+		const { webpack, manifest } = getFunctionSharedFiles(
+			path,
+			fnInfo,
+			identifiers,
+		);
+		const chunks = new Set([...webpack, ...manifest]);
+
+		for (const chunk of chunks) {
+			if (!chunkSizes.has(chunk)) {
+				chunkSizes.set(chunk, await getFileSize(join(workerJsDir, chunk)));
+			}
+		}
+
+		routes.push({
+			route: fnInfo.route?.path ?? fnInfo.relativePath,
+			entrypoint,
+			chunks,
+		});
+	}
+
+	const groupedRoutes = groupRoutesByCoUsage(
+		routes.sort((a, b) => a.route.localeCompare(b.route)),
+		chunkSizes,
+	);
+
+	const bundledChunks = getBundledChunks(
+		{ collectedFunctions, identifiers },
+		groupedRoutes,
+	);
+
+	const groupsDir = join(nopDistDir, 'route-groups');
+	const groups: RouteGroup[] = [];
+
+	for (const [idx, groupRoutes] of groupedRoutes.entries()) {
+		const name = `group-${idx}`;
+		const outfile = join(groupsDir, `${name}.js`);
+
+		// Note: the loaders are keyed by the import paths used by the worker for the functions
+		const loaders = groupRoutes.map(({ entrypoint, chunks }) => {
+			const chunkLoaders = [...chunks]
+				.filter(chunk => !bundledChunks.has(chunk))
+				.sort()
+				.map(
+					chunk =>
+						`${JSON.stringify(chunk)}: () => import(${JSON.stringify(
+							getRelativeImportPath(groupsDir, join(workerJsDir, chunk)),
+						)})`,
+				);
+
+			return `${JSON.stringify(
+				getEntrypointImportPath(entrypoint, outputDir),
+			)}: async () => {
+				await loadChunks({${chunkLoaders.join(',')}});
+				return require(${JSON.stringify(`./${entrypoint}`)});
+			}`;
+		});
+
+		const { metafile } = await build({
+			stdin: {
+				contents: `
+					import { loadChunks } from '${routeGroupChunksModule}';
+					export const loaders = {${loaders.join(',')}};
+				`,
+				resolveDir: workerJsDir,
+			},
+			target: 'es2022',
+			platform: 'neutral',
+			format: 'esm',
+			outfile,
+			bundle: true,
+			minify,
+			sourcemap,
+			metafile: true,
+			external: ['node:*', 'async_hooks', 'khulnasoft:*'],
+			plugins: [
+				relocatedImportsPlugin({
+					groupDir: dirname(outfile),
+					workerJsDir,
+					isExternal: chunk => !bundledChunks.has(chunk),
+				}),
+			],
+		});
+
+		groups.push({
+			name,
+			module: normalizePath(relative(workerJsDir, outfile)),
+			byteSize: await getFileSize(outfile),
+			modules: Object.keys(metafile.inputs).filter(
+				input => input !== '<stdin>' && !input.includes(':'),
+			).length,
+			sharedChunks: [
+				...new Set(groupRoutes.flatMap(({ chunks }) => [...chunks])),
+			]
+				.filter(chunk => !bundledChunks.has(chunk))
+				.sort(),
+			routes: groupRoutes.map(({ route, entrypoint }) => ({
+				route,
+				entrypoint,
+				evaluationTime: null,
+			})),
+		});
+	}
+
+	await removeGroupedFiles(
+		[...routes.map(({ entrypoint }) => entrypoint), ...bundledChunks],
+		workerJsDir,
+	);
+
+	await measureEvaluationTimes(groups, { outputDir, workerJsDir });
+
+	const manifest: RouteGroupsManifest = {
+		entrypoints: Object.fromEntries(
+			groups.flatMap(({ module, routes }) =>
+				routes.map(({ entrypoint }) => [entrypoint, module]),
+			),
+		),
+		groups,
+	};
+
+	await writeFile(
+		join(workerJsDir, routeGroupsManifestFileName),
+		JSON.stringify(manifest, null, 2),
+	);
+
+	printRouteGroups(groups);
+
+	return manifest;
+}
+
+/**
+ * Groups routes by their co-usage of shared chunks.
+ *
+ * Starting with a group for each route, the two groups with the highest co-usage (the size of the
+ * chunks they both import, relative to the size of all the chunks they import) are merged until no
+ * two groups reach the minimum co-usage.
+ *
+ * The size of the chunks imported by both groups of each pair is computed once, and only updated
+ * for the pairs including the merged group after each merge.
+ *
+ * @param routes The routes to group.
+ * @param chunkSizes Sizes of the shared chunks.
+ * @returns The groups of routes.
+ */
+export function groupRoutesByCoUsage(
+	routes: GroupedRoute[],
+	chunkSizes: Map<string, number>,
+): GroupedRoute[][] {
+	const getSize = (chunks: Iterable<string>) =>
+		[...chunks].reduce(
+			(total, chunk) => total + (chunkSizes.get(chunk) ?? 0),
+			0,
+		);
+
+	// Note: merged groups are replaced by null, so that the indexes of the other groups don't change
+	const groups: ({
+		routes: GroupedRoute[];
+		chunks: Set<string>;
+		size: number;
+	} | null)[] = routes.map(route => ({
+		routes: [route],
+		chunks: new Set(route.chunks),
+		size: getSize(route.chunks),
+	}));
+
+	const getSharedSize = (chunksA: Set<string>, chunksB: Set<string>) =>
+		getSize([...chunksA].filter(chunk => chunksB.has(chunk)));
+
+	// Size of the chunks imported by both groups, for each pair of groups `a < b` (at `[a][b]`)
+	const sharedSizes = groups.map((groupA, a) =>
+		groups.map((groupB, b) =>
+			b > a && groupA && groupB
+				? getSharedSize(groupA.chunks, groupB.chunks)
+				: 0,
+		),
+	);
+
+	for (;;) {
+		let bestMerge: { a: number; b: number; coUsage: number } | null = null;
+
+		for (let a = 0; a < groups.length; a++) {
+			const groupA = groups[a];
+			if (!groupA) continue;
+
+			for (let b = a + 1; b < groups.length; b++) {
+				const groupB = groups[b];
+				if (!groupB) continue;
+
+				const sharedSize = sharedSizes[a]?.[b] ?? 0;
+				const unionSize = groupA.size + groupB.size - sharedSize;
+				if (unionSize === 0) continue;
+
+				const coUsage = sharedSize / unionSize;
+				if (coUsage >= minGroupCoUsage && coUsage > (bestMerge?.coUsage ?? 0)) {
+					bestMerge = { a, b, coUsage };
+				}
+			}
+		}
+
+		if (!bestMerge) break;
+
+		const target = groups[bestMerge.a];
+		const merged = groups[bestMerge.b];
+		if (!target || !merged) break;
+
+		groups[bestMerge.b] = null;
+		target.routes.push(...merged.routes);
+		merged.chunks.forEach(chunk => target.chunks.add(chunk));
+		target.size = getSize(target.chunks);
+
+		for (const [idx, group] of groups.entries()) {
+			if (!group || idx === bestMerge.a) continue;
+
+			const [a, b] =
+				idx < bestMerge.a ? [idx, bestMerge.a] : [bestMerge.a, idx];
+			const row = sharedSizes[a];
+			if (row) row[b] = getSharedSize(target.chunks, group.chunks);
+		}
+	}
+
+	return groups.flatMap(group => (group ? [group.routes] : []));
+}
+
+/**
+ * Gets the shared chunks to bundle in the route groups' modules, which are the chunks only imported
+ * by the functions of a single group.
+ *
+ * The other chunks, imported by functions of different groups or by ungrouped functions
+ * (e.g. middleware functions), are kept in their deduped files and imported by the groups' modules,
+ * so that they are not duplicated in the worker.
+ *
+ * @param processedVercelFunctions Results of processing the Vercel functions.
+ * @param groupedRoutes The groups of routes.
+ * @returns The shared chunks to bundle.
+ */
+function getBundledChunks(
+	{ collectedFunctions, identifiers }: ProcessedVercelFunctions,
+	groupedRoutes: GroupedRoute[][],
+): Set<string> {
+	const entrypointGroups = new Map(
+		groupedRoutes.flatMap((routes, idx) =>
+			routes.map(({ entrypoint }) => [entrypoint, idx]),
+		),
+	);
+	const chunkGroups = new Map<string, Set<number | null>>();
+
+	for (const [path, fnInfo] of collectedFunctions.edgeFunctions) {
+		const group = fnInfo.outputPath
+			? entrypointGroups.get(normalizePath(fnInfo.outputPath)) ?? null
+			: null;
+
+		const { webpack, manifest } = getFunctionSharedFiles(
+			path,
+			fnInfo,
+			identifiers,
+		);
+
+		for (const chunk of [...webpack, ...manifest]) {
+			chunkGroups.set(chunk, (chunkGroups.get(chunk) ?? new Set()).add(group));
+		}
+	}
+
+	return new Set(
+		[...chunkGroups].flatMap(([chunk, groups]) =>
+			groups.size === 1 && !groups.has(null) ? [chunk] : [],
+		),
+	);
+}
+
+/**
+ * Gets the size of a file.
+ *
+ * @param path Path to the file.
+ * @returns The size of the file, or 0 if it does not exist.
+ */
+async function getFileSize(path: string): Promise<number> {
+	try {
+		return (await stat(path)).size;
+	} catch {
+		return 0;
+	}
+}
+
+/**
+ * Removes the grouped function files, and the shared chunks bundled in the route groups' modules,
+ * along with their source maps.
+ *
+ * Note: wasm files are kept as they are imported by the route groups' modules.
+ *
+ * @param files The files to remove, relative to the `_worker.js` directory.
+ * @param workerJsDir Path to the `_worker.js` directory.
+ */
+async function removeGroupedFiles(
+	files: string[],
+	workerJsDir: string,
+): Promise<void> {
+	await Promise.all(
+		files.flatMap(file => [
+			rm(join(workerJsDir, file), { force: true }),
+			rm(join(workerJsDir, `${file}.map`), { force: true }),
+		]),
+	);
+}
+
+/**
+ * The function files import wasm files and shared chunks relatively to their location, the
+ * following makes the imports of wasm files relative to the route group's module instead, keeping
+ * them external so that they are imported as compiled wasm modules.
+ *
+ * The imports of the chunks not bundled in the group's module are replaced by the chunks loaded by
+ * the loader of the function (with dynamic imports of their deduped files), so that a group's
+ * module doesn't statically import the chunks of all its functions.
+ *
+ * @param opts The directories of the route group's module and of the worker, and whether a shared
+ * chunk (relative to the `_worker.js` directory) is external.
+ * @returns The esbuild plugin.
+ */
+function relocatedImportsPlugin({
+	groupDir,
+	workerJsDir,
+	isExternal,
+}: {
+	groupDir: string;
+	workerJsDir: string;
+	isExternal: (chunk: string) => boolean;
+}): Plugin {
+	return {
+		name: 'relocated-imports',
+		setup(build) {
+			build.onResolve({ filter: /\.wasm$/ }, ({ path, resolveDir }) => ({
+				path: getRelativeImportPath(groupDir, resolve(resolveDir, path)),
+				external: true,
+			}));
+
+			// Note: the loaders' dynamic imports are already relative to the group's module
+			build.onResolve({ filter: /.*/ }, ({ path, kind }) =>
+				kind === 'dynamic-import' ? { path, external: true } : undefined,
+			);
+
+			build.onResolve(
+				{ filter: new RegExp(`^${routeGroupChunksModule}$`) },
+				({ path }) => ({ path, namespace: 'route-group-chunks' }),
+			);
+
+			build.onResolve(
+				{ filter: /^\.\.?\// },
+				({ path, resolveDir, importer }) => {
+					// Note: the functions imported by the group's loaders are always bundled
+					if (importer === '<stdin>') return undefined;
+
+					const chunk = normalizePath(
+						relative(workerJsDir, resolve(resolveDir, path)),
+					);
+					return isExternal(chunk)
+						? { path: chunk, namespace: 'route-group-chunk' }
+						: undefined;
+				},
+			);
+
+			build.onLoad({ filter: /.*/, namespace: 'route-group-chunks' }, () => ({
+				contents: `
+						const chunks = {};
+
+						export async function loadChunks(loaders) {
+							await Promise.all(
+								Object.entries(loaders).map(async ([chunk, load]) => {
+									chunks[chunk] ??= { __esModule: true, ...(await load()) };
+								}),
+							);
+						}
+
+						export function getChunk(chunk) {
+							if (!chunks[chunk]) {
+								throw new Error(\`The shared chunk \${chunk} has not been loaded\`);
+							}
+							return chunks[chunk];
+						}
+					`,
+				loader: 'js',
+			}));
+
+			build.onLoad(
+				{ filter: /.*/, namespace: 'route-group-chunk' },
+				({ path }) => ({
+					contents: `module.exports = require('${routeGroupChunksModule}').getChunk(${JSON.stringify(
+						path,
+					)});`,
+					loader: 'js',
+				}),
+			);
+		},
+	};
+}
+
+/**
+ * Gets the path to import a file from a directory with.
+ *
+ * @param fromDir The directory importing the file.
+ * @param path The path of the file.
+ * @returns The relative import path.
+ */
+function getRelativeImportPath(fromDir: string, path: string): string {
+	const relativePath = normalizePath(relative(fromDir, path));
+
+	return relativePath.startsWith('.') ? relativePath : `./${relativePath}`;
+}
+
+/**
+ * Measures the cold start evaluation time of each grouped route: the time it takes to import the
+ * module of its group and to load its function (evaluating the function and the shared chunks it
+ * imports), in a new Node.js process.
+ *
+ * The routes are measured one after the other, so that the measurements don't compete for the CPU.
+ *
+ * Note: the functions are evaluated by Node.js instead of the workers runtime, with a minimal shim of
+ * the worker's global scope, the routes that can't be evaluated by Node.js (e.g. because they import
+ * wasm modules) are not measured.
+ *
+ * @param groups The route groups.
+ * @param opts The output directory and the `_worker.js` directory.
+ */
+async function measureEvaluationTimes(
+	groups: RouteGroup[],
+	{ outputDir, workerJsDir }: { outputDir: string; workerJsDir: string },
+): Promise<void> {
+	const script = `
+		const [moduleUrl, entrypoint] = process.argv.slice(-2);
+		globalThis.__nextOnPagesRoutesIsolation = { getProxyFor: () => globalThis };
+
+		const start = performance.now();
+		const { loaders } = await import(moduleUrl);
+		await loaders[entrypoint]();
+		process.stdout.write('\\n${evaluationTimeMarker}' + (performance.now() - start));
+		process.exit(0);
+	`;
+
+	for (const { module, routes } of groups) {
+		const moduleUrl = pathToFileURL(join(workerJsDir, module)).href;
+
+		for (const route of routes) {
+			try {
+				const { stdout } = await promisify(execFile)(
+					process.execPath,
+					[
+						'--input-type=module',
+						'--eval',
+						script,
+						moduleUrl,
+						getEntrypointImportPath(route.entrypoint, outputDir),
+					],
+					{ timeout: evaluationTimeout },
+				);
+				// Note: the evaluated code can also write to the standard output
+				const evaluationTime = new RegExp(
+					`\\n${evaluationTimeMarker}([\\d.]+)$`,
+				).exec(stdout)?.[1];
+				route.evaluationTime = evaluationTime
+					? Math.round(Number(evaluationTime) * 10) / 10
+					: null;
+			} catch {
+				route.evaluationTime = null;
+			}
+		}
+	}
+}
+
+/**
+ * Prints the route groups with their cold start cost: the size of their module and the measured
+ * evaluation time of their routes.
+ *
+ * @param groups The route groups.
+ */
+function printRouteGroups(groups: RouteGroup[]): void {
+	const formatTime = (time: number | null) =>
+		time === null ? 'not measured' : `${time}ms`;
+
+	const formattedGroups = groups
+		.map(({ name, byteSize, modules, sharedChunks, routes }) => {
+			const evaluationTimes = routes.flatMap(({ evaluationTime }) =>
+				evaluationTime === null ? [] : [evaluationTime],
+			);
+
+			return (
+				`  - ${name} (${routes.length} route${
+					routes.length === 1 ? '' : 's'
+				}, ${modules} bundled modules, ${
+					sharedChunks.length
+				} imported shared chunks): ${formatByteSize(byteSize)} module, ` +
+				`evaluated in up to ${formatTime(
+					evaluationTimes.length ? Math.max(...evaluationTimes) : null,
+				)} per route\n` +
+				`      ${routes
+					.map(
+						({ route, evaluationTime }) =>
+							`${route} (${formatTime(evaluationTime)})`,
+					)
+					.join(', ')}`
+			);
+		})
+		.join('\n');
+
+	cliLog(
+		`Route groups (${groups.length}), with their cold start cost (evaluation times measured with Node.js):\n${formattedGroups}`,
+		{ spaced: true, skipDedent: true },
+	);
+}
+
+type BuildRouteGroupsOpts = {
+	outputDir: string;
+	workerJsDir: string;
+	nopDistDir: string;
+	minify: boolean;
+	sourcemap?: boolean;
+};
+
+type GroupedRoute = {
+	route: string;
+	/** Path of the function's file, relative to the `_worker.js` directory */
+	entrypoint: string;
+	/** Shared chunks imported by the function */
+	chunks: Set<string>;
+};
+
+export type RouteGroup = {
+	name: string;
+	/** Path of the group's module, relative to the `_worker.js` directory */
+	module: string;
+	/** Size of the group's module, which is loaded as a whole when one of its routes is requested */
+	byteSize: number;
+	/** Number of modules (functions and shared chunks) bundled in the group's module */
+	modules: number;
+	/** Shared chunks imported by the group's module, as they are also imported by other functions */
+	sharedChunks: string[];
+	routes: {
+		route: string;
+		/** Path of the function's original file, relative to the `_worker.js` directory */
+		entrypoint: string;
+		/**
+		 * Time (in milliseconds) measured with Node.js to import the group's module and evaluate the
+		 * route's function and the shared chunks it imports, or null if it could not be measured
+		 */
+		evaluationTime: number | null;
+	}[];
+};
+
+export type RouteGroupsManifest = {
+	/** Map of the grouped functions' entrypoints to the modules of their groups */
+	entrypoints: Record<string, string>;
+	groups: RouteGroup[];
+};
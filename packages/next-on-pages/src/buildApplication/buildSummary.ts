@@ -10,6 +10,10 @@ import {
 import type { ProcessedVercelOutput } from './processVercelOutput';
 import type { ProcessedVercelFunctions } from './processVercelFunctions';
 import type { FunctionInfo } from './processVercelFunctions/configs';
+import { describeImagesMode } from './getImagesMode';
+import type { BuildSizes } from './buildReport';
+import { getBuildSizes } from './buildReport';
+import type { RouteGroupsManifest } from './buildRouteGroups';
 import type {
 	IdentifierInfo,
 	IdentifiersMap,
@@ -21,6 +25,7 @@ import type {
  * @param staticAssets List of static assets collected during the build.
  * @param processedVercelOutput Results of processing the Vercel output directory.
  * @param directoryProcessingResults Results of processing the output directory.
+ * @param imagesMode How the `next/image` images are served.
  */
 export function printBuildSummary(
 	staticAssets: string[],
@@ -29,8 +34,10 @@ export function printBuildSummary(
 		collectedFunctions,
 		identifiers,
 	}: ProcessedVercelFunctions = emptyProcessedVercelFunctions,
+	imagesMode?: ImagesMode,
 ): void {
-	const { edgeFunctions, prerenderedFunctions } = collectedFunctions;
+	const { edgeFunctions, nodejsFunctions, prerenderedFunctions } =
+		collectedFunctions;
 	const middlewareFunctions = [...vercelOutput.entries()]
 		.filter(([, { type }]) => type === 'middleware')
 		.map(([path]) => path)
@@ -63,9 +70,16 @@ export function printBuildSummary(
 	);
 
 	const summaryTitle = `Build Summary (@khulnasoft/next-on-pages v${nextOnPagesVersion})`;
+	const imagesInfo = imagesMode
+		? `Images: ${describeImagesMode(imagesMode)}\n\n`
+		: '';
 	const summarySections = constructSummarySections([
 		{ name: 'Middleware Functions', rawItems: middlewareFunctions },
 		{ name: 'Edge Function Routes', rawItems: [...routeFunctions] },
+		{
+			name: 'Node.js Function Routes',
+			rawItems: processItemsMap(nodejsFunctions),
+		},
 		{ name: 'Prerendered Routes', rawItems: prerendered, limit: 20 },
 		{
 			name: 'Wasm Files',
@@ -74,20 +88,22 @@ export function printBuildSummary(
 		{ name: 'Bundled Assets', rawItems: [...bundledAssets] },
 		{ name: 'Other Static Assets', rawItems: otherStatic, limit: 5 },
 	]);
-	const summary = `${summaryTitle}\n\n${summarySections}`;
+	const summary = `${summaryTitle}\n\n${imagesInfo}${summarySections}`;
 
 	cliLog(summary, { spaced: true, skipDedent: true });
 }
 
 /**
- * Writes information about the build to a json log file.
+ * Collects information about the build, for the json build log.
  *
  * @param directories Vercel functions and output directories.
  * @param staticAssets List of static assets collected during the build.
  * @param processedVercelOutput Results of processing the Vercel output directory.
  * @param directoryProcessingResults Results of processing the output directory.
+ * @param routeGroupsManifest The manifest of the route groups (if the routes are grouped).
+ * @returns The build log.
  */
-export async function writeBuildInfo(
+export async function getBuildInfo(
 	{ outputDir, functionsDir }: { outputDir: string; functionsDir: string },
 	staticAssets: string[],
 	{ vercelOutput }: ProcessedVercelOutput,
@@ -95,12 +111,13 @@ export async function writeBuildInfo(
 		collectedFunctions,
 		identifiers,
 	}: ProcessedVercelFunctions = emptyProcessedVercelFunctions,
-): Promise<void> {
+	routeGroupsManifest: RouteGroupsManifest | null = null,
+): Promise<BuildLog> {
 	const currentDir = resolve();
-	const buildLogFilePath = join(outputDir, 'nop-build-log.json');
 
 	const {
 		edgeFunctions,
+		nodejsFunctions,
 		prerenderedFunctions,
 		ignoredFunctions,
 		invalidFunctions,
@@ -123,6 +140,7 @@ export async function writeBuildInfo(
 					.filter(([, { type }]) => type === 'middleware')
 					.map(([path]) => path),
 				edge: [...edgeFunctions.values()],
+				nodejs: [...nodejsFunctions.values()],
 				prerendered: [...prerenderedFunctions.values()],
 				ignored: [...ignoredFunctions.values()],
 			},
@@ -142,13 +160,33 @@ export async function writeBuildInfo(
 				),
 			},
 		},
+		sizes: await getBuildSizes(
+			outputDir,
+			{ collectedFunctions, identifiers },
+			routeGroupsManifest,
+		),
 	};
-	const buildLogText = JSON.stringify(buildLogObject, null, 2);
+
+	return buildLogObject;
+}
+
+/**
+ * Writes information about the build to a json log file.
+ *
+ * @param outputDir Output directory.
+ * @param buildLog The build log to write.
+ */
+export async function writeBuildInfo(
+	outputDir: string,
+	buildLog: BuildLog,
+): Promise<void> {
+	const buildLogFilePath = join(outputDir, 'nop-build-log.json');
+	const buildLogText = JSON.stringify(buildLog, null, 2);
 
 	await mkdir(outputDir, { recursive: true });
 	await writeFile(buildLogFilePath, buildLogText);
 
-	cliLog(`Build log saved to '${relative(currentDir, buildLogFilePath)}'`);
+	cliLog(`Build log saved to '${relative(resolve(), buildLogFilePath)}'`);
 }
 
 /**
@@ -178,6 +216,7 @@ const emptyProcessedVercelFunctions: ProcessedVercelFunctions = {
 	collectedFunctions: {
 		functionsDir: '',
 		edgeFunctions: new Map(),
+		nodejsFunctions: new Map(),
 		prerenderedFunctions: new Map(),
 		ignoredFunctions: new Map(),
 		invalidFunctions: new Map(),
@@ -203,6 +242,7 @@ export type BuildLog = {
 			invalid: FunctionInfo[];
 			middleware: string[];
 			edge: FunctionInfo[];
+			nodejs: FunctionInfo[];
 			prerendered: FunctionInfo[];
 			ignored: FunctionInfo[];
 		};
@@ -213,6 +253,8 @@ export type BuildLog = {
 			webpack: Record<string, IdentifierInfoWithConsumersLength>;
 		};
 	};
+	/** Sizes of the functions and of the whole worker */
+	sizes: BuildSizes;
 };
 
 type IdentifierInfoWithConsumersLength = Override<
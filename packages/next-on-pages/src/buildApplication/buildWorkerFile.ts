@@ -1,5 +1,7 @@
-import { writeFile } from 'fs/promises';
-import { join, relative } from 'path';
+import { readFile, writeFile } from 'fs/promises';
+import { join, relative, resolve } from 'path';
+import { randomUUID } from 'crypto';
+import type { BuildOptions } from 'esbuild';
 import { build } from 'esbuild';
 import { tmpdir } from 'os';
 import { generateGlobalJs } from './generateGlobalJs';
@@ -7,17 +9,20 @@ import type { ProcessedVercelOutput } from './processVercelOutput';
 import { getNodeEnv } from '../utils/getNodeEnv';
 import { normalizePath } from '../utils';
 import { cliLog } from '../cli';
+import type { SuspenseCacheAdaptorType } from '../config';
 
 /**
  * Construct a record for the build output map.
  *
  * @param item The build output item to construct a record for.
  * @param outputDir The output directory.
+ * @param routeGroups Map of the grouped functions' entrypoints to their route group modules (if the routes are grouped).
  * @returns Record for the build output map.
  */
 export function constructBuildOutputRecord(
 	item: BuildOutputItem,
 	outputDir: string,
+	routeGroups: Record<string, string> = {},
 ) {
 	if (item.type === 'static') {
 		return `{ type: ${JSON.stringify(item.type)} }`;
@@ -27,19 +32,104 @@ export function constructBuildOutputRecord(
 		return `{
 				type: ${JSON.stringify(item.type)},
 				path: ${item.path ? JSON.stringify(item.path) : undefined},
-				headers: ${item.headers ? JSON.stringify(item.headers) : undefined}
+				headers: ${item.headers ? JSON.stringify(item.headers) : undefined},
+				isr: ${
+					item.isr
+						? JSON.stringify(
+								getIsrImportConfig(item.isr, outputDir, routeGroups),
+						  )
+						: undefined
+				}
 			}`;
 	}
 
+	const routeGroup = getRouteGroupImportPath(
+		item.entrypoint,
+		outputDir,
+		routeGroups,
+	);
+
 	return `{
 				type: ${JSON.stringify(item.type)},
-				entrypoint: '${normalizePath(item.entrypoint.replace(outputDir, '')).replace(
-					/^\/_worker\.js\/__next-on-pages-dist__\//,
-					'./__next-on-pages-dist__/',
-				)}'
+				entrypoint: '${getEntrypointImportPath(item.entrypoint, outputDir)}',
+				routeGroup: ${routeGroup ? `'${routeGroup}'` : undefined}
 			}`;
 }
 
+/**
+ * Gets the path used by the worker to import a function's entrypoint.
+ *
+ * @param entrypoint The absolute path of the function's entrypoint.
+ * @param outputDir The output directory.
+ * @returns The import path, relative to the `_worker.js` directory.
+ */
+export function getEntrypointImportPath(entrypoint: string, outputDir: string) {
+	return normalizePath(entrypoint.replace(outputDir, '')).replace(
+		/^\/_worker\.js\/__next-on-pages-dist__\//,
+		'./__next-on-pages-dist__/',
+	);
+}
+
+/**
+ * Gets the path used by the worker to import the route group module of a function.
+ *
+ * @param entrypoint The path of the function's entrypoint.
+ * @param outputDir The output directory.
+ * @param routeGroups Map of the grouped functions' entrypoints to their route group modules.
+ * @returns The import path of the route group module, or undefined if the function is not grouped.
+ */
+function getRouteGroupImportPath(
+	entrypoint: string,
+	outputDir: string,
+	routeGroups: Record<string, string>,
+) {
+	const routeGroup = routeGroups[normalizePath(entrypoint)];
+	return routeGroup
+		? getEntrypointImportPath(routeGroup, outputDir)
+		: undefined;
+}
+
+/**
+ * Gets the ISR config of a prerendered route used by the worker.
+ *
+ * @param isr The ISR config of the route.
+ * @param outputDir The output directory.
+ * @param routeGroups Map of the grouped functions' entrypoints to their route group modules.
+ * @returns The ISR config, with the import path of the edge function's entrypoint.
+ */
+function getIsrImportConfig(
+	{ entrypoint, expiration }: BuildOutputIsrConfig,
+	outputDir: string,
+	routeGroups: Record<string, string> = {},
+): BuildOutputIsrConfig {
+	const routeGroup = getRouteGroupImportPath(
+		entrypoint,
+		outputDir,
+		routeGroups,
+	);
+
+	return {
+		entrypoint: getEntrypointImportPath(entrypoint, outputDir),
+		expiration,
+		...(routeGroup && { routeGroup }),
+	};
+}
+
+/**
+ * Information about the application's routing, written alongside the worker so that the routing
+ * can be inspected without running the worker.
+ */
+export type RoutingInfo = {
+	config: ProcessedVercelConfig;
+	output: VercelBuildOutput;
+	buildMetadata: NextOnPagesBuildMetadata;
+};
+
+/**
+ * Name of the file (in the `_worker.js` directory) containing the routing information
+ */
+export const routingInfoFileName = 'nop-routing.json';
+
 export async function buildWorkerFile(
 	{ vercelConfig, vercelOutput }: ProcessedVercelOutput,
 	{
@@ -49,6 +139,14 @@ export async function buildWorkerFile(
 		templatesDir,
 		customEntrypoint,
 		minify,
+		sourcemap,
+		suspenseCacheAdaptor,
+		customCacheAdaptor,
+		fallbackImageTransformer,
+		errorReporter,
+		imagesMode,
+		routeGroups,
+		staticIsrRoutes,
 	}: BuildWorkerFileOpts,
 ): Promise<string> {
 	const functionsFile = join(
@@ -61,7 +159,11 @@ export async function buildWorkerFile(
 		`export const __BUILD_OUTPUT__ = {${[...vercelOutput.entries()]
 			.map(
 				([name, item]) =>
-					`"${name}": ${constructBuildOutputRecord(item, outputDir)}`,
+					`"${name}": ${constructBuildOutputRecord(
+						item,
+						outputDir,
+						routeGroups,
+					)}`,
 			)
 			.join(',')}};`,
 	);
@@ -71,10 +173,23 @@ export async function buildWorkerFile(
 		platform: 'neutral',
 		bundle: false,
 		minify,
+		sourcemap,
 	} as const;
 
 	const outputFile = join(workerJsDir, 'index.js');
 
+	const buildMetadata: NextOnPagesBuildMetadata = {
+		collectedLocales: collectLocales(vercelConfig.routes),
+		buildId: await getBuildId(),
+		buildTimestamp: Date.now(),
+		staticIsrRoutes,
+		suspenseCacheAdaptor,
+		customCacheAdaptor: !!customCacheAdaptor,
+		fallbackImageTransformer: !!fallbackImageTransformer,
+		errorReporter: !!errorReporter,
+		imagesMode,
+	};
+
 	await build({
 		...defaultBuildOpts,
 		entryPoints: [join(templatesDir, '_worker.js')],
@@ -90,21 +205,82 @@ export async function buildWorkerFile(
 		define: {
 			__CONFIG__: JSON.stringify(vercelConfig),
 			__NODE_ENV__: JSON.stringify(getNodeEnv()),
-			__BUILD_METADATA__: JSON.stringify({
-				collectedLocales: collectLocales(vercelConfig.routes),
-			}),
+			__BUILD_METADATA__: JSON.stringify(buildMetadata),
 		},
 		outfile: outputFile,
 	});
 
 	await build({
 		...defaultBuildOpts,
-		entryPoints: ['adaptor.ts', 'cache-api.ts', 'kv.ts'].map(fileName =>
-			join(templatesDir, 'cache', fileName),
-		),
+		entryPoints: [
+			'adaptor.ts',
+			'cache-api.ts',
+			'kv.ts',
+			'd1.ts',
+			'r2.ts',
+			'tiered.ts',
+		].map(fileName => join(templatesDir, 'cache', fileName)),
 		outdir: join(nopDistDir, 'cache'),
 	});
 
+	if (customCacheAdaptor) {
+		cliLog(`Using custom cache adaptor '${customCacheAdaptor}'`);
+
+		await buildCustomCacheAdaptor(
+			customCacheAdaptor,
+			nopDistDir,
+			defaultBuildOpts,
+		);
+	}
+
+	if (fallbackImageTransformer) {
+		cliLog(`Using fallback image transformer '${fallbackImageTransformer}'`);
+
+		await build({
+			...defaultBuildOpts,
+			entryPoints: [fallbackImageTransformer],
+			outfile: join(nopDistDir, 'images', 'transformer.js'),
+			bundle: true,
+			external: ['node:*', 'khulnasoft:*'],
+			// wasm modules are kept as separate files so that they are imported as compiled wasm modules
+			loader: { '.wasm': 'copy' },
+		});
+	}
+
+	if (errorReporter) {
+		cliLog(`Using error reporter '${errorReporter}'`);
+
+		await build({
+			...defaultBuildOpts,
+			entryPoints: [errorReporter],
+			outfile: join(nopDistDir, 'errors', 'reporter.js'),
+			bundle: true,
+			external: ['node:*', 'khulnasoft:*'],
+		});
+	}
+
+	const routingInfo: RoutingInfo = {
+		config: vercelConfig,
+		output: Object.fromEntries(
+			[...vercelOutput.entries()].map(([name, item]) => [
+				name,
+				item.type === 'function' || item.type === 'middleware'
+					? {
+							type: item.type,
+							entrypoint: getEntrypointImportPath(item.entrypoint, outputDir),
+					  }
+					: item.type === 'override' && item.isr
+					? { ...item, isr: getIsrImportConfig(item.isr, outputDir) }
+					: item,
+			]),
+		),
+		buildMetadata,
+	};
+	await writeFile(
+		join(workerJsDir, routingInfoFileName),
+		JSON.stringify(routingInfo),
+	);
+
 	if (customEntrypoint) {
 		cliLog(`Using custom worker entrypoint '${customEntrypoint}'`);
 
@@ -131,6 +307,39 @@ export async function buildWorkerFile(
 	return relative('.', outputFile);
 }
 
+/**
+ * Bundles the cache adaptor provided by the user to `cache/custom.js` in the next-on-pages dist directory.
+ *
+ * @param customCacheAdaptor Path to the custom cache adaptor.
+ * @param nopDistDir The next-on-pages dist directory.
+ * @param buildOpts Options for the esbuild build.
+ */
+export async function buildCustomCacheAdaptor(
+	customCacheAdaptor: string,
+	nopDistDir: string,
+	buildOpts: BuildOptions = {},
+): Promise<void> {
+	await build({
+		...buildOpts,
+		entryPoints: [customCacheAdaptor],
+		outfile: join(nopDistDir, 'cache', 'custom.js'),
+		bundle: true,
+		external: ['node:*', 'khulnasoft:*'],
+		plugins: [
+			{
+				name: 'custom-cache-adaptor-import-plugin',
+				setup(build) {
+					// the custom adaptor needs to share the (already built) base adaptor module with the worker
+					build.onResolve(
+						{ filter: /^@khulnasoft\/next-on-pages\/cache$/ },
+						() => ({ path: './adaptor.js', external: true }),
+					);
+				},
+			},
+		],
+	});
+}
+
 type BuildWorkerFileOpts = {
 	outputDir: string;
 	workerJsDir: string;
@@ -138,6 +347,16 @@ type BuildWorkerFileOpts = {
 	templatesDir: string;
 	customEntrypoint?: string;
 	minify?: boolean;
+	sourcemap?: boolean;
+	suspenseCacheAdaptor?: SuspenseCacheAdaptorType;
+	customCacheAdaptor?: string;
+	fallbackImageTransformer?: string;
+	errorReporter?: string;
+	imagesMode: ImagesMode;
+	/** Map of the grouped functions' entrypoints to their route group modules (if the routes are grouped) */
+	routeGroups?: Record<string, string>;
+	/** Pathnames of the ISR routes that can't be regenerated */
+	staticIsrRoutes?: string[];
 };
 
 /**
@@ -158,3 +377,17 @@ function collectLocales(routes: ProcessedVercelRoutes): string[] {
 		.filter(Boolean);
 	return [...new Set(locales)];
 }
+
+/**
+ * Gets the id of the current build, which is the Next.js build id if available, otherwise a
+ * randomly generated one
+ *
+ * @returns the build id
+ */
+async function getBuildId(): Promise<string> {
+	try {
+		return (await readFile(resolve('.next', 'BUILD_ID'), 'utf8')).trim();
+	} catch {
+		return randomUUID();
+	}
+}
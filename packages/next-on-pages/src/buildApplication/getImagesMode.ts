@@ -0,0 +1,61 @@
+import { join } from 'path';
+import { readJsonFile } from '../utils';
+
+/**
+ * The subset of the Next.js images configuration (from the `.next/images-manifest.json` file) that
+ * determines how the application's images are served
+ */
+type NextImagesManifest = {
+	version: number;
+	images: {
+		loader?: string;
+		loaderFile?: string;
+		path?: string;
+		unoptimized?: boolean;
+	};
+};
+
+/**
+ * Gets how the `next/image` images of the application are served:
+ *  - `optimized`: the images are requested via `/_next/image` and resized by the worker
+ *  - `unoptimized`: the images are served as they are (`images.unoptimized` is set)
+ *  - `custom-loader`: the images are resized by a custom loader (`images.loader` or
+ *    `images.loaderFile` is set), e.g. a third-party image CDN
+ *
+ * When the Next.js images manifest can't be read the images are assumed to be optimized.
+ *
+ * @returns the images mode of the application
+ */
+export async function getImagesMode(): Promise<ImagesMode> {
+	const manifest = await readJsonFile<NextImagesManifest>(
+		join('.next', 'images-manifest.json'),
+	);
+	const images = manifest?.images;
+
+	if (images?.unoptimized) {
+		return 'unoptimized';
+	}
+
+	if ((images?.loader && images.loader !== 'default') || images?.loaderFile) {
+		return 'custom-loader';
+	}
+
+	return 'optimized';
+}
+
+/**
+ * Describes an images mode for the build summary.
+ *
+ * @param imagesMode the images mode to describe
+ * @returns the description of the images mode
+ */
+export function describeImagesMode(imagesMode: ImagesMode): string {
+	switch (imagesMode) {
+		case 'optimized':
+			return 'optimized (resized by the worker via /_next/image)';
+		case 'unoptimized':
+			return 'unoptimized (images.unoptimized, served as static assets)';
+		case 'custom-loader':
+			return 'custom loader (images.loader/loaderFile, /_next/image is not handled)';
+	}
+}
@@ -3,20 +3,28 @@ import { build } from 'esbuild';
 import { mkdir, readFile } from 'node:fs/promises';
 import { dirname, join, relative, resolve } from 'node:path';
 import { normalizePath } from '../../utils';
+import type { FileContents } from './sourceMaps';
+import { MappedString, getInlineSourceMapComment } from './sourceMaps';
 
 /**
  * Builds a file using esbuild.
  *
  * Marks all Node.js, Wasm, and next-on-pages dist imports as external.
  *
+ * When generating a source map, the source map of the mapped contents is passed to esbuild so that
+ * the built file can be mapped back to the original files.
+ *
  * @param contents File contents to build.
  * @param filePath File path to build to.
- * @param opts Relative path options.
+ * @param opts Relative path and source map options.
  */
 export async function buildFile(
-	contents: string,
+	contents: FileContents,
 	filePath: string,
-	{ relativeTo }: Omit<RelativePathOpts, 'from'> = {},
+	{
+		relativeTo,
+		sourcemap = false,
+	}: Omit<RelativePathOpts, 'from'> & { sourcemap?: boolean } = {},
 ) {
 	const relativeNopDistPath = normalizePath(
 		join(
@@ -31,7 +39,14 @@ export async function buildFile(
 
 	await mkdir(dirname(filePath), { recursive: true });
 	await build({
-		stdin: { contents },
+		stdin: {
+			contents:
+				sourcemap && contents instanceof MappedString
+					? `${contents}${getInlineSourceMapComment(
+							contents.toSourceMap(dirname(filePath)),
+					  )}`
+					: contents.toString(),
+		},
 		target: 'es2022',
 		platform: 'neutral',
 		outfile: filePath,
@@ -44,6 +59,7 @@ export async function buildFile(
 			'khulnasoft:*',
 		],
 		minify: true,
+		sourcemap,
 		plugins: [builtInModulesPlugin],
 		define: {
 			'process.env.__NEXT_BUILD_ID': JSON.stringify(nextBuildID),
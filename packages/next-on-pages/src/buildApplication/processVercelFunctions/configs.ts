@@ -1,4 +1,4 @@
-import { join, relative } from 'node:path';
+import { join, relative, resolve } from 'node:path';
 import type { PathInfo } from '../../utils';
 import {
 	addLeadingSlash,
@@ -21,6 +21,7 @@ export async function collectFunctionConfigsRecursively(
 	configs: CollectedFunctions = {
 		functionsDir: baseDir,
 		edgeFunctions: new Map(),
+		nodejsFunctions: new Map(),
 		prerenderedFunctions: new Map(),
 		invalidFunctions: new Map(),
 		ignoredFunctions: new Map(),
@@ -77,9 +78,31 @@ function checkPrerenderConfigExists(funcPath: string, files: PathInfo[]) {
 	return files.find(({ path }) => path === prerenderConfigPath);
 }
 
+/**
+ * Gets the entrypoint of a function.
+ *
+ * The entrypoint of Node.js serverless functions is their `handler`, and the file might not be in
+ * the function's directory, in which case the build output maps it to its original location with
+ * the function's `filePathMap`.
+ *
+ * @param path Path to the function's directory.
+ * @param config The function's config.
+ * @returns The full path of the entrypoint, or null if the function doesn't declare one.
+ */
+export function getFunctionEntrypoint(
+	path: string,
+	{ handler, entrypoint, filePathMap }: VercelFunctionConfig,
+): string | null {
+	const file = handler ?? entrypoint;
+	if (!file) return null;
+
+	return resolve(filePathMap?.[file] ?? join(path, file));
+}
+
 export type CollectedFunctions = {
 	functionsDir: string;
 	edgeFunctions: Map<string, FunctionInfo>;
+	nodejsFunctions: Map<string, FunctionInfo>;
 	prerenderedFunctions: Map<string, FunctionInfo>;
 	invalidFunctions: Map<string, FunctionInfo>;
 	ignoredFunctions: Map<string, FunctionInfo & { reason?: string }>;
@@ -95,5 +118,9 @@ export type FunctionInfo = {
 		path: string;
 		headers?: Record<string, string>;
 		overrides?: string[];
+		/** Time (in seconds) after which an ISR route is regenerated by its edge function */
+		expiration?: number;
+		/** Whether the route is an ISR route that can't be regenerated (only its prerendered file is served) */
+		staticIsr?: boolean;
 	};
 };
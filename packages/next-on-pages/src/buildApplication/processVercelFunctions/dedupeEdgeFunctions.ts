@@ -18,10 +18,18 @@ import {
 	addLeadingSlash,
 	copyFileWithDir,
 	normalizePath,
-	replaceLastSubstringInstance,
 	validateFile,
 } from '../../utils';
 import { copyAssetFile } from './prerenderFunctions';
+import type { FileContents } from './sourceMaps';
+import {
+	MappedString,
+	concatContents,
+	prependLinesToSourceMap,
+	readSourceFile,
+	replaceLastInstance,
+	replaceMatches,
+} from './sourceMaps';
 import { cliError } from '../../cli';
 
 /**
@@ -73,8 +81,16 @@ async function processFunctionIdentifiers(
 
 	const wasmIdentifierKeys = [...identifierMaps.wasm.keys()];
 
+	// Tracks the contents of the code block files, to map them back to the functions' files (when
+	// generating source maps).
+	const codeBlockFilesContents = new Map<string, MappedString>();
+
 	for (const [path, fnInfo] of edgeFunctions) {
-		const { entrypoint, ...file } = await getFunctionFile(path, fnInfo);
+		const { entrypoint, ...file } = await getFunctionFile(
+			path,
+			fnInfo,
+			opts.sourcemap,
+		);
 		let fileContents = file.contents;
 
 		// eslint-disable-next-line @typescript-eslint/no-non-null-assertion
@@ -120,7 +136,7 @@ async function processFunctionIdentifiers(
 				const { updatedContents, newFilePath, newImport, wasmImports } =
 					await processCodeBlockIdentifier(
 						{ type, identifier, start, end, info: identifierInfo },
-						{ fileContents, wasmIdentifierKeys },
+						{ fileContents, wasmIdentifierKeys, codeBlockFilesContents },
 						opts,
 					);
 
@@ -142,7 +158,7 @@ async function processFunctionIdentifiers(
 				identifierInfo.inlined = true;
 
 				if (!identifierInfo.byteLength) {
-					const buffer = Buffer.from(fileContents.slice(start, end));
+					const buffer = Buffer.from(fileContents.slice(start, end).toString());
 					identifierInfo.byteLength = buffer.byteLength;
 				}
 			}
@@ -151,8 +167,11 @@ async function processFunctionIdentifiers(
 		// Build the identifier files before building the function's file.
 		await Promise.all(
 			[...identifierPathsToBuild].map(async path => {
-				const fileContents = await functionifyFileContent(path);
-				return buildFile(fileContents, path);
+				const fileContents = await functionifyFileContent(
+					path,
+					codeBlockFilesContents.get(path),
+				);
+				return buildFile(fileContents, path, { sourcemap: opts.sourcemap });
 			}),
 		);
 
@@ -184,17 +203,28 @@ async function processFunctionIdentifiers(
  * (which are used as the function's parameter names)
  *
  * @param path the path of the ESM file
+ * @param mappedFileContents the contents of the file mapped to the functions they come from (if known)
  * @returns the converted file content
  */
-async function functionifyFileContent(path: string) {
+async function functionifyFileContent(
+	path: string,
+	mappedFileContents?: MappedString,
+) {
 	const originalFileContents = await readFile(path, 'utf8');
-	return `
+	return concatContents([
+		`
 		${
 			/* Note: we need to make sure that the named exports object is defined since that is used inside the file */ ''
 		}
 		const ${namedExportsObjectName} = {};
-		export const ${getNamedExportsFunctionName} = ((self, globalThis, global) => { ${originalFileContents} return ${namedExportsObjectName}; });
-	`;
+		export const ${getNamedExportsFunctionName} = ((self, globalThis, global) => { `,
+		// Note: the file is only mapped if it has not been updated since the code blocks were added to it
+		mappedFileContents?.toString() === originalFileContents
+			? mappedFileContents
+			: originalFileContents,
+		` return ${namedExportsObjectName}; });
+	`,
+	]);
 }
 
 /**
@@ -211,7 +241,7 @@ async function functionifyFileContent(path: string) {
 async function buildFunctionFile(
 	{ fnInfo, fileContents, newFnLocation, newFnPath }: BuildFunctionFileOpts,
 	{ importsToPrepend }: { importsToPrepend: NewImportInfo[] },
-	{ workerJsDir, nopDistDir }: ProcessVercelFunctionsOpts,
+	{ workerJsDir, nopDistDir, sourcemap }: ProcessVercelFunctionsOpts,
 ): Promise<{ buildPromise: Promise<void> }> {
 	const functionImports: string[] = [];
 
@@ -261,6 +291,7 @@ async function buildFunctionFile(
 	);
 	const buildPromise = buildFile(finalFileContents, newFnPath, {
 		relativeTo: nopDistDir,
+		sourcemap,
 	}).then(async () => {
 		const { size } = await stat(newFnPath);
 		fnInfo.outputByteSize = size;
@@ -271,7 +302,7 @@ async function buildFunctionFile(
 
 type BuildFunctionFileOpts = {
 	fnInfo: FunctionInfo;
-	fileContents: string;
+	fileContents: FileContents;
 	newFnLocation: string;
 	newFnPath: string;
 };
@@ -287,31 +318,35 @@ type BuildFunctionFileOpts = {
  * @returns the updated/iifefied file content
  */
 function iifefyFunctionFile(
-	fileContents: string,
+	fileContents: FileContents,
 	functionImports: string[],
 	functionInfo: FunctionInfo,
 	chunksExportsMap: Map<string, Set<string>>,
-): string {
+): FileContents {
 	const fileContentsContainEntriesDeclaration =
-		/(let|var|const)\s+_ENTRIES\s*=/.test(fileContents);
+		/(let|var|const)\s+_ENTRIES\s*=/.test(fileContents.toString());
 
 	// it looks like there can be direct references to _ENTRIES (i.e. `_ENTRIES` instead of `globalThis._ENTRIES` etc...)
 	// we have to update all such references otherwise our proxying won't take effect on those, but only if the file doesn't
 	// actually declare _ENTRIES itself (as it happens in older Vercel CLI version (v31 and older))
 	if (!fileContentsContainEntriesDeclaration) {
-		fileContents = fileContents.replace(
+		fileContents = replaceMatches(
+			fileContents,
 			/([^.])_ENTRIES/g,
 			'$1globalThis._ENTRIES',
 		);
 	}
 
-	const wrappedContent = `
+	const wrappedContent = concatContents([
+		`
 		export default ((self, globalThis, global) => {
-			${fileContents
-				// the default export needs to become the return value of the iife, which is then re-exported as default
-				.replace(/export\s+default\s+/g, 'return ')}
+			`,
+		// the default export needs to become the return value of the iife, which is then re-exported as default
+		replaceMatches(fileContents, /export\s+default\s+/g, 'return '),
+		`
 		})(proxy, proxy, proxy);
-	`;
+	`,
+	]);
 
 	const proxyCall = `const proxy = globalThis.__nextOnPagesRoutesIsolation.getProxyFor('${
 		functionInfo.route?.path ?? ''
@@ -329,12 +364,10 @@ function iifefyFunctionFile(
 		},
 	);
 
-	return [
-		...functionImports,
-		proxyCall,
-		...chunksExtraction,
+	return concatContents([
+		[...functionImports, proxyCall, ...chunksExtraction, ''].join('\n'),
 		wrappedContent,
-	].join('\n');
+	]);
 }
 
 /**
@@ -347,7 +380,7 @@ function iifefyFunctionFile(
 async function prependWasmImportsToCodeBlocks(
 	wasmImportsToPrepend: Map<string, Set<string>>,
 	identifierMaps: Record<IdentifierType, IdentifiersMap>,
-	{ workerJsDir, nopDistDir }: ProcessVercelFunctionsOpts,
+	{ workerJsDir, nopDistDir, sourcemap }: ProcessVercelFunctionsOpts,
 ) {
 	await Promise.all(
 		[...wasmImportsToPrepend.entries()].map(
@@ -370,6 +403,17 @@ async function prependWasmImportsToCodeBlocks(
 				}
 
 				const oldContents = await readFile(filePath);
+
+				if (sourcemap) {
+					// Prepend the imports on their own line to only shift the source map's lines.
+					await writeFile(
+						filePath,
+						`${functionImports.join(';')};\n${oldContents}`,
+					);
+					await prependLinesToSourceMap(`${filePath}.map`, 1);
+					return;
+				}
+
 				await writeFile(
 					filePath,
 					`${functionImports.join(';')};${oldContents}`,
@@ -400,11 +444,14 @@ async function processImportIdentifier(
 		fnConfig,
 	}: ProcessImportIdentifierOpts,
 	{ nopDistDir, workerJsDir }: ProcessVercelFunctionsOpts,
-): Promise<{ updatedContents: string; newImportToPrepend: NewImportInfo }> {
+): Promise<{
+	updatedContents: FileContents;
+	newImportToPrepend: NewImportInfo;
+}> {
 	const { type, identifier, start, end, importPath, info } = ident;
 	let updatedContents = fileContents;
 
-	const codeBlock = updatedContents.slice(start, end);
+	const codeBlock = updatedContents.slice(start, end).toString();
 
 	if (!info.newDest) {
 		const importPathWithoutLeadingDots = importPath
@@ -437,11 +484,7 @@ async function processImportIdentifier(
 	const newImportPath = normalizePath(join(relativeImportPath, info.newDest));
 
 	// let's remove the original import since it will be re-added later when appropriate
-	updatedContents = replaceLastSubstringInstance(
-		updatedContents,
-		codeBlock,
-		'',
-	);
+	updatedContents = replaceLastInstance(updatedContents, codeBlock, '');
 
 	return {
 		updatedContents,
@@ -453,7 +496,7 @@ async function processImportIdentifier(
 }
 
 type ProcessImportIdentifierOpts = {
-	fileContents: string;
+	fileContents: FileContents;
 	entrypoint: string;
 	newFnLocation: string;
 	fnConfig: VercelFunctionConfig;
@@ -473,13 +516,17 @@ type ProcessImportIdentifierOpts = {
  */
 async function processCodeBlockIdentifier(
 	ident: RawIdentifier<IdentifierType> & { info: IdentifierInfo },
-	{ fileContents, wasmIdentifierKeys }: ProcessCodeBlockIdentifierOpts,
+	{
+		fileContents,
+		wasmIdentifierKeys,
+		codeBlockFilesContents,
+	}: ProcessCodeBlockIdentifierOpts,
 	{ nopDistDir, workerJsDir }: ProcessVercelFunctionsOpts,
 ): Promise<ProcessCodeBlockIdentifierResult> {
 	const { type, identifier, start, end, info } = ident;
 	let updatedContents = fileContents;
 
-	const codeBlock = updatedContents.slice(start, end);
+	const codeBlock = updatedContents.slice(start, end).toString();
 
 	let identifierKey = identifier;
 	let newCodeBlock = identifier;
@@ -511,13 +558,25 @@ async function processCodeBlockIdentifier(
 
 		info.byteLength = buffer.byteLength;
 
+		if (updatedContents instanceof MappedString) {
+			codeBlockFilesContents.set(
+				newFilePath,
+				MappedString.concat([
+					codeBlockFilesContents.get(newFilePath) ?? '',
+					`${namedExportsObjectName}["${identifierKey}"] = `,
+					updatedContents.slice(start, end),
+					'\n',
+				]),
+			);
+		}
+
 		await mkdir(identTypeDir, { recursive: true });
 		await appendFile(newFilePath, buffer);
 	}
 
 	const newImport: NewImportInfo = { key: identifierKey, path: info.newDest };
 
-	updatedContents = replaceLastSubstringInstance(
+	updatedContents = replaceLastInstance(
 		updatedContents,
 		codeBlock,
 		newCodeBlock,
@@ -527,12 +586,13 @@ async function processCodeBlockIdentifier(
 }
 
 type ProcessCodeBlockIdentifierOpts = {
-	fileContents: string;
+	fileContents: FileContents;
 	wasmIdentifierKeys: string[];
+	codeBlockFilesContents: Map<string, MappedString>;
 };
 
 type ProcessCodeBlockIdentifierResult = {
-	updatedContents: string;
+	updatedContents: FileContents;
 	newFilePath?: string;
 	newImport?: NewImportInfo;
 	wasmImports: string[];
@@ -549,7 +609,7 @@ type NewImportInfo = { key: string; path: string };
  */
 async function getFunctionIdentifiers(
 	{ edgeFunctions }: Pick<CollectedFunctions, 'edgeFunctions'>,
-	{ disableChunksDedup }: ProcessVercelFunctionsOpts,
+	{ disableChunksDedup, sourcemap }: ProcessVercelFunctionsOpts,
 ): Promise<CollectedFunctionIdentifiers> {
 	const entrypointsMap: Map<string, ProgramIdentifiers> = new Map();
 	const identifierMaps: Record<IdentifierType, IdentifiersMap> = {
@@ -559,9 +619,14 @@ async function getFunctionIdentifiers(
 	};
 
 	for (const [path, fnInfo] of edgeFunctions) {
-		const { entrypoint, contents } = await getFunctionFile(path, fnInfo);
+		// Note: the identifiers' positions need to match the contents processed afterwards
+		const { entrypoint, contents } = await getFunctionFile(
+			path,
+			fnInfo,
+			sourcemap,
+		);
 
-		const program = parse(contents, {
+		const program = parse(contents.toString(), {
 			ecmaVersion: 'latest',
 			sourceType: 'module',
 		}) as unknown as AST.ProgramKind;
@@ -586,6 +651,40 @@ export type CollectedFunctionIdentifiers = {
 	identifierMaps: Record<IdentifierType, IdentifiersMap>;
 };
 
+/**
+ * Gets the deduped files that a function imports (i.e. the files of the identifiers that are not
+ * inlined in the function's file), which are shared with the other functions importing them.
+ *
+ * @param path Path to the function's directory.
+ * @param fnInfo The collected function info.
+ * @param collectedFunctionIdentifiers Identifiers collected from the functions' files.
+ * @returns The paths of the files (relative to the `_worker.js` directory) for each identifier type.
+ */
+export function getFunctionSharedFiles(
+	path: string,
+	{ config }: FunctionInfo,
+	{ identifierMaps }: Pick<CollectedFunctionIdentifiers, 'identifierMaps'>,
+): Record<IdentifierType, string[]> {
+	const entrypoint = config?.entrypoint ? join(path, config.entrypoint) : null;
+
+	const getFiles = (type: IdentifierType) => [
+		...new Set(
+			[...identifierMaps[type].values()]
+				.filter(
+					({ consumers, newDest, inlined }) =>
+						entrypoint && newDest && !inlined && consumers.includes(entrypoint),
+				)
+				.map(({ newDest }) => newDest as string),
+		),
+	];
+
+	return {
+		webpack: getFiles('webpack'),
+		manifest: getFiles('manifest'),
+		wasm: getFiles('wasm'),
+	};
+}
+
 /**
  * Fixes the function contents in miscellaneous ways.
  *
@@ -594,8 +693,9 @@ export type CollectedFunctionIdentifiers = {
  * @param contents the original function's file contents
  * @returns the updated/fixed contents
  */
-function fixFunctionContents(contents: string): string {
-	contents = contents.replace(
+function fixFunctionContents<T extends FileContents>(contents: T): T {
+	contents = replaceMatches(
+		contents,
 		// TODO: This hack is not good. We should replace this with something less brittle ASAP
 		// https://github.com/vercel/next.js/blob/2e7dfca362931be99e34eccec36074ab4a46ffba/packages/next/src/server/web/adapter.ts#L276-L282
 		/(Object.defineProperty\(globalThis,\s*"__import_unsupported",\s*{[\s\S]*?configurable:\s*)([^,}]*)(.*}\s*\))/gm,
@@ -606,7 +706,8 @@ function fixFunctionContents(contents: string): string {
 	// The workers runtime does not implement certain properties like `mode` or `credentials`.
 	// Due to this, we need to replace them with null so that request deduping cache key generation will work.
 	// https://github.com/vercel/next.js/blob/canary/packages/next/src/compiled/react/cjs/react.shared-subset.development.js#L198
-	contents = contents.replace(
+	contents = replaceMatches(
+		contents,
 		/(?:(JSON\.stringify\(\[\w+\.method\S+,)\w+\.mode(,\S+,)\w+\.credentials(,\S+,)\w+\.integrity(\]\)))/gm,
 		'$1null$2null$3null$4',
 	);
@@ -614,7 +715,8 @@ function fixFunctionContents(contents: string): string {
 	// The workers runtime does not implement `cache` on RequestInit. This is used in Next.js' patched fetch.
 	// Due to this, we remove the `cache` property from those that Next.js adds to RequestInit.
 	// https://github.com/vercel/next.js/blob/269114b5cc583f0c91e687c1aeb61503ef681b91/packages/next/src/server/lib/patch-fetch.ts#L304
-	contents = contents.replace(
+	contents = replaceMatches(
+		contents,
 		/"cache",("credentials","headers","integrity","keepalive","method","mode","redirect","referrer")/gm,
 		'$1',
 	);
@@ -622,11 +724,13 @@ function fixFunctionContents(contents: string): string {
 	// TODO: Remove once https://github.com/vercel/next.js/issues/58265 is fixed.
 	// This resolves a critical issue in Next.js 14.0.2 that breaks edge runtime rendering due to the assumption
 	// that the the passed internal request is of type `NodeNextRequest` and never `WebNextRequest`.
-	contents = contents.replace(
+	contents = replaceMatches(
+		contents,
 		/;let{originalRequest:([\w$]+)}=([\w$]+)([,;])/gm,
 		';let{originalRequest:$1=$2}=$2$3',
 	);
-	contents = contents.replace(
+	contents = replaceMatches(
+		contents,
 		/const { originalRequest } = ([\w$]+)([,;])/gm,
 		'const { originalRequest = $1 } = $1$3',
 	);
@@ -637,18 +741,27 @@ function fixFunctionContents(contents: string): string {
 /**
  * Gets the function file contents and entrypoint.
  *
+ * When generating source maps, the contents are mapped to the function file (and to its original
+ * sources if it has a source map).
+ *
  * @param path Path to the function directory.
  * @param fnInfo The collected function info.
+ * @param sourcemap Whether source maps are generated.
  * @returns The function file contents and entrypoint.
  */
 async function getFunctionFile(
 	path: string,
 	fnInfo: FunctionInfo,
-): Promise<{ contents: string; entrypoint: string }> {
+	sourcemap = false,
+): Promise<{ contents: FileContents; entrypoint: string }> {
 	const entrypoint = join(path, fnInfo.config.entrypoint);
 
 	const fileContents = await readFile(entrypoint, 'utf8');
-	const fixedContents = fixFunctionContents(fileContents);
+	const fixedContents = fixFunctionContents<FileContents>(
+		sourcemap
+			? MappedString.fromSource(await readSourceFile(entrypoint, fileContents))
+			: fileContents,
+	);
 
 	return { contents: fixedContents, entrypoint };
 }
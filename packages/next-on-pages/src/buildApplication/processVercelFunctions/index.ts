@@ -5,6 +5,7 @@ import { processPrerenderFunctions } from './prerenderFunctions';
 import type { CollectedFunctionIdentifiers } from './dedupeEdgeFunctions';
 import { dedupeEdgeFunctions } from './dedupeEdgeFunctions';
 import { checkInvalidFunctions } from './invalidFunctions';
+import { buildNodejsFunctions } from './nodejsFunctions';
 
 /**
  * Processes and dedupes the Vercel build output functions directory.
@@ -27,6 +28,8 @@ export async function processVercelFunctions(
 
 	const identifiers = await dedupeEdgeFunctions(collectedFunctions, opts);
 
+	await buildNodejsFunctions(collectedFunctions, opts);
+
 	return { collectedFunctions, identifiers };
 }
 
@@ -35,7 +38,11 @@ export type ProcessVercelFunctionsOpts = {
 	outputDir: string;
 	workerJsDir: string;
 	nopDistDir: string;
+	templatesDir: string;
 	disableChunksDedup?: boolean;
+	experimentalNodejsFunctions?: boolean;
+	sourcemap?: boolean;
+	json?: boolean;
 	vercelConfig: VercelConfig;
 };
 
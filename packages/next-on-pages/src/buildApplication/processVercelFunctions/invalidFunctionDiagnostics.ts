@@ -0,0 +1,197 @@
+import { relative, resolve } from 'node:path';
+import type { FunctionInfo } from './configs';
+import { getFunctionEntrypoint } from './configs';
+import {
+	normalizePath,
+	readPathsRecursively,
+	stripFuncExtension,
+	validateFile,
+} from '../../utils';
+
+/**
+ * Reason why a function from the Vercel build output can't be used:
+ * - `missing-entrypoint`: the entrypoint file of the function was not generated
+ * - `nodejs-dependency`: the function depends on a package that only runs on Node.js
+ * - `dynamic-static-params`: the function renders the dynamic params not returned by `generateStaticParams`
+ * - `missing-edge-runtime`: the route is not configured to run with the Edge Runtime
+ */
+export type InvalidFunctionReason =
+	| 'missing-entrypoint'
+	| 'nodejs-dependency'
+	| 'dynamic-static-params'
+	| 'missing-edge-runtime';
+
+/**
+ * Diagnostic explaining why a function from the Vercel build output is invalid, and how to fix it.
+ */
+export type InvalidFunctionDiagnostic = {
+	/** The route handled by the function */
+	route: string;
+	/** Path of the function's directory, relative to the current working directory */
+	functionPath: string;
+	/** Path of the route's source file, relative to the current working directory (if found) */
+	sourceFile?: string;
+	reason: InvalidFunctionReason;
+	/** Explanation of the reason */
+	message: string;
+	/** Concrete fix for the reason */
+	fix: string;
+};
+
+type DiagnosticOpts = {
+	/** Example of the code exporting the edge runtime, depending on the Next.js version */
+	edgeRuntimeExample: string;
+};
+
+/**
+ * Gets the diagnostics of the invalid functions from the Vercel build output.
+ *
+ * Functions for the same route (i.e. RSC functions) are reported only once.
+ *
+ * @param invalidFunctions Invalid functions found in the Vercel build output.
+ * @param opts Options for the diagnostics.
+ * @returns The diagnostics, one for each invalid route.
+ */
+export async function getInvalidFunctionDiagnostics(
+	invalidFunctions: Map<string, FunctionInfo>,
+	opts: DiagnosticOpts,
+): Promise<InvalidFunctionDiagnostic[]> {
+	const sourceFiles = await collectRouteSourceFiles();
+	const diagnostics = new Map<string, InvalidFunctionDiagnostic>();
+
+	for (const [path, fnInfo] of invalidFunctions) {
+		const route = stripFuncExtension(fnInfo.relativePath).replace(/\.rsc$/, '');
+		if (diagnostics.has(route)) continue;
+
+		const sourceFile = sourceFiles.get(route.replace(/\/index$/, '') || '/');
+		const diagnostic = await diagnoseInvalidFunction(path, fnInfo, {
+			...opts,
+			sourceFile,
+		});
+
+		diagnostics.set(route, {
+			route,
+			functionPath: normalizePath(relative(resolve(), path)),
+			...(sourceFile && { sourceFile }),
+			...diagnostic,
+		});
+	}
+
+	return [...diagnostics.values()];
+}
+
+/**
+ * Works out the reason why a function is invalid.
+ *
+ * @param path Path to the function's directory.
+ * @param fnInfo The collected function info.
+ * @param opts Options for the diagnostic, with the route's source file (if found).
+ * @returns The reason, its explanation and the fix.
+ */
+async function diagnoseInvalidFunction(
+	path: string,
+	{ relativePath, config }: FunctionInfo,
+	{ edgeRuntimeExample, sourceFile }: DiagnosticOpts & { sourceFile?: string },
+): Promise<Pick<InvalidFunctionDiagnostic, 'reason' | 'message' | 'fix'>> {
+	const routeFile = sourceFile ? `\`${sourceFile}\`` : 'the route';
+
+	const entrypoint = getFunctionEntrypoint(path, config);
+	if (!entrypoint || !(await validateFile(entrypoint))) {
+		const entrypointName = config.handler ?? config.entrypoint;
+		return {
+			reason: 'missing-entrypoint',
+			message: `The function's entrypoint${
+				entrypointName ? ` (${entrypointName})` : ''
+			} was not generated by the Vercel build.`,
+			fix: 'Delete the `.vercel/output` directory and build the application again (without the `--skip-build` flag).',
+		};
+	}
+
+	const nodejsDependency = findNodejsDependency(config.filePathMap ?? {});
+	if (nodejsDependency) {
+		return {
+			reason: 'nodejs-dependency',
+			message: `The route depends on \`${nodejsDependency.name}\`, which uses a Node.js native addon (${nodejsDependency.file}) that can't run on the Edge Runtime.`,
+			fix: `Replace \`${nodejsDependency.name}\` in ${routeFile} with a package supporting the Edge Runtime, then add \`${edgeRuntimeExample}\` to it.`,
+		};
+	}
+
+	const isDynamicIsrRoute =
+		config.operationType?.toLowerCase() === 'isr' &&
+		/\/\[{1,2}(?:\.\.\.)?[\w-]+\]{1,2}/.test(relativePath);
+	if (isDynamicIsrRoute) {
+		return {
+			reason: 'dynamic-static-params',
+			message:
+				'The route uses `generateStaticParams` but also renders the dynamic params it does not return at request time, which requires the Node.js runtime.',
+			fix: `Add \`export const dynamicParams = false;\` to ${routeFile} so that only the prerendered params are served, or add \`${edgeRuntimeExample}\` to it.`,
+		};
+	}
+
+	return {
+		reason: 'missing-edge-runtime',
+		message: 'The route is not configured to run with the Edge Runtime.',
+		fix: `Add \`${edgeRuntimeExample}\` to ${routeFile}.`,
+	};
+}
+
+/**
+ * Finds a dependency with a Node.js native addon (`.node` file) in a function's file path map.
+ *
+ * @param filePathMap The function's file path map.
+ * @returns The name of the dependency and the path of the addon, or null if there is none.
+ */
+function findNodejsDependency(
+	filePathMap: Record<string, string>,
+): { name: string; file: string } | null {
+	for (const file of Object.keys(filePathMap)) {
+		const match = /(?:^|\/)node_modules\/((?:@[^/]+\/)?[^/]+)\/.*\.node$/.exec(
+			normalizePath(file),
+		);
+		if (match?.[1]) {
+			return { name: match[1], file };
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Collects the source files of the application's routes, in the App and Pages routers.
+ *
+ * Route groups and parallel routes are not part of the route of App router files.
+ *
+ * @returns Map of the routes (e.g. `/blog/[slug]`) to their source files.
+ */
+async function collectRouteSourceFiles(): Promise<Map<string, string>> {
+	const sourceFiles = new Map<string, string>();
+	const currentDir = resolve();
+
+	for (const srcDir of ['', 'src']) {
+		const appDir = resolve(srcDir, 'app');
+		for (const file of await readPathsRecursively(appDir)) {
+			const match = /^(?:(.*)\/)?(?:page|route)\.(?:[jt]sx?|mdx)$/.exec(
+				normalizePath(relative(appDir, file)),
+			);
+			if (!match) continue;
+
+			const route =
+				`/${match[1] ?? ''}`.replace(/\/(?:\([^/]+\)|@[^/]+)(?=\/|$)/g, '') ||
+				'/';
+			sourceFiles.set(route, normalizePath(relative(currentDir, file)));
+		}
+
+		const pagesDir = resolve(srcDir, 'pages');
+		for (const file of await readPathsRecursively(pagesDir)) {
+			const match = /^(.*)\.(?:[jt]sx?|mdx)$/.exec(
+				normalizePath(relative(pagesDir, file)),
+			);
+			if (!match?.[1]) continue;
+
+			const route = `/${match[1]}`.replace(/\/index$/, '') || '/';
+			sourceFiles.set(route, normalizePath(relative(currentDir, file)));
+		}
+	}
+
+	return sourceFiles;
+}
@@ -10,10 +10,12 @@ import type { CollectedFunctions, FunctionInfo } from './configs';
 import { join } from 'path';
 import type { ProcessVercelFunctionsOpts } from '.';
 import { isUsingAppRouter, isUsingPagesRouter } from '../getVercelConfig';
+import { collectNodejsFunctions } from './nodejsFunctions';
+import { getInvalidFunctionDiagnostics } from './invalidFunctionDiagnostics';
 
 type InvalidFunctionsOpts = Pick<
 	ProcessVercelFunctionsOpts,
-	'functionsDir' | 'vercelConfig'
+	'functionsDir' | 'vercelConfig' | 'experimentalNodejsFunctions' | 'json'
 >;
 
 /**
@@ -46,9 +48,14 @@ export async function checkInvalidFunctions(
 	await tryToFixInvalidFuncsWithValidIndexAlternative(collectedFunctions);
 	await tryToFixInvalidDynamicISRFuncs(collectedFunctions);
 
+	if (opts.experimentalNodejsFunctions) {
+		await collectNodejsFunctions(collectedFunctions);
+	}
+
 	if (collectedFunctions.invalidFunctions.size > 0) {
 		await printInvalidFunctionsErrorMessage(
 			collectedFunctions.invalidFunctions,
+			opts,
 		);
 		process.exit(1);
 	}
@@ -232,43 +239,48 @@ async function tryToFixI18nFunctions(
 /**
  * Prints an error message for the invalid functions from the Vercel build output.
  *
+ * The message explains why each route is invalid, with its source file and a concrete fix. When
+ * requested, the diagnostics are also printed as JSON (e.g. to create CI annotations from them).
+ *
  * @param invalidFunctions Invalid functions found in the Vercel build output.
+ * @param opts Options for printing the diagnostics.
  */
 async function printInvalidFunctionsErrorMessage(
 	invalidFunctions: Map<string, FunctionInfo>,
+	{ json }: Pick<InvalidFunctionsOpts, 'json'>,
 ): Promise<void> {
 	const pm = await getPackageManager();
 	const nextVersion = pm ? await getPackageVersionOrNull(pm, 'next') : null;
 
-	const { exportText, exampleCode } =
+	const edgeRuntimeExample =
 		!nextVersion || versionGreaterThan(nextVersion, '13.1.2')
-			? {
-					exportText: 'the following edge runtime route segment config',
-					exampleCode: "export const runtime = 'edge';",
-			  }
-			: {
-					exportText: 'a config object specifying the edge runtime, like',
-					exampleCode: "export const config = { runtime: 'edge' };",
-			  };
-
-	const invalidRoutes = [
-		...new Set(
-			[...invalidFunctions.values()].map(fn =>
-				stripFuncExtension(fn.relativePath).replace(/\.rsc$/, ''),
-			),
-		),
-	];
+			? "export const runtime = 'edge';"
+			: "export const config = { runtime: 'edge' };";
+
+	const diagnostics = await getInvalidFunctionDiagnostics(invalidFunctions, {
+		edgeRuntimeExample,
+	});
+
+	if (json) {
+		// eslint-disable-next-line no-console
+		console.log(JSON.stringify({ invalidFunctions: diagnostics }));
+	}
+
+	const formattedDiagnostics = diagnostics
+		.map(({ route, sourceFile, message, fix }) =>
+			[
+				`			  - ${route}${sourceFile ? ` (${sourceFile})` : ''}`,
+				`			      ${message}`,
+				`			      Fix: ${fix}`,
+			].join('\n'),
+		)
+		.join('\n\n');
 
 	cliError(
 		`
 		ERROR: Failed to produce a Khulnasoft Pages build from the project.
 
-			The following routes were not configured to run with the Edge Runtime:\n${invalidRoutes
-				.map(route => `			  - ${route}`)
-				.join('\n')}
-
-			Please make sure that all your non-static routes export ${exportText}:
-			  ${exampleCode}
+			The following routes could not be built for the Edge Runtime:\n\n${formattedDiagnostics}
 
 			You can read more about the Edge Runtime on the Next.js documentation:
 			  https://nextjs.org/docs/app/building-your-application/rendering/edge-and-nodejs-runtimes
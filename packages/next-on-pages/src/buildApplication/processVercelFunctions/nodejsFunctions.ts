@@ -0,0 +1,200 @@
+import type { Plugin } from 'esbuild';
+import { build } from 'esbuild';
+import { mkdir, stat } from 'node:fs/promises';
+import { builtinModules } from 'node:module';
+import { dirname, join, relative, resolve } from 'node:path';
+import type { ProcessVercelFunctionsOpts } from '.';
+import type { CollectedFunctions } from './configs';
+import { getFunctionEntrypoint } from './configs';
+import { builtInModulesPlugin } from './build';
+import {
+	formatRoutePath,
+	getRouteOverrides,
+	normalizePath,
+	validateFile,
+} from '../../utils';
+
+/**
+ * Collects the Node.js serverless functions that can be bundled for the workers runtime.
+ *
+ * The Node.js functions left in the invalid functions (i.e. the ones that could not be fixed or
+ * ignored) are moved to the Node.js functions map when their entrypoint exists.
+ *
+ * RSC functions with a non-RSC Node.js function are ignored, the latter handles the RSC route
+ * instead (as for edge functions, RSC functions are identical to non-RSC functions).
+ *
+ * @param collectedFunctions Collected functions from the Vercel build output.
+ */
+export async function collectNodejsFunctions({
+	nodejsFunctions,
+	invalidFunctions,
+	ignoredFunctions,
+}: CollectedFunctions): Promise<void> {
+	for (const [path, fnInfo] of invalidFunctions) {
+		if (!fnInfo.config.runtime?.toLowerCase().startsWith('nodejs')) continue;
+
+		const entrypoint = getFunctionEntrypoint(path, fnInfo.config);
+		if (!entrypoint || !(await validateFile(entrypoint))) continue;
+
+		const formattedPathName = formatRoutePath(fnInfo.relativePath);
+		const overrides = getRouteOverrides(formattedPathName);
+
+		nodejsFunctions.set(path, {
+			...fnInfo,
+			route: { path: formattedPathName, overrides },
+		});
+		invalidFunctions.delete(path);
+	}
+
+	const routePaths = new Map(
+		[...nodejsFunctions].map(([path, { route }]) => [route?.path, path]),
+	);
+
+	for (const [path, fnInfo] of nodejsFunctions) {
+		const rscRoutePath = fnInfo.route?.path;
+		if (!rscRoutePath?.endsWith('.rsc')) continue;
+
+		const nonRscPath = routePaths.get(rscRoutePath.replace(/\.rsc$/, ''));
+		const nonRscRoute = nonRscPath && nodejsFunctions.get(nonRscPath)?.route;
+
+		if (nonRscRoute) {
+			nonRscRoute.overrides = [...(nonRscRoute.overrides ?? []), rscRoutePath];
+
+			nodejsFunctions.delete(path);
+			ignoredFunctions.set(path, {
+				reason: 'unnecessary rsc function',
+				...fnInfo,
+			});
+		}
+	}
+}
+
+/**
+ * Bundles the Node.js serverless functions for the workers runtime (with the `nodejs_compat` flag).
+ *
+ * Each function's `(req, res)` handler is wrapped in an adapter exposing it as a fetch handler, so
+ * that the bundled function can be run like an edge function.
+ *
+ * @param collectedFunctions Collected functions from the Vercel build output.
+ * @param opts Options for processing Vercel functions.
+ */
+export async function buildNodejsFunctions(
+	{ nodejsFunctions }: Pick<CollectedFunctions, 'nodejsFunctions'>,
+	{
+		workerJsDir,
+		nopDistDir,
+		templatesDir,
+		sourcemap,
+	}: ProcessVercelFunctionsOpts,
+): Promise<void> {
+	const adapterPath = normalizePath(join(templatesDir, 'nodejs', 'adapter'));
+
+	await Promise.all(
+		[...nodejsFunctions].map(async ([path, fnInfo]) => {
+			const entrypoint = normalizePath(
+				// The entrypoint has been validated when collecting the function.
+				// eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+				getFunctionEntrypoint(path, fnInfo.config)!,
+			);
+			const newFnPath = join(
+				nopDistDir,
+				'functions',
+				`${fnInfo.relativePath}.js`,
+			);
+
+			await mkdir(dirname(newFnPath), { recursive: true });
+			await build({
+				stdin: {
+					contents: `
+						import handler from '${entrypoint}';
+						import { adaptNodejsHandler } from '${adapterPath}';
+						export default adaptNodejsHandler(handler);
+					`,
+					resolveDir: path,
+				},
+				target: 'es2022',
+				platform: 'node',
+				format: 'esm',
+				outfile: newFnPath,
+				bundle: true,
+				external: ['node:*', '*.wasm', 'khulnasoft:*'],
+				minify: true,
+				sourcemap,
+				plugins: [
+					filePathMapPlugin(path, fnInfo.config.filePathMap ?? {}),
+					nodeBuiltInModulesPlugin,
+					builtInModulesPlugin,
+				],
+			});
+
+			fnInfo.outputPath = relative(workerJsDir, newFnPath);
+			fnInfo.outputByteSize = (await stat(newFnPath)).size;
+		}),
+	);
+}
+
+/**
+ * Resolves the relative imports of files in a function's directory that the build output maps
+ * to their original location with the function's `filePathMap`.
+ *
+ * @param functionPath Path to the function's directory.
+ * @param filePathMap The function's file path map.
+ * @returns The esbuild plugin.
+ */
+function filePathMapPlugin(
+	functionPath: string,
+	filePathMap: Record<string, string>,
+): Plugin {
+	return {
+		name: 'file-path-map',
+		setup(build) {
+			build.onResolve({ filter: /^\.\.?\// }, ({ path, resolveDir }) => {
+				const file = normalizePath(
+					relative(functionPath, join(resolveDir, path)),
+				);
+				if (file.startsWith('..')) return undefined;
+
+				const mappedFile = ['', '.js', '.cjs', '.mjs', '.json', '/index.js']
+					.map(ext => filePathMap[`${file}${ext}`])
+					.find(Boolean);
+
+				return mappedFile ? { path: resolve(mappedFile) } : undefined;
+			});
+		},
+	};
+}
+
+const nodeBuiltInModulesFilter = new RegExp(
+	`^(?:node:)?(${builtinModules.join('|')})(?:/.*)?$`,
+);
+
+/**
+ * Node.js serverless functions import the built-in modules without the `node:` prefix, which the
+ * workers runtime requires, and generally `require` them.
+ *
+ * The following prefixes the built-in modules imports, and converts `require("<MODULE>")` calls to
+ * modules exporting the default export of the built-in module, since that's what CommonJS code
+ * expects (e.g. `const EventEmitter = require("events")`).
+ */
+const nodeBuiltInModulesPlugin: Plugin = {
+	name: 'node-built-in:modules',
+	setup(build) {
+		build.onResolve({ filter: nodeBuiltInModulesFilter }, ({ kind, path }) => {
+			const prefixedPath = `node:${path.replace(/^node:/, '')}`;
+
+			return kind === 'require-call'
+				? { path: prefixedPath, namespace: 'node-built-in-modules' }
+				: { path: prefixedPath, external: true };
+		});
+
+		build.onLoad(
+			{ filter: /.*/, namespace: 'node-built-in-modules' },
+			({ path }) => {
+				return {
+					contents: `import mod from '${path}'; module.exports = mod;`,
+					loader: 'js',
+				};
+			},
+		);
+	},
+};
@@ -1,21 +1,24 @@
 import { dirname, join } from 'node:path';
 import type { ProcessVercelFunctionsOpts } from '.';
-import type { CollectedFunctions } from './configs';
+import type { CollectedFunctions, FunctionInfo } from './configs';
+import { getFunctionEntrypoint } from './configs';
 import {
 	addLeadingSlash,
 	copyFileWithDir,
+	formatRoutePath,
 	getFileHash,
 	getRouteOverrides,
 	normalizePath,
 	readJsonFile,
 	stripFuncExtension,
+	stripIndexRoute,
 	validateFile,
 } from '../../utils';
 import { cliWarn } from '../../cli';
 
 type PrerenderFunctionsOpts = Pick<
 	ProcessVercelFunctionsOpts,
-	'functionsDir' | 'outputDir'
+	'functionsDir' | 'outputDir' | 'experimentalNodejsFunctions'
 >;
 
 /**
@@ -24,15 +27,18 @@ type PrerenderFunctionsOpts = Pick<
  * - Copies the prerendered assets to the output directory.
  * - Creates overrides for the prerendered routes.
  * - Collects the correct headers for the prerendered assets.
+ * - Keeps the edge (or Node.js) functions of ISR routes so that they can be regenerated.
  * - Updates the collected functions with the processed route's information.
  *
  * @param collectedFunctions Collected functions from the Vercel build output.
  * @param opts Options for processing Vercel functions.
  */
 export async function processPrerenderFunctions(
-	{ invalidFunctions, prerenderedFunctions }: CollectedFunctions,
+	collectedFunctions: CollectedFunctions,
 	opts: PrerenderFunctionsOpts,
 ): Promise<void> {
+	const { invalidFunctions, prerenderedFunctions } = collectedFunctions;
+
 	for (const [path, fnInfo] of prerenderedFunctions) {
 		const routeInfo = await validateRoute(path, fnInfo.relativePath, opts);
 
@@ -41,10 +47,30 @@ export async function processPrerenderFunctions(
 
 			await copyAssetFile({ ...routeInfo, relativeName: destRoute });
 
+			const isIsr = isIsrRoute(fnInfo, config);
+			const isrFunctions = isIsr
+				? await getIsrFunctions(path, fnInfo, collectedFunctions, opts)
+				: null;
+			const expiration = isIsr && isrFunctions ? config.expiration : undefined;
+			if (isrFunctions) {
+				// The function is processed alongside the other edge (or Node.js) functions, and used to regenerate the route.
+				const formattedPathName = formatRoutePath(fnInfo.relativePath);
+				isrFunctions.set(path, {
+					relativePath: fnInfo.relativePath,
+					config: fnInfo.config,
+					route: {
+						path: formattedPathName,
+						overrides: getRouteOverrides(formattedPathName),
+					},
+				});
+			}
+
 			fnInfo.route = {
 				path: destRoute,
 				headers: config.initialHeaders,
 				overrides: getRouteOverrides(destRoute),
+				expiration,
+				...(isIsr && !expiration && { staticIsr: true }),
 			};
 			fnInfo.sourcePath = config.sourcePath;
 		} else {
@@ -85,6 +111,86 @@ type ValidatedRouteInfo = {
 	destRoute: string;
 };
 
+/**
+ * Checks whether a prerendered route is an ISR route, i.e. a route that needs to be regenerated
+ * after some time.
+ *
+ * @param fnInfo Information about the prerendered function.
+ * @param config Prerender config for the route.
+ * @returns Whether the route is an ISR route.
+ */
+function isIsrRoute(
+	{ config: fnConfig }: FunctionInfo,
+	config: VercelPrerenderConfig,
+): config is VercelPrerenderConfig & { expiration: number } {
+	return (
+		fnConfig.operationType?.toLowerCase() === 'isr' &&
+		typeof config.expiration === 'number' &&
+		config.expiration > 0
+	);
+}
+
+/**
+ * Gets the collected functions in which to keep the function of an ISR route, to regenerate it.
+ *
+ * Routes with an edge function are regenerated with it, and routes with a Node.js function (i.e.
+ * the routes of ordinary Next.js ISR pages) with their bundled function when the Node.js functions
+ * are enabled. Other routes are only served from their prerendered fallback file, which is reported
+ * with a build warning.
+ *
+ * @param fullPath Full path to the prerendered function's directory.
+ * @param fnInfo Information about the prerendered function.
+ * @param collectedFunctions Collected functions from the Vercel build output.
+ * @param opts Options for processing Vercel functions.
+ * @returns The edge or Node.js functions, or null if the route can't be regenerated.
+ */
+async function getIsrFunctions(
+	fullPath: string,
+	{ relativePath, config: fnConfig }: FunctionInfo,
+	{ edgeFunctions, nodejsFunctions }: CollectedFunctions,
+	{ experimentalNodejsFunctions }: PrerenderFunctionsOpts,
+): Promise<Map<string, FunctionInfo> | null> {
+	const runtime = fnConfig.runtime?.toLowerCase();
+	const isNodejs = !!runtime?.startsWith('nodejs');
+
+	if (runtime === 'edge' || (isNodejs && experimentalNodejsFunctions)) {
+		const entrypoint = getFunctionEntrypoint(fullPath, fnConfig);
+		if (entrypoint && (await validateFile(entrypoint))) {
+			return isNodejs ? nodejsFunctions : edgeFunctions;
+		}
+	}
+
+	const routePath = formatRoutePath(relativePath);
+	// Pages have an RSC route with its own prerender function, one warning per page is enough.
+	if (!routePath.endsWith('.rsc')) {
+		cliWarn(
+			`The ISR route ${routePath} can't be regenerated as its prerender function is not an edge function, it is only served from its prerendered file (even when revalidated with \`revalidatePath\`).${
+				isNodejs && !experimentalNodejsFunctions
+					? ' Set the `--experimental-nodejs-functions` flag to regenerate it with its Node.js function.'
+					: ''
+			}`,
+		);
+	}
+
+	return null;
+}
+
+/**
+ * Gets the pathnames of the ISR routes that can't be regenerated, which the worker warns about when
+ * they are revalidated.
+ *
+ * @param prerenderedFunctions The processed prerendered functions.
+ * @returns The pathnames of the routes (without their RSC routes).
+ */
+export function getStaticIsrRoutes(
+	prerenderedFunctions: Map<string, FunctionInfo> = new Map(),
+): string[] {
+	return [...prerenderedFunctions.values()]
+		.filter(({ route }) => route?.staticIsr)
+		.map(({ relativePath }) => stripIndexRoute(formatRoutePath(relativePath)))
+		.filter(path => !path.endsWith('.rsc'));
+}
+
 /**
  * Retrieves a valid prerendered route config.
  *
@@ -0,0 +1,409 @@
+import remapping from '@ampproject/remapping';
+import type { DecodedSourceMap } from '@ampproject/remapping';
+import MagicString, { Bundle } from 'magic-string';
+import { readFile, writeFile } from 'node:fs/promises';
+import { dirname, relative, resolve } from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { normalizePath, replaceLastSubstringInstance } from '../../utils';
+
+/**
+ * A string made of parts of source files (and of generated code), which keeps track of where its
+ * parts come from so that a source map can be generated for it.
+ *
+ * The operations mirror the string ones used to transform the functions' code, so that the code
+ * transformed with them can be mapped back to the original files. Each operation edits a
+ * `MagicString` when it can, and otherwise starts a new one from the current string, the source
+ * map of each `MagicString` being chained with `@ampproject/remapping` when generating the source
+ * map of the mapped string.
+ */
+export class MappedString {
+	private cachedString: string | null = null;
+
+	/**
+	 * @param magicString The edited string.
+	 * @param filename Identifies the original string of the edited string in the source maps (the
+	 * `file://` url of a source file, or a `mapped-string://` url for a generated string).
+	 * @param sourceMaps Loaders of the source maps of the original strings, mapping them to their own
+	 * original strings (the source files have no source map, or their own source maps).
+	 * @param editableEnd Index up to which the original string has not been edited (or -1 if it has
+	 * been sliced), before which the indices of the string are the indices of the original string.
+	 * Null if the string has not been edited at all.
+	 */
+	private constructor(
+		private readonly magicString: MagicString,
+		private readonly filename: string,
+		private readonly sourceMaps: SourceMapLoaders,
+		private readonly editableEnd: number | null,
+	) {}
+
+	/**
+	 * Creates a mapped string from the contents of a source file.
+	 *
+	 * @param source The source file.
+	 * @returns The mapped string.
+	 */
+	static fromSource(source: SourceFile): MappedString {
+		// Note: urls are used as the sources of the source maps are resolved relatively to them
+		const filename = pathToFileURL(source.path).href;
+
+		return new MappedString(
+			new MagicString(source.contents),
+			filename,
+			new Map([[filename, () => source.sourceMap ?? null]]),
+			null,
+		);
+	}
+
+	/**
+	 * Concatenates strings (generated code, that is not mapped) and mapped strings.
+	 *
+	 * @param parts The parts to concatenate.
+	 * @returns The mapped string.
+	 */
+	static concat(parts: (string | MappedString)[]): MappedString {
+		const bundle = new Bundle({ separator: '' });
+		const sourceMaps: SourceMapLoaders = new Map();
+
+		for (const part of parts) {
+			if (typeof part === 'string') {
+				bundle.addSource(new MagicString(part));
+				continue;
+			}
+
+			bundle.addSource({ filename: part.filename, content: part.magicString });
+			part.sourceMaps.forEach((loader, file) => sourceMaps.set(file, loader));
+		}
+
+		return MappedString.fromEdits(bundle.toString(), sourceMaps, () =>
+			bundle.generateDecodedMap({ hires: 'boundary', includeContent: true }),
+		);
+	}
+
+	/**
+	 * Creates a mapped string from a string generated by editing other strings.
+	 *
+	 * @param contents The generated string.
+	 * @param sourceMaps Loaders of the source maps of the edited strings' original strings.
+	 * @param generateSourceMap Generates the source map of the edits.
+	 * @returns The mapped string.
+	 */
+	private static fromEdits(
+		contents: string,
+		sourceMaps: SourceMapLoaders,
+		generateSourceMap: () => Omit<DecodedSourceMap, 'version'>,
+	): MappedString {
+		const filename = `mapped-string:///${nextEditsId++}`;
+
+		let sourceMap: DecodedSourceMap | null = null;
+		const loadSourceMap = () => {
+			sourceMap ??= { ...generateSourceMap(), version: 3 };
+			return sourceMap;
+		};
+
+		return new MappedString(
+			new MagicString(contents),
+			filename,
+			new Map([...sourceMaps, [filename, loadSourceMap]]),
+			null,
+		);
+	}
+
+	/**
+	 * Gets a mapped string with the edits of this one applied, so that it can be edited anywhere.
+	 *
+	 * @returns The mapped string.
+	 */
+	private flatten(): MappedString {
+		if (this.editableEnd === null) return this;
+
+		return MappedString.fromEdits(this.toString(), this.sourceMaps, () =>
+			this.generateSourceMap(),
+		);
+	}
+
+	/**
+	 * Generates the source map of the edits made to the original string.
+	 *
+	 * @returns The decoded source map.
+	 */
+	private generateSourceMap(): DecodedSourceMap {
+		return {
+			...this.magicString.generateDecodedMap({
+				hires: 'boundary',
+				includeContent: true,
+			}),
+			sources: [this.filename],
+			version: 3,
+		};
+	}
+
+	get length(): number {
+		return this.toString().length;
+	}
+
+	toString(): string {
+		this.cachedString ??= this.magicString.toString();
+		return this.cachedString;
+	}
+
+	/**
+	 * Extracts a section of the mapped string, like `String.prototype.slice`.
+	 *
+	 * @param start Index of the start of the section.
+	 * @param end Index of the end of the section (exclusive).
+	 * @returns The section of the mapped string.
+	 */
+	slice(start: number, end = this.length): MappedString {
+		if (this.editableEnd !== null && end > this.editableEnd) {
+			return this.flatten().slice(start, end);
+		}
+
+		return new MappedString(
+			this.magicString.snip(start, end),
+			this.filename,
+			this.sourceMaps,
+			-1,
+		);
+	}
+
+	/**
+	 * Replaces the matches of a pattern, like `String.prototype.replace` with a replacement string.
+	 *
+	 * Note: the matches are replaced as a whole, the matched groups referenced in the replacement are
+	 * not mapped on their own.
+	 *
+	 * @param pattern The pattern to match (all its matches are replaced if it is global).
+	 * @param replacement The replacement, which can reference the matched groups (`$1`, `$&`...).
+	 * @returns The updated mapped string.
+	 */
+	replace(pattern: RegExp, replacement: string): MappedString {
+		const firstMatchIndex = this.toString().search(pattern);
+		if (firstMatchIndex === -1) return this;
+
+		const { magicString, filename, sourceMaps } = this.flatten();
+		return new MappedString(
+			magicString.clone().replace(pattern, replacement),
+			filename,
+			sourceMaps,
+			firstMatchIndex,
+		);
+	}
+
+	/**
+	 * Replaces the last instance of a substring, like `replaceLastSubstringInstance`.
+	 *
+	 * Note: consecutive replacements of earlier instances (from the end of the string to its start)
+	 * are made on the same original string.
+	 *
+	 * @param target The substring to replace.
+	 * @param value The value to replace the substring with.
+	 * @returns The updated mapped string.
+	 */
+	replaceLast(target: string, value: string): MappedString {
+		const lastIndex = this.toString().lastIndexOf(target);
+		if (lastIndex === -1) return this;
+
+		const end = lastIndex + target.length;
+		if (this.editableEnd !== null && end > this.editableEnd) {
+			return this.flatten().replaceLast(target, value);
+		}
+
+		const magicString = this.magicString.clone();
+		if (value) {
+			magicString.overwrite(lastIndex, end, value);
+		} else {
+			magicString.remove(lastIndex, end);
+		}
+
+		return new MappedString(
+			magicString,
+			this.filename,
+			this.sourceMaps,
+			lastIndex,
+		);
+	}
+
+	/**
+	 * Generates a source map mapping the mapped string back to its source files, or to the original
+	 * sources of the source files that have a source map themselves.
+	 *
+	 * @param outputDir Directory of the file the source map is for, which the sources are relative to.
+	 * @returns The source map.
+	 */
+	toSourceMap(outputDir: string): SourceMap {
+		const { sources, sourcesContent, names, mappings } = remapping(
+			this.generateSourceMap(),
+			file => this.sourceMaps.get(file)?.() ?? null,
+		);
+
+		return {
+			version: 3,
+			sources: sources.map(source => getSourcePath(source ?? '', outputDir)),
+			sourcesContent: sourcesContent ?? [],
+			names,
+			// Note: the mappings are encoded, as decoded mappings have not been requested
+			mappings: mappings as string,
+		};
+	}
+}
+
+/**
+ * Replaces the last instance of a substring in file contents that are either a string, or a mapped
+ * string when generating source maps.
+ *
+ * @param contents The file contents.
+ * @param target The substring to replace.
+ * @param value The value to replace the substring with.
+ * @returns The updated contents.
+ */
+export function replaceLastInstance<T extends FileContents>(
+	contents: T,
+	target: string,
+	value: string,
+): T {
+	return (
+		typeof contents === 'string'
+			? replaceLastSubstringInstance(contents, target, value)
+			: contents.replaceLast(target, value)
+	) as T;
+}
+
+/**
+ * Replaces the matches of a pattern in file contents that are either a string, or a mapped string
+ * when generating source maps.
+ *
+ * @param contents The file contents.
+ * @param pattern The pattern to match.
+ * @param replacement The replacement.
+ * @returns The updated contents.
+ */
+export function replaceMatches<T extends FileContents>(
+	contents: T,
+	pattern: RegExp,
+	replacement: string,
+): T {
+	// Note: both strings and mapped strings have a `replace(pattern, replacement)` method
+	const replaceable: {
+		replace(pattern: RegExp, replacement: string): FileContents;
+	} = contents;
+	return replaceable.replace(pattern, replacement) as T;
+}
+
+/**
+ * Concatenates strings and mapped strings, into a string if all the parts are strings.
+ *
+ * @param parts The parts to concatenate.
+ * @returns The concatenated contents.
+ */
+export function concatContents(parts: FileContents[]): FileContents {
+	return parts.every((part): part is string => typeof part === 'string')
+		? parts.join('')
+		: MappedString.concat(parts);
+}
+
+/** Contents of a file being transformed, mapped to their sources when generating source maps */
+export type FileContents = string | MappedString;
+
+/** Loaders of the source maps of strings, by the `filename` identifying the strings */
+type SourceMapLoaders = Map<string, () => SourceMap | DecodedSourceMap | null>;
+
+let nextEditsId = 0;
+
+export type SourceFile = {
+	path: string;
+	contents: string;
+	/** The source map of the file, mapping it to its own original sources (if any) */
+	sourceMap?: SourceMap | null;
+};
+
+export type SourceMap = {
+	version: 3;
+	sources: string[];
+	sourcesContent?: (string | null)[];
+	sourceRoot?: string;
+	names: string[];
+	mappings: string;
+};
+
+/**
+ * Gets the path of a source, relative to the directory of the generated file.
+ *
+ * @param url Url of the source (e.g. `file://...` or `webpack://...`).
+ * @param outputDir Directory of the generated file.
+ * @returns The path of the source for the source map.
+ */
+function getSourcePath(url: string, outputDir: string): string {
+	return url.startsWith('file://')
+		? normalizePath(relative(outputDir, fileURLToPath(url)))
+		: url;
+}
+
+const sourceMappingUrlRegex = /^\/\/# sourceMappingURL=(\S+)[ \t]*$/gm;
+
+/**
+ * Reads a source file, along with the source map referenced by its `sourceMappingURL` comment
+ * (which is removed from its contents).
+ *
+ * @param path Path to the source file.
+ * @param contents Contents of the source file.
+ * @returns The source file.
+ */
+export async function readSourceFile(
+	path: string,
+	contents: string,
+): Promise<SourceFile> {
+	const sourceMappingUrl = [
+		...contents.matchAll(sourceMappingUrlRegex),
+	].pop()?.[1];
+
+	let sourceMap: SourceMap | null = null;
+	if (sourceMappingUrl) {
+		try {
+			const dataUrl =
+				/^data:application\/json;(?:charset=utf-8;)?base64,(.*)$/.exec(
+					sourceMappingUrl,
+				);
+			sourceMap = JSON.parse(
+				dataUrl?.[1]
+					? Buffer.from(dataUrl[1], 'base64').toString('utf8')
+					: await readFile(resolve(dirname(path), sourceMappingUrl), 'utf8'),
+			) as SourceMap;
+		} catch {
+			sourceMap = null;
+		}
+	}
+
+	return {
+		path,
+		contents: contents.replace(sourceMappingUrlRegex, ''),
+		sourceMap,
+	};
+}
+
+/**
+ * Gets a `sourceMappingURL` comment inlining a source map.
+ *
+ * @param sourceMap The source map.
+ * @returns The comment.
+ */
+export function getInlineSourceMapComment(sourceMap: SourceMap): string {
+	return `\n//# sourceMappingURL=data:application/json;base64,${Buffer.from(
+		JSON.stringify(sourceMap),
+	).toString('base64')}`;
+}
+
+/**
+ * Shifts the mappings of a source map file by a number of lines, for when lines are prepended to
+ * the generated file after it has been built.
+ *
+ * @param path Path to the source map file.
+ * @param lineCount Number of lines prepended to the generated file.
+ */
+export async function prependLinesToSourceMap(
+	path: string,
+	lineCount: number,
+): Promise<void> {
+	const sourceMap = JSON.parse(await readFile(path, 'utf8')) as SourceMap;
+	sourceMap.mappings = `${';'.repeat(lineCount)}${sourceMap.mappings}`;
+	await writeFile(path, JSON.stringify(sourceMap));
+}
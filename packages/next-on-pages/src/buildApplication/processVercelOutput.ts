@@ -2,6 +2,7 @@ import { dirname, join, relative, resolve } from 'path';
 import { copyFile, mkdir, rm } from 'fs/promises';
 import {
 	addLeadingSlash,
+	formatRoutePath,
 	normalizePath,
 	readPathsRecursively,
 	stripFuncExtension,
@@ -114,6 +115,7 @@ export type ProcessedVercelOutput = {
  * @param staticAssets List of static asset paths from the file system.
  * @param prerenderedRoutes Map of prerendered files from the file system.
  * @param edgeFunctions Map of edge functions from the file system.
+ * @param nodejsFunctions Map of bundled Node.js functions from the file system.
  * @returns Processed Vercel build output map.
  */
 export function processVercelOutput(
@@ -121,6 +123,7 @@ export function processVercelOutput(
 	staticAssets: string[],
 	prerenderedRoutes = new Map<string, FunctionInfo>(),
 	edgeFunctions = new Map<string, FunctionInfo>(),
+	nodejsFunctions = new Map<string, FunctionInfo>(),
 ): ProcessedVercelOutput {
 	const processedConfig = processVercelConfig(config);
 
@@ -128,19 +131,21 @@ export function processVercelOutput(
 		staticAssets.map(path => [path, { type: 'static' }]),
 	);
 
-	edgeFunctions.forEach(({ relativePath, outputPath, route }) => {
-		processedOutput.set(route?.path ?? stripFuncExtension(relativePath), {
-			type: 'function',
-			entrypoint: outputPath as string,
-		});
-
-		route?.overrides?.forEach(overridenPath => {
-			processedOutput.set(overridenPath, {
+	[...edgeFunctions.values(), ...nodejsFunctions.values()].forEach(
+		({ relativePath, outputPath, route }) => {
+			processedOutput.set(route?.path ?? stripFuncExtension(relativePath), {
 				type: 'function',
 				entrypoint: outputPath as string,
 			});
-		});
-	});
+
+			route?.overrides?.forEach(overridenPath => {
+				processedOutput.set(overridenPath, {
+					type: 'function',
+					entrypoint: outputPath as string,
+				});
+			});
+		},
+	);
 
 	// Apply the overrides from the build output config to the processed output map.
 	applyVercelOverrides(processedConfig, processedOutput);
@@ -259,6 +264,9 @@ function applyVercelOverrides(
 /**
  * Apply the prerendered routes and their overrides to the processed output map.
  *
+ * ISR routes are linked to the edge function used to regenerate them, which needs to already be in
+ * the output map.
+ *
  * @param prerenderedRoutes Prererendered routes to apply to the output map.
  * @param vercelOutput Map of path names to build output items.
  */
@@ -266,13 +274,30 @@ function applyPrerenderedRoutes(
 	prerenderedRoutes: Map<string, FunctionInfo>,
 	vercelOutput: Map<string, BuildOutputItem>,
 ): void {
-	prerenderedRoutes.forEach(({ relativePath, route }) => {
+	// Collect the ISR configs first, as the prerendered routes override the edge functions' paths.
+	const isrConfigs = new Map<FunctionInfo, BuildOutputIsrConfig>();
+	prerenderedRoutes.forEach(fnInfo => {
+		const expiration = fnInfo.route?.expiration;
+		const edgeFunction = vercelOutput.get(formatRoutePath(fnInfo.relativePath));
+
+		if (expiration && edgeFunction?.type === 'function') {
+			isrConfigs.set(fnInfo, {
+				entrypoint: edgeFunction.entrypoint,
+				expiration,
+			});
+		}
+	});
+
+	prerenderedRoutes.forEach(fnInfo => {
+		const { relativePath, route } = fnInfo;
 		const path = route?.path ?? stripFuncExtension(relativePath);
+		const isr = isrConfigs.get(fnInfo);
 
 		vercelOutput.set(path, {
 			type: 'override',
 			path,
 			headers: route?.headers,
+			isr,
 		});
 
 		route?.overrides?.forEach(overridenPath => {
@@ -280,6 +305,7 @@ function applyPrerenderedRoutes(
 				type: 'override',
 				path,
 				headers: route?.headers,
+				isr,
 			});
 		});
 	});
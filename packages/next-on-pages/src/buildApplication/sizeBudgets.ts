@@ -0,0 +1,245 @@
+import { join, resolve } from 'node:path';
+import { exit } from 'process';
+import { cliError, cliWarn } from '../cli';
+import type { SizeBudgets } from '../config';
+import { readJsonFile } from '../utils';
+import type { BuildSizes } from './buildReport';
+import { formatByteSize } from './buildReport';
+import type { BuildLog } from './buildSummary';
+
+/**
+ * Reads the sizes of the build to compare the current build with when checking the size budgets.
+ *
+ * Note: this needs to be called before the `_worker.js` directory is cleared by the new build.
+ *
+ * @param workerJsDir Path to the `_worker.js` directory.
+ * @param budgets The size budgets.
+ * @returns The sizes from the baseline build log, or null if there is no baseline build log.
+ */
+export async function getBaselineBuildSizes(
+	workerJsDir: string,
+	{ baseline }: SizeBudgets,
+): Promise<BuildSizes | null> {
+	const buildLogPath = baseline
+		? resolve(baseline)
+		: join(workerJsDir, 'nop-build-log.json');
+	const buildLog = await readJsonFile<Partial<BuildLog>>(buildLogPath);
+
+	// Note: build logs from older versions don't include the sizes
+	return buildLog?.sizes ?? null;
+}
+
+/**
+ * Checks the sizes of the build against the size budgets.
+ *
+ * All the budgets apply to gzipped sizes. The route budget applies to the function of each route on
+ * its own, the chunks it shares with other routes being checked against the shared chunk budget.
+ * When the routes are grouped, the route budget applies to the module of each route group instead,
+ * as it is loaded as a whole for any of its routes.
+ *
+ * @param sizes The sizes of the build.
+ * @param budgets The size budgets.
+ * @param baselineSizes The sizes of the build to compare with (if any).
+ * @returns The exceeded budgets.
+ */
+export function getExceededSizeBudgets(
+	{ functions, worker }: BuildSizes,
+	budgets: SizeBudgets,
+	baselineSizes: BuildSizes | null = null,
+): ExceededSizeBudget[] {
+	const exceededBudgets: ExceededSizeBudget[] = [];
+
+	if (budgets.worker !== undefined && worker.gzipByteSize > budgets.worker) {
+		exceededBudgets.push({
+			type: 'worker',
+			name: '_worker.js',
+			gzipByteSize: worker.gzipByteSize,
+			budget: budgets.worker,
+			baselineGzipByteSize: baselineSizes?.worker.gzipByteSize,
+		});
+	}
+
+	if (budgets.route !== undefined) {
+		const baselineRoutes = new Map(
+			baselineSizes?.functions.map(fn => [fn.route, fn.gzipByteSize]),
+		);
+
+		for (const { route, routeGroup, gzipByteSize } of functions) {
+			if (routeGroup || gzipByteSize <= budgets.route) continue;
+
+			exceededBudgets.push({
+				type: 'route',
+				name: route,
+				gzipByteSize,
+				budget: budgets.route,
+				baselineGzipByteSize: baselineSizes
+					? baselineRoutes.get(route) ?? null
+					: undefined,
+			});
+		}
+	}
+
+	if (budgets.route !== undefined) {
+		const routeGroups = getRouteGroups(functions);
+		const baselineRouteGroups = getRouteGroups(baselineSizes?.functions ?? []);
+
+		for (const [name, { gzipByteSize, routes }] of routeGroups) {
+			if (gzipByteSize <= budgets.route) continue;
+
+			exceededBudgets.push({
+				type: 'routeGroup',
+				name: `${name} (${routes.join(', ')})`,
+				gzipByteSize,
+				budget: budgets.route,
+				baselineGzipByteSize: baselineSizes
+					? baselineRouteGroups.get(name)?.gzipByteSize ?? null
+					: undefined,
+			});
+		}
+	}
+
+	if (budgets.sharedChunk !== undefined) {
+		const sharedChunks = getSharedChunks(functions);
+		const baselineSharedChunks = getSharedChunks(
+			baselineSizes?.functions ?? [],
+		);
+
+		for (const [path, gzipByteSize] of sharedChunks) {
+			if (gzipByteSize <= budgets.sharedChunk) continue;
+
+			exceededBudgets.push({
+				type: 'sharedChunk',
+				name: path,
+				gzipByteSize,
+				budget: budgets.sharedChunk,
+				baselineGzipByteSize: baselineSizes
+					? baselineSharedChunks.get(path) ?? null
+					: undefined,
+			});
+		}
+	}
+
+	return exceededBudgets;
+}
+
+/**
+ * Gets the gzipped sizes of the deduped files that functions import.
+ *
+ * @param functions The sizes of the functions.
+ * @returns Map of the shared files' paths to their gzipped sizes.
+ */
+function getSharedChunks(
+	functions: BuildSizes['functions'],
+): Map<string, number> {
+	return new Map(
+		functions.flatMap(({ imports }) =>
+			Object.values(imports)
+				.flat()
+				.map(({ path, gzipByteSize }) => [path, gzipByteSize] as const),
+		),
+	);
+}
+
+/**
+ * Gets the gzipped sizes of the route groups' modules, with the routes they are loaded for.
+ *
+ * @param functions The sizes of the functions.
+ * @returns Map of the route groups' names to their gzipped sizes and routes.
+ */
+function getRouteGroups(
+	functions: BuildSizes['functions'],
+): Map<string, { gzipByteSize: number; routes: string[] }> {
+	const routeGroups = new Map<
+		string,
+		{ gzipByteSize: number; routes: string[] }
+	>();
+
+	for (const { route, routeGroup, gzipByteSize } of functions) {
+		if (!routeGroup) continue;
+
+		const group = routeGroups.get(routeGroup) ?? { gzipByteSize, routes: [] };
+		group.routes.push(route);
+		routeGroups.set(routeGroup, group);
+	}
+
+	return routeGroups;
+}
+
+/**
+ * Checks the sizes of the build against the size budgets, and fails the build (or warns, depending
+ * on the budgets' `onExceeded` option) listing the exceeded budgets with the size difference from
+ * the baseline build.
+ *
+ * @param sizes The sizes of the build.
+ * @param budgets The size budgets.
+ * @param baselineSizes The sizes of the build to compare with (if any).
+ */
+export function enforceSizeBudgets(
+	sizes: BuildSizes,
+	budgets: SizeBudgets,
+	baselineSizes: BuildSizes | null = null,
+): void {
+	const exceededBudgets = getExceededSizeBudgets(sizes, budgets, baselineSizes);
+	if (exceededBudgets.length === 0) return;
+
+	const message =
+		'The following size budgets have been exceeded (gzipped sizes' +
+		`${baselineSizes ? ', compared to the baseline build' : ''}):\n` +
+		exceededBudgets.map(formatExceededBudget).join('\n');
+
+	if (budgets.onExceeded === 'warn') {
+		cliWarn(`Warning: ${message}`, { spaced: true, skipDedent: true });
+		return;
+	}
+
+	cliError(message, { spaced: true, skipDedent: true });
+	exit(1);
+}
+
+const budgetNames: Record<ExceededSizeBudget['type'], string> = {
+	worker: 'Worker',
+	route: 'Route',
+	routeGroup: 'Route group',
+	sharedChunk: 'Shared chunk',
+};
+
+/**
+ * Formats an exceeded budget for the build output, with its difference from the baseline build.
+ *
+ * @param exceededBudget The exceeded budget.
+ * @returns The formatted budget.
+ */
+function formatExceededBudget({
+	type,
+	name,
+	gzipByteSize,
+	budget,
+	baselineGzipByteSize,
+}: ExceededSizeBudget): string {
+	let diff = '';
+	if (baselineGzipByteSize === null) {
+		diff = ' (new)';
+	} else if (baselineGzipByteSize !== undefined) {
+		const delta = gzipByteSize - baselineGzipByteSize;
+		diff = ` (${delta < 0 ? '-' : '+'}${formatByteSize(
+			Math.abs(delta),
+		)}, was ${formatByteSize(baselineGzipByteSize)})`;
+	}
+
+	return `  - ${budgetNames[type]} ${name}: ${formatByteSize(
+		gzipByteSize,
+	)} exceeds the ${formatByteSize(budget)} budget${diff}`;
+}
+
+export type ExceededSizeBudget = {
+	type: 'worker' | 'route' | 'routeGroup' | 'sharedChunk';
+	/** Name of the worker, route, route group (with its routes) or shared chunk */
+	name: string;
+	gzipByteSize: number;
+	budget: number;
+	/**
+	 * Gzipped size in the baseline build (null if it was not part of the baseline build, undefined if
+	 * there is no baseline build)
+	 */
+	baselineGzipByteSize?: number | null;
+};
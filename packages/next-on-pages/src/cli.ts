@@ -9,14 +9,20 @@ import {
 	nextOnPagesVersion,
 	normalizePath,
 } from './utils';
+import type { NextOnPagesConfig } from './config';
 
 import { program, Option } from 'commander';
 
+let command: CliCommand = 'build';
+
 program
 	.description(`@khulnasoft/next-on-pages CLI v.${nextOnPagesVersion}`)
 	.allowExcessArguments(false)
 	.configureHelp({
-		commandUsage: () => '@khulnasoft/next-on-pages [options]',
+		commandUsage: command =>
+			command.parent
+				? `@khulnasoft/next-on-pages ${command.name()} ${command.usage()}`
+				: '@khulnasoft/next-on-pages [options] [command]',
 	})
 	.helpOption(undefined, 'Shows this help message')
 	.addHelpText(
@@ -62,12 +68,90 @@ program
 		'--custom-entrypoint <path>',
 		'Wrap the generated worker for your application in a custom worker entrypoint',
 	)
+	.option(
+		'--custom-cache-adaptor <path>',
+		'Use a custom adaptor (a class extending the CacheAdaptor class) for the suspense cache',
+	)
+	.option(
+		'--experimental-nodejs-functions',
+		'Bundles the Node.js serverless functions for the workers runtime (with the nodejs_compat flag) instead of failing the build',
+	)
+	.option(
+		'--experimental-route-groups',
+		'Groups the routes into separately loaded modules based on the chunks they share, to reduce the module evaluation at cold starts',
+	)
+	.option(
+		'--sourcemap',
+		'Generates source maps for the worker, mapping its code back to the Vercel functions (and to their original sources when available)',
+	)
+	.option(
+		'--json',
+		'Prints the diagnostics of the build errors as JSON (e.g. to create CI annotations from them)',
+	)
+	.addOption(
+		new Option(
+			'--report <format>',
+			'Generates a report of the sizes of the routes in the worker, in the given format',
+		).choices(['html']),
+	)
 	.enablePositionalOptions(false)
 	.version(
 		nextOnPagesVersion,
 		'-v, --version',
 		'Shows the version of the package',
-	);
+	)
+	.action(() => {
+		command = 'build';
+	});
+
+const previewCommand = program
+	.command('preview')
+	.description(
+		'Serves the built application (from the output directory) locally using a Workers runtime emulator',
+	)
+	.helpOption(undefined, 'Shows this help message')
+	.option(
+		'-p, --port <port>',
+		'Sets the port to serve the application on',
+		'8788',
+	)
+	.action(() => {
+		command = 'preview';
+	});
+
+const inspectRouteCommand = program
+	.command('inspect-route')
+	.description(
+		'Explains how a request to the given url is matched by the routing of the built application',
+	)
+	.argument('<url>', 'The url (or pathname) of the request to inspect')
+	.helpOption(undefined, 'Shows this help message')
+	.option('--method <method>', 'Sets the method of the request', 'GET')
+	.option(
+		'--header <header>',
+		"Adds a header to the request, in the 'name: value' format (can be repeated)",
+		collectValues,
+	)
+	.option(
+		'--cookie <cookie>',
+		"Adds a cookie to the request, in the 'name=value' format (can be repeated)",
+		collectValues,
+	)
+	.action(() => {
+		command = 'inspect-route';
+	});
+
+/**
+ * The commands that the CLI can run
+ *  - build: builds the application (default)
+ *  - preview: serves the already built application locally
+ *  - inspect-route: explains how a url is matched by the built application's routing
+ */
+export type CliCommand = 'build' | 'preview' | 'inspect-route';
+
+function collectValues(value: string, previous: string[] = []): string[] {
+	return [...previous, value];
+}
 
 export type CliOptions = {
 	skipBuild?: boolean;
@@ -79,13 +163,102 @@ export type CliOptions = {
 	info?: boolean;
 	outdir: string;
 	customEntrypoint?: string;
+	customCacheAdaptor?: string;
+	experimentalNodejsFunctions?: boolean;
+	experimentalRouteGroups?: boolean;
+	sourcemap?: boolean;
+	json?: boolean;
+	report?: 'html';
+	command: CliCommand;
+	/** port to serve the application on (only used by the preview command) */
+	port: number;
+	/** request to inspect (only used by the inspect-route command) */
+	inspectedRequest: InspectedRequestOptions;
+} & ConfigFileOnlyOptions;
+
+/**
+ * Options of the request to inspect with the inspect-route command
+ */
+type InspectedRequestOptions = {
+	url: string;
+	method: string;
+	headers: string[];
+	cookies: string[];
 };
 
-export function parseCliArgs(): CliOptions {
+/**
+ * Options that can only be set via the next-on-pages config file
+ */
+type ConfigFileOnlyOptions = Pick<
+	NextOnPagesConfig,
+	| 'cache'
+	| 'images'
+	| 'fallbackImageTransformer'
+	| 'errorReporter'
+	| 'routesJson'
+	| 'sizeBudgets'
+>;
+
+/**
+ * Parses the CLI arguments and merges them with the options from the next-on-pages config file.
+ *
+ * Options explicitly set via CLI flags take precedence over the ones from the config file.
+ *
+ * @param config the config from the next-on-pages config file (if any)
+ * @returns the resulting options
+ */
+export function parseCliArgs(config: NextOnPagesConfig = {}): CliOptions {
 	program.parse();
+
+	const {
+		cache,
+		images,
+		fallbackImageTransformer,
+		errorReporter,
+		routesJson,
+		sizeBudgets,
+		...configFlags
+	} = config;
+	for (const [key, value] of Object.entries(configFlags)) {
+		if (value !== undefined && program.getOptionValueSource(key) !== 'cli') {
+			program.setOptionValueWithSource(key, value, 'config');
+		}
+	}
+
 	const args = program.opts<CliOptions>();
-	args.outdir = normalizePath(resolve(args.outdir));
-	return args;
+	const { port } = previewCommand.opts<{ port: string }>();
+	const { method, header, cookie } = inspectRouteCommand.opts<{
+		method: string;
+		header?: string[];
+		cookie?: string[];
+	}>();
+
+	return {
+		...args,
+		command,
+		port: parsePort(port),
+		inspectedRequest: {
+			url: inspectRouteCommand.args[0] ?? '/',
+			method,
+			headers: header ?? [],
+			cookies: cookie ?? [],
+		},
+		outdir: normalizePath(resolve(args.outdir)),
+		cache,
+		images,
+		fallbackImageTransformer,
+		errorReporter,
+		routesJson,
+		sizeBudgets,
+	};
+}
+
+function parsePort(port: string): number {
+	const parsedPort = Number(port);
+	if (!Number.isInteger(parsedPort) || parsedPort < 0 || parsedPort > 65535) {
+		program.error(`error: invalid port '${port}'`);
+	}
+	return parsedPort;
 }
 
 type LogOptions = {
@@ -0,0 +1,209 @@
+/**
+ * Options that can be set in a next-on-pages config file (`next-on-pages.config.{ts,mjs,json}`)
+ *
+ * Note: options set via CLI flags take precedence over the ones set in the config file
+ */
+export type NextOnPagesConfig = {
+	/** Directory to output the worker and static assets to (equivalent to `--outdir`) */
+	outdir?: string;
+	/** Skips the application Vercel build process (equivalent to `--skip-build`) */
+	skipBuild?: boolean;
+	/** Disables the minification of the _worker.js script (equivalent to `--disable-worker-minification`) */
+	disableWorkerMinification?: boolean;
+	/** Disables the chunks deduplication (equivalent to `--disableChunksDedup`) */
+	disableChunksDedup?: boolean;
+	/** Custom worker entrypoint to wrap the generated worker in (equivalent to `--custom-entrypoint`) */
+	customEntrypoint?: string;
+	/**
+	 * Path to a module default exporting a class extending `CacheAdaptor` (from
+	 * `@khulnasoft/next-on-pages/cache`), used for the suspense cache instead of the built-in
+	 * adaptors (equivalent to `--custom-cache-adaptor`)
+	 */
+	customCacheAdaptor?: string;
+	/**
+	 * Bundles the Node.js serverless functions for the workers runtime instead of failing the build
+	 * (equivalent to `--experimental-nodejs-functions`)
+	 */
+	experimentalNodejsFunctions?: boolean;
+	/**
+	 * Groups the routes into separately loaded modules based on the chunks they share
+	 * (equivalent to `--experimental-route-groups`)
+	 */
+	experimentalRouteGroups?: boolean;
+	/**
+	 * Generates source maps for the worker, mapping its code back to the Vercel functions (and to
+	 * their original sources when available) (equivalent to `--sourcemap`)
+	 */
+	sourcemap?: boolean;
+	/** Prints the diagnostics of the build errors as JSON (equivalent to `--json`) */
+	json?: boolean;
+	/**
+	 * Generates a report of the sizes of the routes in the worker, in the given format
+	 * (equivalent to `--report`)
+	 */
+	report?: 'html';
+	/** Options for the suspense cache */
+	cache?: {
+		/**
+		 * The storage to use for the suspense cache, when not set the storage is chosen based on the
+		 * bindings available at runtime (`tiered` uses the Cache API in front of Workers KV)
+		 */
+		adaptor?: SuspenseCacheAdaptorType;
+	};
+	/** Overrides for the images configuration generated by the Vercel build process */
+	images?: ImagesConfigOverrides;
+	/**
+	 * Path to a module default exporting an image transformer (see `ImageTransformer`) used to resize
+	 * images when Khulnasoft's image resizing is not available
+	 */
+	fallbackImageTransformer?: string;
+	/**
+	 * Path to a module default exporting an error reporter (see `ErrorReporter`) called with the
+	 * errors thrown by the routes' functions
+	 */
+	errorReporter?: string;
+	/** Extra entries to add to the generated `_routes.json` file */
+	routesJson?: {
+		include?: string[];
+		exclude?: string[];
+	};
+	/** Size budgets checked at the end of the build (see `SizeBudgets`) */
+	sizeBudgets?: SizeBudgets;
+};
+
+export type SuspenseCacheAdaptorType =
+	| 'cache-api'
+	| 'kv'
+	| 'd1'
+	| 'r2'
+	| 'tiered';
+
+/**
+ * Size budgets of the worker, checked against the gzipped sizes reported in the build log
+ * (`nop-build-log.json`)
+ */
+export type SizeBudgets = {
+	/** Maximum gzipped size (in bytes) of the whole `_worker.js` */
+	worker?: number;
+	/** Maximum gzipped size (in bytes) of each route's function, excluding the chunks it shares with other routes */
+	route?: number;
+	/** Maximum gzipped size (in bytes) of each chunk shared by the routes */
+	sharedChunk?: number;
+	/** Whether exceeding a budget fails the build (`error`, the default) or only prints a warning (`warn`) */
+	onExceeded?: 'error' | 'warn';
+	/** Path to the build log to compare the sizes with (defaults to the build log of the previous build) */
+	baseline?: string;
+};
+
+export type ImagesConfigOverrides = {
+	sizes?: number[];
+	domains?: string[];
+	remotePatterns?: {
+		protocol?: 'http' | 'https';
+		hostname: string;
+		port?: string;
+		pathname?: string;
+	}[];
+	minimumCacheTTL?: number;
+	formats?: ('image/avif' | 'image/webp')[];
+	dangerouslyAllowSVG?: boolean;
+	contentSecurityPolicy?: string;
+	contentDispositionType?: string;
+};
+
+/**
+ * Options for resizing an image, derived from the `next/image` request
+ */
+export type ImageTransformOptions = {
+	width: number;
+	quality: number;
+	/** Format to convert the image to (based on the request's `Accept` header), if any */
+	format?: 'avif' | 'webp';
+};
+
+/**
+ * Function resizing images, used as a fallback when Khulnasoft's image resizing is not available
+ *
+ * @example
+ * ```ts
+ * // file: ./image-transformer.ts
+ * import type { ImageTransformer } from '@khulnasoft/next-on-pages/config';
+ *
+ * const transformer: ImageTransformer = async (image, { width, quality, format }) => {
+ * 	// resize the image (e.g. with a WASM based library) and return the resized image's response,
+ * 	// or return null to serve the original image
+ * };
+ *
+ * export default transformer;
+ * ```
+ *
+ * @param image the response containing the original image
+ * @param options the options to resize the image with
+ * @returns the response containing the resized image, or null to serve the original image
+ */
+export type ImageTransformer = (
+	image: Response,
+	options: ImageTransformOptions,
+) => Promise<Response | null>;
+
+/**
+ * Reporter of the errors thrown by the routes' functions (e.g. to send them to an error tracking
+ * service), to set as the default export of the module set as `errorReporter` in the config file
+ *
+ * The reporter runs after the response has been sent (as part of the request's `waitUntil`), the
+ * request being answered with the application's `500` page.
+ *
+ * @example
+ * ```ts
+ * // file: ./error-reporter.ts
+ * import type { ErrorReporter } from '@khulnasoft/next-on-pages/config';
+ *
+ * const reportError: ErrorReporter = async (error, request, { path, requestId }) => {
+ * 	await fetch('https://errors.example.com', {
+ * 		method: 'POST',
+ * 		body: JSON.stringify({ message: String(error), url: request.url, path, requestId }),
+ * 	});
+ * };
+ *
+ * export default reportError;
+ * ```
+ *
+ * @param error the error thrown
+ * @param request the request for which the error was thrown
+ * @param routeInfo information about the route that threw the error
+ */
+export type ErrorReporter = (
+	error: unknown,
+	request: Request,
+	routeInfo: ErrorRouteInfo,
+) => void | Promise<void>;
+
+export type ErrorRouteInfo = {
+	/** Path of the matched route in the build output */
+	path: string;
+	/** Entrypoint of the route's function (null if the error was not thrown by a function) */
+	entrypoint: string | null;
+	/** Id of the request (its `cf-ray` header), null if the request does not have one */
+	requestId: string | null;
+};
+
+/**
+ * Utility to define a typed next-on-pages config
+ *
+ * @example
+ * ```ts
+ * // file: ./next-on-pages.config.ts
+ * import { defineConfig } from '@khulnasoft/next-on-pages/config';
+ *
+ * export default defineConfig({
+ * 	disableWorkerMinification: true,
+ * 	cache: { adaptor: 'kv' },
+ * });
+ * ```
+ *
+ * @param config the next-on-pages config
+ * @returns the same config object
+ */
+export function defineConfig(config: NextOnPagesConfig): NextOnPagesConfig {
+	return config;
+}
@@ -0,0 +1,246 @@
+import { rm } from 'node:fs/promises';
+import { basename, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { Plugin } from 'esbuild';
+import { build } from 'esbuild';
+import { readJsonFile, validateFile } from '../utils';
+import { cliWarn } from '../cli';
+import type { NextOnPagesConfig } from '.';
+
+/**
+ * Names of the supported config files, in order of precedence
+ */
+export const configFileNames = [
+	'next-on-pages.config.ts',
+	'next-on-pages.config.mjs',
+	'next-on-pages.config.json',
+];
+
+/**
+ * Checks the value of a config option.
+ *
+ * @param value the value to check
+ * @param key the path of the option (e.g. `cache.adaptor`)
+ * @returns the invalid value's path and a description of the expected value, or null if the value is valid
+ */
+type ConfigValueValidator = (
+	value: unknown,
+	key: string,
+) => InvalidConfigValue | null;
+
+type InvalidConfigValue = { key: string; expected: string };
+
+function valueOfType(
+	expected: string,
+	isValid: (value: unknown) => boolean,
+): ConfigValueValidator {
+	return (value, key) => (isValid(value) ? null : { key, expected });
+}
+
+const stringValue = valueOfType('a string', value => typeof value === 'string');
+const booleanValue = valueOfType(
+	'a boolean',
+	value => typeof value === 'boolean',
+);
+const numberValue = valueOfType(
+	'a number',
+	value => typeof value === 'number' && !Number.isNaN(value),
+);
+
+function oneOf(values: readonly string[]): ConfigValueValidator {
+	return valueOfType(
+		`one of ${values.map(value => `'${value}'`).join(', ')}`,
+		value => values.includes(value as string),
+	);
+}
+
+function arrayOf(validateItem: ConfigValueValidator): ConfigValueValidator {
+	return (value, key) => {
+		if (!Array.isArray(value)) return { key, expected: 'an array' };
+
+		for (const [i, item] of value.entries()) {
+			const invalidValue = validateItem(item, `${key}[${i}]`);
+			if (invalidValue) return invalidValue;
+		}
+
+		return null;
+	};
+}
+
+function objectOf(
+	validators: Record<string, ConfigValueValidator>,
+	requiredKeys: string[] = [],
+): ConfigValueValidator {
+	return (value, key) => {
+		if (!value || typeof value !== 'object' || Array.isArray(value)) {
+			return { key, expected: 'an object' };
+		}
+
+		for (const [propKey, validateProp] of Object.entries(validators)) {
+			const propValue = (value as Record<string, unknown>)[propKey];
+			if (propValue === undefined && !requiredKeys.includes(propKey)) continue;
+
+			const invalidValue = validateProp(
+				propValue,
+				key ? `${key}.${propKey}` : propKey,
+			);
+			if (invalidValue) return invalidValue;
+		}
+
+		return null;
+	};
+}
+
+const configValidators: Record<keyof NextOnPagesConfig, ConfigValueValidator> =
+	{
+		outdir: stringValue,
+		skipBuild: booleanValue,
+		disableWorkerMinification: booleanValue,
+		disableChunksDedup: booleanValue,
+		customEntrypoint: stringValue,
+		customCacheAdaptor: stringValue,
+		experimentalNodejsFunctions: booleanValue,
+		experimentalRouteGroups: booleanValue,
+		sourcemap: booleanValue,
+		json: booleanValue,
+		report: oneOf(['html']),
+		cache: objectOf({
+			adaptor: oneOf(['cache-api', 'kv', 'd1', 'r2', 'tiered']),
+		}),
+		images: objectOf({
+			sizes: arrayOf(numberValue),
+			domains: arrayOf(stringValue),
+			remotePatterns: arrayOf(
+				objectOf(
+					{
+						protocol: oneOf(['http', 'https']),
+						hostname: stringValue,
+						port: stringValue,
+						pathname: stringValue,
+					},
+					['hostname'],
+				),
+			),
+			minimumCacheTTL: numberValue,
+			formats: arrayOf(oneOf(['image/avif', 'image/webp'])),
+			dangerouslyAllowSVG: booleanValue,
+			contentSecurityPolicy: stringValue,
+			contentDispositionType: stringValue,
+		}),
+		fallbackImageTransformer: stringValue,
+		errorReporter: stringValue,
+		routesJson: objectOf({
+			include: arrayOf(stringValue),
+			exclude: arrayOf(stringValue),
+		}),
+		sizeBudgets: objectOf({
+			worker: numberValue,
+			route: numberValue,
+			sharedChunk: numberValue,
+			onExceeded: oneOf(['error', 'warn']),
+			baseline: stringValue,
+		}),
+	};
+
+const supportedConfigKeys = Object.keys(configValidators);
+
+/**
+ * Resolves the next-on-pages config file present in the current working directory (if any)
+ *
+ * @returns the path and content of the config file, or null if no config file is present
+ */
+export async function resolveConfigFile(): Promise<ResolvedConfigFile | null> {
+	for (const fileName of configFileNames) {
+		const path = resolve(fileName);
+		if (!(await validateFile(path))) continue;
+
+		const config = fileName.endsWith('.json')
+			? await readJsonFile(path)
+			: await importConfigModule(path);
+
+		if (!config || typeof config !== 'object' || Array.isArray(config)) {
+			throw new Error(
+				`Invalid config file '${fileName}', the file needs to contain (or default export) a config object.`,
+			);
+		}
+
+		const unknownKeys = Object.keys(config).filter(
+			key => !supportedConfigKeys.includes(key),
+		);
+		if (unknownKeys.length) {
+			cliWarn(
+				`Warning: the following options in '${fileName}' are not supported and will be ignored: ${unknownKeys.join(
+					', ',
+				)}`,
+			);
+			unknownKeys.forEach(
+				key => delete (config as Record<string, unknown>)[key],
+			);
+		}
+
+		const invalidValue = objectOf(configValidators)(config, '');
+		if (invalidValue) {
+			throw new Error(
+				`Invalid config file '${fileName}', the '${invalidValue.key}' option needs to be ${invalidValue.expected}.`,
+			);
+		}
+
+		return { path, config: config as NextOnPagesConfig };
+	}
+
+	return null;
+}
+
+export type ResolvedConfigFile = {
+	path: string;
+	config: NextOnPagesConfig;
+};
+
+/**
+ * Imports a javascript or typescript config file.
+ *
+ * The file is bundled (with all packages kept as external) next to the original one so that
+ * typescript files can be imported and packages imports resolve as they do for the original file.
+ *
+ * @param path path of the config file
+ * @returns the default export of the config file
+ */
+async function importConfigModule(path: string): Promise<unknown> {
+	const bundledPath = `${path}.timestamp-${Date.now()}.mjs`;
+
+	try {
+		await build({
+			entryPoints: [path],
+			outfile: bundledPath,
+			bundle: true,
+			format: 'esm',
+			platform: 'node',
+			target: 'es2022',
+			logLevel: 'silent',
+			plugins: [externalPackagesPlugin],
+		});
+
+		const configModule = await import(pathToFileURL(bundledPath).href);
+		return configModule.default;
+	} catch (e) {
+		throw new Error(
+			`Failed to load the '${basename(path)}' config file: ${
+				e instanceof Error ? e.message : e
+			}`,
+		);
+	} finally {
+		await rm(bundledPath, { force: true });
+	}
+}
+
+/**
+ * Marks all package imports (i.e. the non-relative and non-absolute ones) as external.
+ */
+const externalPackagesPlugin: Plugin = {
+	name: 'external-packages',
+	setup(build) {
+		build.onResolve({ filter: /^[^./]/ }, ({ path, kind }) =>
+			kind === 'entry-point' ? undefined : { path, external: true },
+		);
+	},
+};
@@ -1,16 +1,29 @@
+import { relative } from 'path';
 import { watch } from 'chokidar';
 import pLimit from 'p-limit';
 import type { CliOptions } from './cli';
 import { parseCliArgs, cliLog, cliWarn, cliError, printEnvInfo } from './cli';
 import { buildApplication } from './buildApplication';
+import { previewApplication } from './previewApplication';
+import { inspectRoute } from './inspectRoute';
 import { isWindows, nextOnPagesVersion } from './utils';
+import type { ResolvedConfigFile } from './config/resolveConfigFile';
+import { resolveConfigFile } from './config/resolveConfigFile';
 
 const limit = pLimit(1);
 
 void runNextOnPages();
 
 async function runNextOnPages(): Promise<void> {
-	const args = parseCliArgs();
+	let configFile: ResolvedConfigFile | null;
+	try {
+		configFile = await resolveConfigFile();
+	} catch (e) {
+		cliError(e instanceof Error ? e.message : JSON.stringify(e));
+		process.exit(1);
+	}
+
+	const args = parseCliArgs(configFile?.config);
 
 	if (args.info) {
 		await printEnvInfo();
@@ -19,6 +32,20 @@ async function runNextOnPages(): Promise<void> {
 
 	cliLog(`@khulnasoft/next-on-pages CLI v.${nextOnPagesVersion}`);
 
+	if (configFile) {
+		cliLog(`Using config file '${relative('.', configFile.path)}'`);
+	}
+
+	if (args.command === 'preview') {
+		await previewApplication(args);
+		return;
+	}
+
+	if (args.command === 'inspect-route') {
+		await inspectRoute({ outdir: args.outdir, ...args.inspectedRequest });
+		return;
+	}
+
 	if (isWindows()) {
 		cliWarn(
 			`Warning: It seems like you're on a Windows system, the Vercel CLI (run by @khulnasoft/next-on-pages
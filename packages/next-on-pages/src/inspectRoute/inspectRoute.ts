@@ -0,0 +1,272 @@
+import { join, relative } from 'node:path';
+import { cliError, cliLog } from '../cli';
+import { readJsonFile } from '../utils';
+import type { RoutingInfo } from '../buildApplication/buildWorkerFile';
+import { routingInfoFileName } from '../buildApplication/buildWorkerFile';
+import type {
+	RouteCheck,
+	RoutingTraceEvent,
+} from '../../templates/_worker.js/routes-matcher';
+import { RoutesMatcher } from '../../templates/_worker.js/routes-matcher';
+import { findMatch } from '../../templates/_worker.js/handleRequest';
+import type { MatchedSet } from '../../templates/_worker.js/utils';
+import { isUrl } from '../../templates/_worker.js/utils';
+
+export type InspectRouteOpts = {
+	/** Directory containing the built worker */
+	outdir: string;
+	/** URL (or pathname) of the request to inspect */
+	url: string;
+	/** Method of the request to inspect */
+	method: string;
+	/** Headers of the request to inspect, in the `name: value` format */
+	headers: string[];
+	/** Cookies of the request to inspect, in the `name=value` format */
+	cookies: string[];
+};
+
+/**
+ * Inspects how a request is matched by the routing of the built application, without running
+ * the worker, and prints the details of each step of the routing process.
+ *
+ * Note: middleware functions can't be run outside of the worker, so they are assumed to let the
+ * request through unchanged.
+ *
+ * @param options options for the inspection
+ */
+export async function inspectRoute({
+	outdir: outputDir,
+	url,
+	method,
+	headers,
+	cookies,
+}: InspectRouteOpts): Promise<void> {
+	const routingInfoPath = join(outputDir, '_worker.js', routingInfoFileName);
+	const routingInfo = await readJsonFile<RoutingInfo>(routingInfoPath);
+
+	if (!routingInfo) {
+		cliError(
+			`Could not read the routing information from '${relative(
+				'.',
+				routingInfoPath,
+			)}', please build your application before inspecting its routes.`,
+		);
+		process.exit(1);
+	}
+
+	let request: Request;
+	try {
+		request = createInspectedRequest({ url, method, headers, cookies });
+	} catch (e) {
+		cliError(e instanceof Error ? e.message : JSON.stringify(e));
+		process.exit(1);
+	}
+
+	const { trace, match } = await traceRequest(request, routingInfo);
+
+	cliLog(
+		formatRoutingTrace(request, trace, match, routingInfo.output).join('\n'),
+		{ skipDedent: true },
+	);
+}
+
+/**
+ * Creates the request to inspect from the command options.
+ *
+ * @param options the url, method, headers and cookies for the request
+ * @returns the request
+ */
+export function createInspectedRequest({
+	url,
+	method,
+	headers,
+	cookies,
+}: Omit<InspectRouteOpts, 'outdir'>): Request {
+	const requestHeaders = new Headers();
+
+	for (const header of headers) {
+		const separatorIdx = header.indexOf(':');
+		if (separatorIdx <= 0) {
+			throw new Error(
+				`Invalid header '${header}', headers need to be in the 'name: value' format.`,
+			);
+		}
+		requestHeaders.append(
+			header.slice(0, separatorIdx).trim(),
+			header.slice(separatorIdx + 1).trim(),
+		);
+	}
+
+	for (const cookie of cookies) {
+		if (cookie.indexOf('=') <= 0) {
+			throw new Error(
+				`Invalid cookie '${cookie}', cookies need to be in the 'name=value' format.`,
+			);
+		}
+	}
+	if (cookies.length) {
+		requestHeaders.set(
+			'cookie',
+			[requestHeaders.get('cookie'), ...cookies].filter(Boolean).join('; '),
+		);
+	}
+
+	return new Request(new URL(url, 'http://localhost'), {
+		method: method.toUpperCase(),
+		headers: requestHeaders,
+	});
+}
+
+/** Fetcher for the static assets, which are not served when tracing the routing process */
+const assetsFetcher: Fetcher = {
+	fetch: async () => new Response(null, { status: 404 }),
+	connect: () => {
+		throw new Error('Sockets are not supported when tracing a request');
+	},
+};
+
+/** Execution context for tracing the routing process, no work is performed after the response */
+const ctx: ExecutionContext = {
+	waitUntil: () => undefined,
+	passThroughOnException: () => undefined,
+};
+
+/**
+ * Runs a request through the routing process, tracing all the events happening during it.
+ *
+ * @param request the request to route
+ * @param routingInfo the routing information of the built application
+ * @returns the trace of the routing process and the resulting match
+ */
+export async function traceRequest(
+	request: Request,
+	{ config, output, buildMetadata }: RoutingInfo,
+): Promise<{ trace: RoutingTraceEvent[]; match: MatchedSet }> {
+	const trace: RoutingTraceEvent[] = [];
+
+	const matcher = new RoutesMatcher(
+		config.routes,
+		output,
+		{
+			request,
+			assetsFetcher,
+			ctx,
+		},
+		buildMetadata,
+		config.wildcard,
+		{
+			onTrace: event => trace.push(event),
+			runMiddleware: async () =>
+				new Response(null, { headers: { 'x-middleware-next': '1' } }),
+		},
+	);
+
+	const match = await findMatch(matcher);
+
+	return { trace, match };
+}
+
+/**
+ * Formats the trace of a request's routing process into human readable lines.
+ *
+ * @param request the routed request
+ * @param trace the events of the routing process
+ * @param match the resulting match
+ * @param output the build output of the application
+ * @returns the lines describing the routing process
+ */
+export function formatRoutingTrace(
+	request: Request,
+	trace: RoutingTraceEvent[],
+	{ path = '/404', status, headers, body }: MatchedSet,
+	output: VercelBuildOutput,
+): string[] {
+	const lines = [`Inspecting ${request.method} ${request.url}`];
+
+	for (const event of trace) {
+		switch (event.type) {
+			case 'phase':
+				lines.push('', `Phase '${event.phase}' (path: ${event.path})`);
+				break;
+			case 'route':
+				lines.push(
+					`  ${event.matched ? '✓' : '✗'} route #${event.index} ${event.src}`,
+					...event.checks.slice(1).map(check => `      ${formatCheck(check)}`),
+				);
+				break;
+			case 'middleware':
+				lines.push(
+					`      middleware: ${event.path} (not run, assumed to continue)`,
+				);
+				break;
+			case 'headers':
+				lines.push(
+					...Object.entries(event.headers).map(
+						([name, value]) => `      header: ${name}: ${value}`,
+					),
+				);
+				break;
+			case 'status':
+				lines.push(`      status: ${event.status}`);
+				break;
+			case 'rewrite':
+				lines.push(`      rewrite: ${event.from} -> ${event.to}`);
+				break;
+		}
+	}
+
+	lines.push('', 'Result:');
+	const location = headers.normal.get('location');
+	if (location) {
+		lines.push(`  redirect: ${location}`);
+	} else if (body !== undefined) {
+		lines.push('  response body set by a middleware');
+	} else if (isUrl(path)) {
+		lines.push(`  external rewrite: ${path}`);
+	} else {
+		lines.push(
+			`  path: ${path}`,
+			`  build output item: ${formatItem(output[path])}`,
+		);
+	}
+	lines.push(`  status: ${status ?? 'from the build output item'}`);
+	for (const [name, value] of [
+		...headers.normal.entries(),
+		...headers.important.entries(),
+	]) {
+		lines.push(`  header: ${name}: ${value}`);
+	}
+
+	return lines;
+}
+
+function formatCheck(check: RouteCheck): string {
+	const result = check.passed ? 'passed' : 'failed';
+
+	if (check.type === 'has' || check.type === 'missing') {
+		const { field } = check;
+		const key = 'key' in field ? ` '${field.key}'` : '';
+		const value = field.value !== undefined ? ` = ${field.value}` : '';
+		return `${check.type}: ${field.type}${key}${value} (${result})`;
+	}
+
+	return `${check.type} check ${result}`;
+}
+
+function formatItem(item: VercelBuildOutputItem | undefined): string {
+	switch (item?.type) {
+		case 'function':
+		case 'middleware':
+			return `${item.type} (${item.entrypoint})`;
+		case 'override':
+			return `override${item.path ? ` of ${item.path}` : ''}${
+				item.isr
+					? `, regenerated every ${item.isr.expiration}s by ${item.isr.entrypoint}`
+					: ''
+			}`;
+		case 'static':
+			return 'static asset';
+		default:
+			return 'none (404)';
+	}
+}
@@ -0,0 +1,122 @@
+import { readFile } from 'node:fs/promises';
+import { extname, join, resolve, sep } from 'node:path';
+import type { Request, Response } from 'miniflare';
+import { validateFile } from '../utils';
+
+/**
+ * Content types for the static assets' extensions we know about, any other extension is served as
+ * `application/octet-stream`
+ */
+const contentTypes: Record<string, string> = {
+	'.html': 'text/html; charset=utf-8',
+	'.css': 'text/css; charset=utf-8',
+	'.js': 'text/javascript; charset=utf-8',
+	'.mjs': 'text/javascript; charset=utf-8',
+	'.json': 'application/json; charset=utf-8',
+	'.map': 'application/json; charset=utf-8',
+	'.txt': 'text/plain; charset=utf-8',
+	'.xml': 'application/xml; charset=utf-8',
+	'.webmanifest': 'application/manifest+json; charset=utf-8',
+	'.svg': 'image/svg+xml',
+	'.png': 'image/png',
+	'.jpg': 'image/jpeg',
+	'.jpeg': 'image/jpeg',
+	'.gif': 'image/gif',
+	'.webp': 'image/webp',
+	'.avif': 'image/avif',
+	'.ico': 'image/x-icon',
+	'.woff': 'font/woff',
+	'.woff2': 'font/woff2',
+	'.ttf': 'font/ttf',
+	'.otf': 'font/otf',
+	'.wasm': 'application/wasm',
+};
+
+/**
+ * Files present in the output directory which are not served as static assets by Pages
+ */
+const nonAssetPaths = [
+	'/_worker.js',
+	'/_routes.json',
+	'/_headers',
+	'/_redirects',
+];
+
+/**
+ * Finds the static asset that Pages would serve for a given pathname.
+ *
+ * Same as Pages, html files are also served for their extension-less pathnames (i.e. `/about` is
+ * served by `/about.html` or `/about/index.html`).
+ *
+ * @param outputDir the directory containing the static assets
+ * @param pathname the (decoded) pathname to find the asset for
+ * @returns the path of the asset file, or null if there is no asset for the pathname
+ */
+export async function findStaticAsset(
+	outputDir: string,
+	pathname: string,
+): Promise<string | null> {
+	if (
+		nonAssetPaths.some(
+			path => pathname === path || pathname.startsWith(`${path}/`),
+		)
+	) {
+		return null;
+	}
+
+	const root = resolve(outputDir);
+	const candidates = pathname.endsWith('/')
+		? [`${pathname}index.html`]
+		: [pathname, `${pathname}.html`, `${pathname}/index.html`];
+
+	for (const candidate of candidates) {
+		const path = resolve(join(root, candidate));
+		// prevents path traversal outside of the output directory
+		if (!path.startsWith(`${root}${sep}`)) continue;
+
+		if (await validateFile(path)) return path;
+	}
+
+	return null;
+}
+
+/**
+ * Creates the fetcher used for the `ASSETS` binding of the preview worker, which serves the static
+ * assets from the output directory.
+ *
+ * @param outputDir the directory containing the static assets
+ * @param ResponseClass the Response class to use (the one provided by miniflare)
+ * @returns the fetcher function
+ */
+export function createAssetsFetcher(
+	outputDir: string,
+	ResponseClass: typeof Response,
+): (request: Request) => Promise<Response> {
+	return async request => {
+		const { pathname } = new URL(request.url);
+
+		let assetPath: string | null = null;
+		try {
+			assetPath = await findStaticAsset(
+				outputDir,
+				decodeURIComponent(pathname),
+			);
+		} catch {
+			// the pathname couldn't be decoded, so no asset can match it
+		}
+
+		if (!assetPath) {
+			return new ResponseClass('Not Found', { status: 404 });
+		}
+
+		const body = request.method === 'HEAD' ? null : await readFile(assetPath);
+
+		return new ResponseClass(body, {
+			headers: {
+				'content-type':
+					contentTypes[extname(assetPath).toLowerCase()] ??
+					'application/octet-stream',
+			},
+		});
+	};
+}
@@ -0,0 +1,163 @@
+import { join, relative, resolve } from 'node:path';
+import type { WorkerOptions } from 'miniflare';
+import { cliError, cliLog, cliSuccess, cliWarn } from '../cli';
+import { readPathsRecursively, validateFile } from '../utils';
+import { createAssetsFetcher } from './assets';
+
+export type PreviewApplicationOpts = {
+	/** Directory containing the built worker and static assets */
+	outdir: string;
+	/** Port to serve the application on */
+	port: number;
+};
+
+/**
+ * Compatibility date used when the wrangler config file doesn't specify one
+ */
+const defaultCompatibilityDate = '2023-12-18';
+
+/**
+ * Names of the wrangler config files, in order of precedence
+ */
+const wranglerConfigFileNames = [
+	'wrangler.toml',
+	'wrangler.json',
+	'wrangler.jsonc',
+];
+
+/**
+ * Directory in which the bindings' local data is persisted (the same one used by wrangler so that
+ * the data is shared with `wrangler pages dev`)
+ */
+const persistRoot = join('.wrangler', 'state', 'v3');
+
+/**
+ * Serves the built application locally using Miniflare (a Workers runtime emulator).
+ *
+ * @param options options for the preview
+ */
+export async function previewApplication({
+	outdir: outputDir,
+	port,
+}: PreviewApplicationOpts): Promise<void> {
+	const workerJsDir = join(outputDir, '_worker.js');
+	const entrypoint = join(workerJsDir, 'index.js');
+
+	if (!(await validateFile(entrypoint))) {
+		cliError(
+			`Could not find the '${relative(
+				'.',
+				entrypoint,
+			)}' worker file, please build your application before previewing it.`,
+		);
+		process.exit(1);
+	}
+
+	const { Miniflare, Response } = await import('miniflare');
+
+	const wranglerOptions = await getWranglerWorkerOptions();
+
+	const miniflare = new Miniflare({
+		...wranglerOptions,
+		compatibilityDate:
+			wranglerOptions.compatibilityDate ?? defaultCompatibilityDate,
+		compatibilityFlags: [
+			...new Set([
+				...(wranglerOptions.compatibilityFlags ?? []),
+				'nodejs_compat',
+			]),
+		],
+		modulesRoot: workerJsDir,
+		modules: await collectWorkerModules(workerJsDir),
+		serviceBindings: {
+			...wranglerOptions.serviceBindings,
+			ASSETS: createAssetsFetcher(outputDir, Response),
+		},
+		port,
+		cachePersist: join(persistRoot, 'cache'),
+		kvPersist: join(persistRoot, 'kv'),
+		d1Persist: join(persistRoot, 'd1'),
+		r2Persist: join(persistRoot, 'r2'),
+	});
+
+	const url = await miniflare.ready;
+
+	cliSuccess(`Serving the application at ${url.href} (Ctrl+C to exit.)`, {
+		spaced: true,
+	});
+
+	process.once('SIGINT', () => {
+		void miniflare.dispose().then(() => process.exit(0));
+	});
+}
+
+type WorkerModule = Extract<
+	WorkerOptions,
+	{ modules: unknown[] }
+>['modules'][number];
+
+/**
+ * Collects all the modules in the `_worker.js` directory.
+ *
+ * All modules need to be provided explicitly since the functions are imported via dynamic imports
+ * that can't be statically followed.
+ *
+ * @param workerJsDir the `_worker.js` directory
+ * @returns the worker modules, with the entrypoint as the first one
+ */
+async function collectWorkerModules(
+	workerJsDir: string,
+): Promise<WorkerModule[]> {
+	const entrypoint = resolve(workerJsDir, 'index.js');
+	const paths = await readPathsRecursively(workerJsDir);
+
+	const modules = paths.flatMap((path): WorkerModule[] => {
+		if (/\.m?js$/.test(path)) return [{ type: 'ESModule', path }];
+		if (path.endsWith('.wasm')) return [{ type: 'CompiledWasm', path }];
+		if (path.endsWith('.bin')) return [{ type: 'Data', path }];
+		return [];
+	});
+
+	return modules.sort((a, b) =>
+		a.path === entrypoint ? -1 : b.path === entrypoint ? 1 : 0,
+	);
+}
+
+/**
+ * Gets the Miniflare worker options (bindings, compatibility date and flags, etc...) defined in
+ * the wrangler config file of the application (if any).
+ *
+ * @returns the worker options derived from the wrangler config file
+ */
+async function getWranglerWorkerOptions(): Promise<
+	Partial<Omit<WorkerOptions, 'modules' | 'script' | 'scriptPath'>>
+> {
+	let configPath: string | undefined;
+	for (const fileName of wranglerConfigFileNames) {
+		if (await validateFile(fileName)) {
+			configPath = resolve(fileName);
+			break;
+		}
+	}
+
+	if (!configPath) return {};
+
+	try {
+		const wrangler = await import('wrangler');
+		const { workerOptions } =
+			wrangler.unstable_getMiniflareWorkerOptions(configPath);
+
+		cliLog(`Using bindings from '${relative('.', configPath)}'`);
+		return workerOptions as Partial<WorkerOptions>;
+	} catch (e) {
+		cliWarn(
+			`Warning: the bindings from '${relative(
+				'.',
+				configPath,
+			)}' could not be loaded (a recent version of wrangler needs to be installed): ${
+				e instanceof Error ? e.message : e
+			}`,
+		);
+		return {};
+	}
+}
@@ -1,10 +1,17 @@
-import type { MatchedSet } from './utils';
+import type { MatchedSet, RoutingTraceMode } from './utils';
 import {
 	applyHeaders,
+	applyRoutingTrace,
 	applySearchParams,
+	formatCacheServerTiming,
+	getCacheMetrics,
+	isItemErrorResponse,
 	isUrl,
+	renderErrorPage,
 	runOrFetchBuildOutputItem,
+	writeCacheAnalytics,
 } from './utils';
+import type { RoutingTraceEvent } from './routes-matcher';
 import { RoutesMatcher } from './routes-matcher';
 import type { RequestContext } from '../../src/utils/requestContext';
 
@@ -15,6 +22,7 @@ import type { RequestContext } from '../../src/utils/requestContext';
  * @param config The processed Vercel build output config.
  * @param output Vercel build output.
  * @param buildMetadata Metadata generated by the next-on-pages build process.
+ * @param traceMode How to return the trace of the routing process, or null to not trace it.
  * @returns An instance of the router.
  */
 export async function handleRequest(
@@ -22,17 +30,44 @@ export async function handleRequest(
 	config: ProcessedVercelConfig,
 	output: VercelBuildOutput,
 	buildMetadata: NextOnPagesBuildMetadata,
+	traceMode: RoutingTraceMode | null = null,
 ): Promise<Response> {
+	const traceEvents: RoutingTraceEvent[] = [];
 	const matcher = new RoutesMatcher(
 		config.routes,
 		output,
 		reqCtx,
 		buildMetadata,
 		config.wildcard,
+		traceMode ? { onTrace: event => traceEvents.push(event) } : {},
 	);
-	const match = await findMatch(matcher);
+	let match = await findMatch(matcher);
 
-	return generateResponse(reqCtx, match, output);
+	const response = await generateResponse(reqCtx, match, output, async () => {
+		// Route the failure of the matched item through the `error` phase, so that the application's
+		// 500 page (or error route) is served.
+		matcher.status = 500;
+		const errorMatch = await findMatch(matcher, 'error', true);
+		if (errorMatch.path === match.path) return null;
+
+		match = errorMatch;
+		return generateResponse(reqCtx, match, output);
+	});
+
+	if (!traceMode) return response;
+
+	return applyRoutingTrace(
+		response,
+		{
+			events: traceEvents,
+			checkPhaseCounter: matcher.checkPhaseCounter,
+			middlewareInvoked: traceEvents.flatMap(event =>
+				event.type === 'middleware' ? [event.path] : [],
+			),
+			result: { path: match.path, status: match.status },
+		},
+		traceMode,
+	);
 }
 
 /**
@@ -43,7 +78,7 @@ export async function handleRequest(
  * @param skipErrorMatch Whether to skip the error match.
  * @returns The matched set of path, status, headers, and search params.
  */
-async function findMatch(
+export async function findMatch(
 	matcher: RoutesMatcher,
 	phase: 'none' | 'error' = 'none',
 	skipErrorMatch = false,
@@ -71,12 +106,15 @@ async function findMatch(
  *
  * @param reqCtx Request Context object.
  * @param match The match from the Vercel build output.
+ * @param output Vercel build output.
+ * @param onItemError Generates the response for when the matched item throws an error (returns null to serve the fallback error page).
  * @returns A response object.
  */
 async function generateResponse(
 	reqCtx: RequestContext,
 	{ path = '/404', status, headers, searchParams, body }: MatchedSet,
 	output: VercelBuildOutput,
+	onItemError?: () => Promise<Response | null>,
 ): Promise<Response> {
 	// Redirect user to external URL for redirects.
 	const locationHeader = headers.normal.get('location');
@@ -112,12 +150,33 @@ async function generateResponse(
 			headers,
 			searchParams,
 		});
+
+		if (isItemErrorResponse(resp)) {
+			const errorResp = await onItemError?.();
+			if (errorResp) return errorResp;
+
+			// Only fetch the static error page when the error could not be routed to an error route.
+			resp = await renderErrorPage(reqCtx.request, reqCtx.assetsFetcher);
+			// The error page's status takes precedence over the status of the match.
+			status = resp.status;
+		}
 	}
 
 	const newHeaders = headers.normal;
 	applyHeaders(newHeaders, resp.headers);
 	applyHeaders(newHeaders, headers.important);
 
+	// Expose the suspense cache operations performed while generating the response.
+	const cacheMetrics = getCacheMetrics(reqCtx.ctx);
+	if (cacheMetrics) {
+		newHeaders.append('server-timing', formatCacheServerTiming(cacheMetrics));
+		writeCacheAnalytics(
+			process.env.__NEXT_ON_PAGES__CACHE_ANALYTICS,
+			cacheMetrics,
+			reqCtx.request,
+		);
+	}
+
 	resp = new Response(resp.body, {
 		...resp,
 		status: status || resp.status,
@@ -3,9 +3,12 @@ import { handleRequest } from './handleRequest';
 import { setupRoutesIsolation } from './routesIsolation';
 import {
 	adjustRequestForVercel,
+	extractRoutingTraceMode,
 	handleImageResizingRequest,
+	loadFallbackImageTransformer,
 	patchFetch,
 } from './utils';
+import { handleCachePurgeRequest } from './utils/cache';
 import type { AsyncLocalStorage } from 'node:async_hooks';
 
 declare const __NODE_ENV__: string;
@@ -50,16 +53,37 @@ export default {
 					{ env, ctx, cf: request.cf },
 					async () => {
 						const url = new URL(request.url);
-						if (url.pathname.startsWith('/_next/image')) {
+						if (
+							__BUILD_METADATA__.imagesMode === 'optimized' &&
+							url.pathname.startsWith('/_next/image')
+						) {
 							return handleImageResizingRequest(request, {
 								buildOutput: __BUILD_OUTPUT__,
 								assetsFetcher: env.ASSETS,
 								imagesConfig: __CONFIG__.images,
+								getFallbackTransformer:
+									__BUILD_METADATA__.fallbackImageTransformer
+										? loadFallbackImageTransformer
+										: undefined,
+								imagesCache: { buildId: __BUILD_METADATA__.buildId, ctx },
 							});
 						}
 
+						const cachePurgeResponse = await handleCachePurgeRequest(
+							request,
+							env.__NEXT_ON_PAGES__CACHE_PURGE_SECRET,
+						);
+						if (cachePurgeResponse) {
+							return cachePurgeResponse;
+						}
+
 						const adjustedRequest = adjustRequestForVercel(request);
 
+						const routingTraceMode = extractRoutingTraceMode(
+							adjustedRequest,
+							env.__NEXT_ON_PAGES__ROUTING_TRACE_SECRET,
+						);
+
 						return handleRequest(
 							{
 								request: adjustedRequest,
@@ -69,10 +93,15 @@ export default {
 							__CONFIG__,
 							__BUILD_OUTPUT__,
 							__BUILD_METADATA__,
+							routingTraceMode,
 						);
 					},
 				);
 			},
 		);
 	},
-} as ExportedHandler<{ ASSETS: Fetcher }>;
+} as ExportedHandler<{
+	ASSETS: Fetcher;
+	__NEXT_ON_PAGES__ROUTING_TRACE_SECRET?: string;
+	__NEXT_ON_PAGES__CACHE_PURGE_SECRET?: string;
+}>;
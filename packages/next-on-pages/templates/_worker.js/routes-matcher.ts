@@ -16,6 +16,57 @@ import type { RequestContext } from '../../src/utils/requestContext';
 export type CheckRouteStatus = 'skip' | 'next' | 'done' | 'error';
 export type CheckPhaseStatus = Extract<CheckRouteStatus, 'error' | 'done'>;
 
+/**
+ * A check performed while matching a source route against the request.
+ */
+export type RouteCheck =
+	| { type: 'src' | 'method' | 'status' | 'intercept'; passed: boolean }
+	| { type: 'has' | 'missing'; field: VercelHasField; passed: boolean };
+
+/**
+ * An event that happened during the routing process.
+ *
+ * Route indexes refer to the position of the source route in its phase's routes.
+ */
+export type RoutingTraceEvent =
+	| { type: 'phase'; phase: VercelPhase; path: string }
+	| {
+			type: 'route';
+			phase: VercelPhase;
+			index: number;
+			src: string;
+			checks: RouteCheck[];
+			matched: boolean;
+	  }
+	| { type: 'middleware'; path: string; status: number }
+	| {
+			type: 'headers';
+			phase: VercelPhase;
+			index: number;
+			headers: Record<string, string>;
+	  }
+	| { type: 'status'; phase: VercelPhase; index: number; status: number }
+	| {
+			type: 'rewrite';
+			phase: VercelPhase;
+			index: number;
+			from: string;
+			to: string;
+	  };
+
+/**
+ * Hooks to observe or alter the behavior of the routes matcher.
+ */
+export type RoutesMatcherHooks = {
+	/** Called for each event happening during the routing process (used to trace the routing) */
+	onTrace?: (event: RoutingTraceEvent) => void;
+	/** Used to run the middleware functions instead of running their build output items */
+	runMiddleware?: (
+		path: string,
+		item: VercelBuildOutputItem,
+	) => Promise<Response>;
+};
+
 /**
  * The routes matcher is used to match a request to a route and run the route's middleware.
  */
@@ -55,6 +106,7 @@ export class RoutesMatcher {
 	 * @param reqCtx Request context object; request object, assets fetcher, and execution context.
 	 * @param buildMetadata Metadata generated by the next-on-pages build process.
 	 * @param wildcardConfig Wildcard options from the Vercel build output config.
+	 * @param hooks Hooks to observe or alter the routing process.
 	 * @returns The matched set of path, status, headers, and search params.
 	 */
 	constructor(
@@ -66,6 +118,8 @@ export class RoutesMatcher {
 		private reqCtx: RequestContext,
 		buildMetadata: NextOnPagesBuildMetadata,
 		wildcardConfig?: VercelWildcardConfig,
+		/** Hooks to observe or alter the routing process */
+		private hooks: RoutesMatcherHooks = {},
 	) {
 		this.url = new URL(reqCtx.request.url);
 		this.cookies = parse(reqCtx.request.headers.get('cookie') || '');
@@ -85,11 +139,28 @@ export class RoutesMatcher {
 		this.locales = new Set(buildMetadata.collectedLocales);
 	}
 
+	/**
+	 * Whether the routing process is being traced.
+	 */
+	private get tracing(): boolean {
+		return !!this.hooks.onTrace;
+	}
+
+	/**
+	 * Reports an event of the routing process to the trace hook (if any).
+	 *
+	 * @param event The event to report.
+	 */
+	private trace(event: RoutingTraceEvent): void {
+		this.hooks.onTrace?.(event);
+	}
+
 	/**
 	 * Checks if a Vercel source route from the build output config matches the request.
 	 *
 	 * @param route Build output config source route.
 	 * @param checkStatus Whether to check the status code of the route.
+	 * @param checks List in which to record the checks performed on the route (only when tracing).
 	 * @returns The source path match result if the route matches, otherwise `undefined`.
 	 */
 	private checkRouteMatch(
@@ -98,18 +169,19 @@ export class RoutesMatcher {
 			checkStatus,
 			checkIntercept,
 		}: { checkStatus: boolean; checkIntercept: boolean },
+		checks?: RouteCheck[],
 	): { routeMatch: MatchPCREResult; routeDest?: string } | undefined {
 		const srcMatch = matchPCRE(route.src, this.path, route.caseSensitive);
+		checks?.push({ type: 'src', passed: !!srcMatch.match });
 		if (!srcMatch.match) return;
 
 		// One of the HTTP `methods` conditions must be met - skip if not met.
-		if (
-			route.methods &&
-			!route.methods
+		if (route.methods) {
+			const methodMatches = route.methods
 				.map(m => m.toUpperCase())
-				.includes(this.reqCtx.request.method.toUpperCase())
-		) {
-			return;
+				.includes(this.reqCtx.request.method.toUpperCase());
+			checks?.push({ type: 'method', passed: methodMatches });
+			if (!methodMatches) return;
 		}
 
 		const hasFieldProps = {
@@ -127,6 +199,7 @@ export class RoutesMatcher {
 					// If the `has` condition had a named capture to update the destination, update it.
 					hasFieldProps.routeDest = result.newRouteDest;
 				}
+				checks?.push({ type: 'has', field: has, passed: result.valid });
 				return !result.valid;
 			})
 		) {
@@ -134,13 +207,21 @@ export class RoutesMatcher {
 		}
 
 		// All `missing` conditions must not be met - skip if one is met.
-		if (route.missing?.find(has => checkhasField(has, hasFieldProps).valid)) {
+		if (
+			route.missing?.find(has => {
+				const { valid } = checkhasField(has, hasFieldProps);
+				checks?.push({ type: 'missing', field: has, passed: !valid });
+				return valid;
+			})
+		) {
 			return;
 		}
 
 		// Required status code must match (i.e. for error routes) - skip if not met.
-		if (checkStatus && route.status !== this.status) {
-			return;
+		if (checkStatus) {
+			const statusMatches = route.status === this.status;
+			checks?.push({ type: 'status', passed: statusMatches });
+			if (!statusMatches) return;
 		}
 
 		if (checkIntercept && route.dest) {
@@ -150,8 +231,9 @@ export class RoutesMatcher {
 
 			// If the new destination is an intercept route, only allow it if the current path is also
 			// an intercept route.
-			if (destIsIntercept && !pathIsIntercept) {
-				return;
+			if (destIsIntercept) {
+				checks?.push({ type: 'intercept', passed: pathIsIntercept });
+				if (!pathIsIntercept) return;
 			}
 		}
 
@@ -247,13 +329,16 @@ export class RoutesMatcher {
 			return false;
 		}
 
-		const resp = await runOrFetchBuildOutputItem(item, this.reqCtx, {
-			path: this.path,
-			searchParams: this.searchParams,
-			headers: this.headers,
-			status: this.status,
-		});
+		const resp = this.hooks.runMiddleware
+			? await this.hooks.runMiddleware(path, item)
+			: await runOrFetchBuildOutputItem(item, this.reqCtx, {
+					path: this.path,
+					searchParams: this.searchParams,
+					headers: this.headers,
+					status: this.status,
+			  });
 		this.middlewareInvoked.push(path);
+		this.trace({ type: 'middleware', path, status: resp.status });
 
 		if (resp.status === 500) {
 			// The middleware function threw an error. Set the status and bail out.
@@ -463,21 +548,40 @@ export class RoutesMatcher {
 	 *
 	 * @param phase Current phase of the routing process.
 	 * @param route Build output config source route.
+	 * @param index Index of the route in the phase's routes.
 	 * @returns The status from checking the route.
 	 */
 	private async checkRoute(
 		phase: VercelPhase,
 		rawRoute: VercelSource,
+		index: number,
 	): Promise<CheckRouteStatus> {
 		const localeFriendlyRoute = this.getLocaleFriendlyRoute(rawRoute, phase);
+		const checks: RouteCheck[] | undefined = this.tracing ? [] : undefined;
 		const { routeMatch, routeDest } =
-			this.checkRouteMatch(localeFriendlyRoute, {
-				checkStatus: phase === 'error',
-				// The build output config correctly maps relevant request paths to be intercepts in the
-				// `none` phase, while the `rewrite` phase can contain entries that rewrite to an intercept
-				// that matches requests that are not actually intercepts, causing a 404.
-				checkIntercept: phase === 'rewrite',
-			}) ?? {};
+			this.checkRouteMatch(
+				localeFriendlyRoute,
+				{
+					checkStatus: phase === 'error',
+					// The build output config correctly maps relevant request paths to be intercepts in the
+					// `none` phase, while the `rewrite` phase can contain entries that rewrite to an intercept
+					// that matches requests that are not actually intercepts, causing a 404.
+					checkIntercept: phase === 'rewrite',
+				},
+				checks,
+			) ?? {};
+
+		// Routes whose source doesn't match the path are not traced, as they are the vast majority.
+		if (checks?.[0]?.passed) {
+			this.trace({
+				type: 'route',
+				phase,
+				index,
+				src: rawRoute.src,
+				checks,
+				matched: !!routeMatch?.match,
+			});
+		}
 
 		const route: VercelSource = { ...localeFriendlyRoute, dest: routeDest };
 
@@ -510,12 +614,37 @@ export class RoutesMatcher {
 
 		// Update final headers with the ones from this route.
 		this.applyRouteHeaders(route, srcMatch, captureGroupKeys);
+		if (this.tracing && route.headers) {
+			const headers = new Headers();
+			applyHeaders(headers, route.headers, {
+				match: srcMatch,
+				captureGroupKeys,
+			});
+			this.trace({
+				type: 'headers',
+				phase,
+				index,
+				headers: Object.fromEntries(headers.entries()),
+			});
+		}
 
 		// Update the status code if this route has one.
 		this.applyRouteStatus(route);
+		if (route.status) {
+			this.trace({ type: 'status', phase, index, status: route.status });
+		}
 
 		// Update the path with the new destination.
 		const prevPath = this.applyRouteDest(route, srcMatch, captureGroupKeys);
+		if (prevPath !== this.path) {
+			this.trace({
+				type: 'rewrite',
+				phase,
+				index,
+				from: prevPath,
+				to: this.path,
+			});
+		}
 
 		// If `check` is required and the path isn't a URL, check it again.
 		if (route.check && !isUrl(this.path)) {
@@ -582,12 +711,14 @@ export class RoutesMatcher {
 			return 'error';
 		}
 
+		this.trace({ type: 'phase', phase, path: this.path });
+
 		// Reset the middleware invoked list as this is a new phase.
 		this.middlewareInvoked = [];
 		let shouldContinue = true;
 
-		for (const route of this.routes[phase]) {
-			const result = await this.checkRoute(phase, route);
+		for (const [index, route] of this.routes[phase].entries()) {
+			const result = await this.checkRoute(phase, route, index);
 
 			if (result === 'error') {
 				return 'error';
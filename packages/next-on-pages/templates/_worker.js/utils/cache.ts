@@ -1,5 +1,11 @@
-import type { CacheAdaptor, IncrementalCacheValue } from '../../cache';
-import { SUSPENSE_CACHE_URL } from '../../cache';
+import type { CacheAdaptor, CachedFetchValue } from '../../cache';
+import {
+	NEXT_CACHE_IMPLICIT_TAG_ID,
+	SUSPENSE_CACHE_URL,
+	getDerivedTags,
+} from '../../cache';
+import { timingSafeEqual } from './http';
+import { recordCacheOperation } from './metrics';
 
 // https://github.com/vercel/next.js/blob/48a566bc/packages/next/src/server/lib/incremental-cache/fetch-cache.ts#L19
 const CACHE_TAGS_HEADER = 'x-vercel-cache-tags';
@@ -8,6 +14,12 @@ const NEXT_CACHE_SOFT_TAGS_HEADER = 'x-next-cache-soft-tags';
 
 const REQUEST_CONTEXT_KEY = Symbol.for('__khulnasoft-request-context__');
 
+declare const __BUILD_METADATA__: NextOnPagesBuildMetadata;
+
+type SuspenseCacheAdaptorType = NonNullable<
+	NextOnPagesBuildMetadata['suspenseCacheAdaptor']
+>;
+
 /**
  * Handles an internal request to the suspense cache.
  *
@@ -20,15 +32,24 @@ export async function handleSuspenseCacheRequest(request: Request) {
 
 	try {
 		const url = new URL(request.url);
-		const cache = await getSuspenseCacheAdaptor();
+		const adaptorType = getSuspenseCacheAdaptorType();
+		const cache = await getInternalCacheAdaptor(adaptorType);
+		const ctx = getRequestExecutionContext();
+		migrateTagsManifestInBackground(cache, ctx);
 
 		if (url.pathname === '/v1/suspense-cache/revalidate') {
 			// Update the revalidated timestamp for the tags in the tags manifest.
 			const tags = url.searchParams.get('tags')?.split(',') ?? [];
 
+			const start = Date.now();
 			for (const tag of tags) {
 				await cache.revalidateTag(tag);
 			}
+			warnIfStaticIsrRoutesRevalidated(tags);
+			recordCacheOperation(ctx, adaptorType, {
+				outcome: 'revalidated',
+				duration: Date.now() - start,
+			});
 
 			return new Response(null, { status: 200 });
 		}
@@ -47,38 +68,48 @@ export async function handleSuspenseCacheRequest(request: Request) {
 				);
 
 				// Retrieve the value from the cache.
+				const start = Date.now();
 				const data = await cache.get(cacheKey, { softTags });
+				recordCacheOperation(ctx, adaptorType, {
+					outcome: !data
+						? 'miss'
+						: data.cacheState === 'stale'
+						? 'stale'
+						: 'hit',
+					duration: Date.now() - start,
+				});
+
 				if (!data) return new Response(null, { status: 404 });
 
 				return new Response(JSON.stringify(data.value), {
 					status: 200,
 					headers: {
 						'Content-Type': 'application/json',
-						'x-vercel-cache-state': 'fresh',
+						// Note: Next.js revalidates stale entries in the background
+						'x-vercel-cache-state': data.cacheState ?? 'fresh',
 						age: `${(Date.now() - (data.lastModified ?? Date.now())) / 1000}`,
 					},
 				});
 			}
 			case 'POST': {
-				// Retrieve request context.
-				const reqCtx = (globalThis as unknown as Record<symbol, unknown>)[
-					REQUEST_CONTEXT_KEY
-				] as { ctx: ExecutionContext };
-
 				const update = async () => {
 					// Update the value in the cache.
-					const body = await request.json<IncrementalCacheValue>();
+					const body = await request.json<CachedFetchValue>();
 					// Falling back to the cache tags header for Next.js 13.5+
 					if (body.data.tags === undefined) {
 						body.tags ??= getTagsFromHeader(request, CACHE_TAGS_HEADER) ?? [];
 					}
 
+					const start = Date.now();
 					await cache.set(cacheKey, body);
+					recordCacheOperation(ctx, adaptorType, {
+						duration: Date.now() - start,
+					});
 				};
 
-				if (reqCtx) {
+				if (ctx) {
 					// Avoid waiting for the cache to update before responding, if possible.
-					reqCtx.ctx.waitUntil(update());
+					ctx.waitUntil(update());
 				} else {
 					await update();
 				}
@@ -95,30 +126,234 @@ export async function handleSuspenseCacheRequest(request: Request) {
 	}
 }
 
+/**
+ * Pathname of the endpoint used to purge the suspense cache.
+ */
+export const CACHE_PURGE_PATHNAME = '/__next-on-pages/cache/purge';
+
+/**
+ * Body of a request to the cache purge endpoint.
+ */
+export type CachePurgeRequestBody = {
+	/** Tags to revalidate */
+	tags?: string[];
+	/** Paths to revalidate (same as calling `revalidatePath`) */
+	paths?: string[];
+	/** Keys of the entries to remove from the cache */
+	keys?: string[];
+};
+
+/**
+ * Handles a request to the cache purge endpoint.
+ *
+ * The endpoint is only enabled when a secret is set, requests need to be `POST` requests sent
+ * with the secret as a bearer token in their `Authorization` header.
+ *
+ * @param request Incoming request to handle.
+ * @param secret The cache purge secret set in the environment variables.
+ * @returns Response to the request, or null if the request is not for the (enabled) purge endpoint.
+ */
+export async function handleCachePurgeRequest(
+	request: Request,
+	secret: string | undefined,
+): Promise<Response | null> {
+	if (!secret || new URL(request.url).pathname !== CACHE_PURGE_PATHNAME) {
+		return null;
+	}
+
+	if (request.method !== 'POST') {
+		return new Response(null, { status: 405, headers: { Allow: 'POST' } });
+	}
+
+	const token = /^Bearer (.+)$/i.exec(
+		request.headers.get('Authorization') ?? '',
+	)?.[1];
+	if (!token || !timingSafeEqual(token, secret)) {
+		return new Response('Unauthorized', { status: 401 });
+	}
+
+	let body: CachePurgeRequestBody;
+	try {
+		body = await request.json<CachePurgeRequestBody>();
+	} catch {
+		body = {};
+	}
+
+	const { tags = [], paths = [], keys = [] } = body ?? {};
+	if (
+		![tags, paths, keys].every(
+			values =>
+				Array.isArray(values) &&
+				values.every(value => typeof value === 'string' && value.length),
+		) ||
+		!(tags.length || paths.length || keys.length)
+	) {
+		return new Response(
+			'Invalid cache purge request, expected a JSON body with `tags`, `paths` or `keys` string arrays',
+			{ status: 400 },
+		);
+	}
+
+	try {
+		const cache = await getSuspenseCacheAdaptor();
+
+		const revalidatedTags = [
+			...tags,
+			...paths.map(path => `${NEXT_CACHE_IMPLICIT_TAG_ID}${path}`),
+		];
+		for (const tag of revalidatedTags) {
+			await cache.revalidateTag(tag);
+		}
+		warnIfStaticIsrRoutesRevalidated(revalidatedTags);
+
+		for (const key of keys) {
+			await cache.delete(key);
+		}
+	} catch (e) {
+		// eslint-disable-next-line no-console
+		console.error(e);
+		return new Response('Error purging the cache', { status: 500 });
+	}
+
+	return new Response(JSON.stringify({ purged: { tags, paths, keys } }), {
+		headers: { 'content-type': 'application/json' },
+	});
+}
+
 /**
  * Gets the cache adaptor to use for the suspense cache.
  *
  * @returns Adaptor for the suspense cache.
  */
 export async function getSuspenseCacheAdaptor(): Promise<CacheAdaptor> {
+	return getInternalCacheAdaptor(getSuspenseCacheAdaptorType());
+}
+
+/**
+ * Gets the type of the cache adaptor to use for the suspense cache.
+ *
+ * A custom adaptor provided by the user takes precedence, then the adaptor set in the next-on-pages
+ * config file, otherwise the adaptor is chosen based on the available bindings.
+ *
+ * @returns The type of the adaptor (`custom` for the one provided by the user).
+ */
+export function getSuspenseCacheAdaptorType():
+	| SuspenseCacheAdaptorType
+	| 'custom' {
+	if (__BUILD_METADATA__.customCacheAdaptor) {
+		return 'custom';
+	}
+
+	if (__BUILD_METADATA__.suspenseCacheAdaptor) {
+		return __BUILD_METADATA__.suspenseCacheAdaptor;
+	}
+
 	if (process.env.__NEXT_ON_PAGES__KV_SUSPENSE_CACHE) {
-		return getInternalCacheAdaptor('kv');
+		return 'kv';
+	}
+
+	if (process.env.__NEXT_ON_PAGES__D1_SUSPENSE_CACHE) {
+		return 'd1';
+	}
+
+	if (process.env.__NEXT_ON_PAGES__R2_SUSPENSE_CACHE) {
+		return 'r2';
 	}
 
-	return getInternalCacheAdaptor('cache-api');
+	return 'cache-api';
 }
 
+/** The cache adaptors used in the isolate, by type */
+const cacheAdaptors = new Map<
+	SuspenseCacheAdaptorType | 'custom',
+	Promise<CacheAdaptor>
+>();
+
 /**
- * Gets an internal cache adaptor.
+ * Gets a cache adaptor bundled alongside the worker.
+ *
+ * The adaptor is instantiated once per isolate, so that the state it loads from the storage (i.e.
+ * the tags manifest being migrated) is shared by the requests.
  *
- * @param type The type of adaptor to get.
- * @returns A new instance of the adaptor.
+ * @param type The type of adaptor to get (`custom` for the one provided by the user).
+ * @returns The instance of the adaptor.
  */
 async function getInternalCacheAdaptor(
-	type: 'kv' | 'cache-api',
+	type: SuspenseCacheAdaptorType | 'custom',
 ): Promise<CacheAdaptor> {
-	const adaptor = await import(`./__next-on-pages-dist__/cache/${type}.js`);
-	return new adaptor.default();
+	let cacheAdaptor = cacheAdaptors.get(type);
+	if (!cacheAdaptor) {
+		const adaptorPath = `./__next-on-pages-dist__/cache/${type}.js`;
+		cacheAdaptor = import(adaptorPath).then(
+			adaptor => new adaptor.default() as CacheAdaptor,
+		);
+		cacheAdaptors.set(type, cacheAdaptor);
+		// Retry importing the adaptor next time.
+		cacheAdaptor.catch(() => cacheAdaptors.delete(type));
+	}
+
+	return cacheAdaptor;
+}
+
+/**
+ * Warns about the revalidated ISR routes that can't be regenerated (as their prerender functions
+ * could not be kept), since they keep being served from their prerendered file.
+ *
+ * @param tags The revalidated tags.
+ */
+function warnIfStaticIsrRoutesRevalidated(tags: string[]): void {
+	const routes = (__BUILD_METADATA__.staticIsrRoutes ?? []).filter(route =>
+		getDerivedTags([route]).some(tag =>
+			tags.includes(`${NEXT_CACHE_IMPLICIT_TAG_ID}${tag}`),
+		),
+	);
+
+	if (routes.length) {
+		// eslint-disable-next-line no-console
+		console.warn(
+			`The revalidated ISR routes ${routes.join(
+				', ',
+			)} can't be re-rendered, they are still served from their prerendered file.`,
+		);
+	}
+}
+
+/** The requests in which a batch of the tags manifest migration has been run. */
+const tagsManifestMigrationRequests = new WeakSet<ExecutionContext>();
+
+/**
+ * Runs a batch of the (version 1) tags manifest migration in the background of a request (once
+ * per request, so that the storage operations limit of the request isn't exceeded).
+ *
+ * @param cache The suspense cache adaptor.
+ * @param ctx The execution context of the request.
+ */
+function migrateTagsManifestInBackground(
+	cache: CacheAdaptor,
+	ctx: ExecutionContext | undefined,
+): void {
+	if (!ctx || tagsManifestMigrationRequests.has(ctx)) return;
+	tagsManifestMigrationRequests.add(ctx);
+
+	ctx.waitUntil(
+		cache.migrateTagsManifest().catch(e => {
+			// eslint-disable-next-line no-console
+			console.error('Error while migrating the tags manifest:', e);
+		}),
+	);
+}
+
+/**
+ * Gets the execution context of the current request.
+ *
+ * @returns The execution context, or undefined if it isn't available.
+ */
+function getRequestExecutionContext(): ExecutionContext | undefined {
+	const reqCtx = (globalThis as unknown as Record<symbol, unknown>)[
+		REQUEST_CONTEXT_KEY
+	] as { ctx: ExecutionContext } | undefined;
+
+	return reqCtx?.ctx;
 }
 
 function getTagsFromHeader(req: Request, key: string): string[] | undefined {
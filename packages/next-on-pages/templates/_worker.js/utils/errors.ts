@@ -0,0 +1,114 @@
+import type { ErrorReporter, ErrorRouteInfo } from '../../../src/config';
+
+declare const __BUILD_METADATA__: NextOnPagesBuildMetadata;
+
+/**
+ * Reports an error thrown while running or fetching a build output item to the error reporter
+ * bundled alongside the worker (if any).
+ *
+ * The reporter runs after the response has been sent, and errors thrown by the reporter itself are
+ * only logged.
+ *
+ * @param error The error thrown.
+ * @param request The request for which the error was thrown.
+ * @param routeInfo Information about the route that threw the error.
+ * @param opts The request's execution context and the getter for the error reporter.
+ */
+export function reportError(
+	error: unknown,
+	request: Request,
+	routeInfo: Omit<ErrorRouteInfo, 'requestId'>,
+	{ ctx, getReporter = getBundledErrorReporter }: ReportErrorOpts,
+): void {
+	const reportPromise = (async () => {
+		try {
+			const reporter = await getReporter();
+			await reporter?.(error, request, {
+				...routeInfo,
+				requestId: request.headers.get('cf-ray'),
+			});
+		} catch (e) {
+			// eslint-disable-next-line no-console
+			console.error('Error while reporting an error:', e);
+		}
+	})();
+
+	ctx.waitUntil(reportPromise);
+}
+
+type ReportErrorOpts = {
+	ctx: ExecutionContext;
+	/** Gets the error reporter to use, if any (defaults to the one bundled alongside the worker) */
+	getReporter?: () => Promise<ErrorReporter | null>;
+};
+
+/**
+ * Gets the error reporter bundled alongside the worker (if any).
+ *
+ * @returns The error reporter, or null if no error reporter has been set.
+ */
+async function getBundledErrorReporter(): Promise<ErrorReporter | null> {
+	if (!__BUILD_METADATA__.errorReporter) return null;
+
+	const reporterPath = './__next-on-pages-dist__/errors/reporter.js';
+	const reporterModule = await import(reporterPath);
+	return reporterModule.default;
+}
+
+/** The responses returned for the errors thrown while running or fetching build output items */
+const itemErrorResponses = new WeakSet<Response>();
+
+/**
+ * Creates the response returned for an error thrown while running or fetching a build output item.
+ *
+ * The response is only a marker: the error is then routed through the `error` phase, and the
+ * application's `500` page is only rendered if that fails (see `renderErrorPage`).
+ *
+ * @returns An empty response with a 500 status.
+ */
+export function createItemErrorResponse(): Response {
+	const response = new Response(null, { status: 500 });
+	itemErrorResponses.add(response);
+	return response;
+}
+
+/**
+ * Checks whether a response has been returned for an error thrown while running or fetching a
+ * build output item (instead of being returned by the item).
+ *
+ * @param response The response to check.
+ * @returns Whether the response has been created by `createItemErrorResponse`.
+ */
+export function isItemErrorResponse(response: Response): boolean {
+	return itemErrorResponses.has(response);
+}
+
+/**
+ * Renders the application's `500` page from the build output's static assets, falling back to a
+ * plain text response when the application does not have one.
+ *
+ * Note: this is the fallback for when the error can't be routed through the `error` phase.
+ *
+ * @param request The request for which an error was thrown.
+ * @param assetsFetcher Fetcher for the static assets.
+ * @returns The response for the error, with a 500 status.
+ */
+export async function renderErrorPage(
+	request: Request,
+	assetsFetcher: Fetcher,
+): Promise<Response> {
+	try {
+		const errorPage = await assetsFetcher.fetch(new URL('/500', request.url));
+		if (errorPage.ok) {
+			return new Response(errorPage.body, {
+				status: 500,
+				headers: errorPage.headers,
+			});
+		}
+		await errorPage.body?.cancel();
+	} catch {
+		/* empty */
+	}
+
+	return new Response('Internal Server Error', { status: 500 });
+}
@@ -134,3 +134,24 @@ export function parseAcceptLanguage(headerValue: string): string[] {
 		.map(([locale]) => (locale === '*' || locale === '' ? [] : locale))
 		.flat();
 }
+
+/**
+ * Compares two strings in constant time (relative to their length) to avoid leaking the secret
+ * via timing attacks.
+ *
+ * @param a the first string.
+ * @param b the second string.
+ * @returns whether the strings are equal.
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+	const encoder = new TextEncoder();
+	const aBytes = encoder.encode(a);
+	const bBytes = encoder.encode(b);
+
+	let diff = aBytes.length ^ bBytes.length;
+	for (let i = 0; i < bBytes.length; i++) {
+		diff |= (aBytes[i] ?? 0) ^ (bBytes[i] as number);
+	}
+
+	return diff === 0;
+}
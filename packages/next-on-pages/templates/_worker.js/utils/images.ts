@@ -1,3 +1,7 @@
+import type {
+	ImageTransformOptions,
+	ImageTransformer,
+} from '../../../src/config';
 import { applyHeaders, createMutableResponse } from './http';
 
 /**
@@ -29,7 +33,7 @@ export function isRemotePatternMatch(
 type ResizingProperties = {
 	isRelative: boolean;
 	imageUrl: URL;
-	options: RequestInitCfPropertiesImage;
+	options: ImageTransformOptions;
 };
 
 /**
@@ -139,39 +143,274 @@ export function formatResp(
 	return mutableResponse;
 }
 
+/**
+ * Checks whether a response has been resized by the platform's image resizing.
+ *
+ * https://developers.khulnasoft.com/images/transform-images/transform-via-workers/
+ *
+ * @param resp Response to check.
+ * @returns Whether the response contains a resized image.
+ */
+export function isResizedResp(resp: Response): boolean {
+	const resizedHeader = resp.headers.get('cf-resized');
+	return !!resizedHeader && !resizedHeader.includes('err=');
+}
+
 /**
  * Handles image resizing requests.
  *
+ * Resized images are stored in the Cache API (when the images cache options are provided), and
+ * conditional requests for them are answered with `304` responses.
+ *
  * @param request Incoming request.
  * @param config Images configuration from the Vercel build output.
  * @returns Resized image response if the request is valid, otherwise a 400 response.
  */
 export async function handleImageResizingRequest(
 	request: Request,
-	{ buildOutput, assetsFetcher, imagesConfig }: ImageResizingOpts,
+	opts: ImageResizingOpts,
 ): Promise<Response> {
-	const opts = getResizingProperties(request, imagesConfig);
+	const { imagesConfig, imagesCache } = opts;
+	const resizingProperties = getResizingProperties(request, imagesConfig);
 
-	if (!opts) {
+	if (!resizingProperties) {
 		return new Response('Invalid image resizing request', { status: 400 });
 	}
 
-	const { isRelative, imageUrl } = opts;
+	if (!imagesCache) {
+		return varyOnAccept(
+			await resizeImage(resizingProperties, opts),
+			imagesConfig,
+		);
+	}
+
+	const cache = await caches.open(IMAGES_CACHE_NAME);
+	const cacheKey = getImageCacheKey(
+		new URL(request.url).origin,
+		resizingProperties,
+		imagesCache.buildId,
+	);
 
-	// TODO: implement proper image resizing
+	let resp = await cache.match(cacheKey);
 
-	const imgFetch =
-		isRelative && imageUrl.pathname in buildOutput
-			? assetsFetcher.fetch.bind(assetsFetcher)
-			: fetch;
+	if (!resp) {
+		resp = await resizeImage(resizingProperties, opts);
 
-	const imageResp = await imgFetch(imageUrl);
+		const ttl =
+			resp.status === 200
+				? getImageCacheTTL(resp, imagesConfig?.minimumCacheTTL)
+				: null;
+
+		if (ttl !== null) {
+			resp = await withETag(resp);
+			resp.headers.set('Cache-Control', `public, max-age=${ttl}`);
+			imagesCache.ctx.waitUntil(cache.put(cacheKey, resp.clone()));
+		}
+	}
+
+	const etag = resp.headers.get('ETag');
+	if (etag && isETagMatch(request.headers.get('If-None-Match'), etag)) {
+		const cacheControl = resp.headers.get('Cache-Control');
+		return varyOnAccept(
+			new Response(null, {
+				status: 304,
+				headers: {
+					ETag: etag,
+					...(cacheControl && { 'Cache-Control': cacheControl }),
+				},
+			}),
+			imagesConfig,
+		);
+	}
+
+	return varyOnAccept(resp, imagesConfig);
+}
+
+/**
+ * Adds a `Vary: Accept` header to a response for an image resizing request when the images' format
+ * is chosen based on the request's `Accept` header, so that browsers and CDNs don't serve an image
+ * in a format that the client doesn't support.
+ *
+ * @param resp Response for the image resizing request.
+ * @param config Images configuration from the Vercel build output.
+ * @returns The response, varying on the `Accept` header if needed.
+ */
+function varyOnAccept(resp: Response, config?: VercelImagesConfig): Response {
+	if (!config?.formats?.length) return resp;
+
+	const newResp = new Response(resp.body, resp);
+	newResp.headers.append('Vary', 'Accept');
+	return newResp;
+}
+
+/**
+ * Resizes an image.
+ *
+ * The image is resized by the platform's image resizing (via the `cf.image` fetch options). When
+ * that is not available, the fallback image transformer is used (if there is one), otherwise the
+ * original image is served.
+ *
+ * @param resizingProperties Properties for the image resizing.
+ * @param opts Options for the image resizing.
+ * @returns The response containing the resized image.
+ */
+async function resizeImage(
+	{ isRelative, imageUrl, options }: ResizingProperties,
+	{
+		buildOutput,
+		assetsFetcher,
+		imagesConfig,
+		getFallbackTransformer,
+	}: ImageResizingOpts,
+): Promise<Response> {
+	const resizingRequest = new Request(imageUrl, { cf: { image: options } });
+	const resizedResp = await fetch(resizingRequest);
+
+	if (isResizedResp(resizedResp)) {
+		return formatResp(resizedResp, imageUrl, imagesConfig);
+	}
+
+	// The platform's image resizing is not available, so we got the original image back (the
+	// assets fetcher is used for static assets as the response could be an error for them).
+	const imageResp =
+		resizedResp.ok || !isRelative || !(imageUrl.pathname in buildOutput)
+			? resizedResp
+			: await assetsFetcher.fetch(imageUrl);
+
+	const fallbackTransformer = imageResp.ok
+		? await getFallbackTransformer?.()
+		: null;
+
+	if (fallbackTransformer) {
+		try {
+			const transformedResp = await fallbackTransformer(
+				imageResp.clone(),
+				options,
+			);
+			if (transformedResp) {
+				return formatResp(transformedResp, imageUrl, imagesConfig);
+			}
+		} catch (e) {
+			// eslint-disable-next-line no-console
+			console.error('Error while transforming image', e);
+		}
+	}
 
 	return formatResp(imageResp, imageUrl, imagesConfig);
 }
 
+/**
+ * Loads the fallback image transformer bundled during the build process.
+ *
+ * @returns The fallback image transformer.
+ */
+export async function loadFallbackImageTransformer(): Promise<ImageTransformer> {
+	const transformerPath = './__next-on-pages-dist__/images/transformer.js';
+	const transformerModule = await import(transformerPath);
+	return transformerModule.default;
+}
+
 type ImageResizingOpts = {
 	buildOutput: VercelBuildOutput;
 	assetsFetcher: Fetcher;
 	imagesConfig?: VercelImagesConfig;
+	/** Gets the transformer to use when the platform's image resizing is not available */
+	getFallbackTransformer?: () => Promise<ImageTransformer | null>;
+	/** Options for caching the resized images, they are not cached when not provided */
+	imagesCache?: {
+		/** Id of the current build, used to invalidate the cached same-origin images */
+		buildId: string;
+		ctx: ExecutionContext;
+	};
 };
+
+/** Name of the cache (in the Cache API) in which the resized images are stored. */
+const IMAGES_CACHE_NAME = 'next-on-pages-images';
+
+/**
+ * Builds the key used to store a resized image in the cache.
+ *
+ * The key is normalized so that all the requests for the same image, width, quality and format
+ * share the same entry. For same-origin images the build id is also part of the key, so that
+ * entries are invalidated by deployments (which can change the static assets).
+ *
+ * @param origin Origin of the incoming request.
+ * @param resizingProperties Properties for the image resizing.
+ * @param buildId Id of the current build.
+ * @returns The cache key for the resized image.
+ */
+export function getImageCacheKey(
+	origin: string,
+	{ isRelative, imageUrl, options }: ResizingProperties,
+	buildId: string,
+): string {
+	const cacheKey = new URL('/_next/image', origin);
+
+	cacheKey.searchParams.set('url', imageUrl.href);
+	cacheKey.searchParams.set('w', `${options.width}`);
+	cacheKey.searchParams.set('q', `${options.quality}`);
+	cacheKey.searchParams.set('f', options.format ?? 'original');
+	if (isRelative) {
+		cacheKey.searchParams.set('build', buildId);
+	}
+
+	return cacheKey.href;
+}
+
+/**
+ * Gets the time (in seconds) for which a resized image should be cached, which is the longest
+ * between the `minimumCacheTTL` from the config and the `max-age` of the image's response.
+ *
+ * https://nextjs.org/docs/app/api-reference/components/image#caching-behavior
+ *
+ * @param resp Response containing the resized image.
+ * @param minimumCacheTTL Minimum cache TTL from the images config.
+ * @returns The cache TTL, or null if the image should not be cached.
+ */
+export function getImageCacheTTL(
+	resp: Response,
+	minimumCacheTTL = 60,
+): number | null {
+	const cacheControl = resp.headers.get('Cache-Control') ?? '';
+	if (/no-store|private/i.test(cacheControl)) return null;
+
+	const maxAge = /(?:s-maxage|max-age)=(\d+)/i.exec(cacheControl)?.[1];
+	return Math.max(minimumCacheTTL, maxAge ? Number.parseInt(maxAge, 10) : 0);
+}
+
+/**
+ * Makes sure that a response has an `ETag` header, generating one from its body if needed.
+ *
+ * @param resp Response to add the `ETag` header to.
+ * @returns Mutable response containing an `ETag` header.
+ */
+async function withETag(resp: Response): Promise<Response> {
+	if (resp.headers.has('ETag')) return createMutableResponse(resp);
+
+	const body = await resp.arrayBuffer();
+	const digest = await crypto.subtle.digest('SHA-1', body);
+	const hash = [...new Uint8Array(digest)]
+		.map(byte => byte.toString(16).padStart(2, '0'))
+		.join('');
+
+	const newResp = new Response(body, resp);
+	newResp.headers.set('ETag', `"${hash}"`);
+	return newResp;
+}
+
+/**
+ * Checks whether an `If-None-Match` header matches an `ETag` (using a weak comparison).
+ *
+ * @param ifNoneMatch Value of the `If-None-Match` header.
+ * @param etag Value of the `ETag` header.
+ * @returns Whether the ETag matches.
+ */
+function isETagMatch(ifNoneMatch: string | null, etag: string): boolean {
+	if (!ifNoneMatch) return false;
+
+	const normalizedETag = etag.replace(/^W\//, '');
+	return ifNoneMatch
+		.split(',')
+		.map(tag => tag.trim())
+		.some(tag => tag === '*' || tag.replace(/^W\//, '') === normalizedETag);
+}
@@ -5,3 +5,6 @@ export * from './pcre';
 export * from './routing';
 export * from './images';
 export * from './fetch';
+export * from './trace';
+export * from './metrics';
+export * from './errors';
@@ -0,0 +1,286 @@
+import type { CacheAdaptor, CachedRouteValue } from '../../cache';
+import { NEXT_CACHE_IMPLICIT_TAG_ID, getDerivedTags } from '../../cache';
+import { getSuspenseCacheAdaptor, getSuspenseCacheAdaptorType } from './cache';
+import { recordCacheOperation } from './metrics';
+
+declare const __BUILD_METADATA__: NextOnPagesBuildMetadata;
+
+// Header used by Next.js to indicate whether a response was served from the cache.
+const NEXT_CACHE_HEADER = 'x-nextjs-cache';
+
+// Regenerations in progress in the isolate, to avoid regenerating the same route concurrently.
+const pendingRegenerations = new Map<
+	string,
+	Promise<CachedRouteValue | null>
+>();
+
+type IsrRouteOpts = {
+	/** The (matched) request for the route */
+	request: Request;
+	/** Execution context for the request */
+	ctx: ExecutionContext;
+	/** Renders the route with its edge function */
+	render: (request: Request) => Promise<Response>;
+	/** Serves the prerendered fallback of the route */
+	serveFallback: () => Promise<Response>;
+};
+
+/**
+ * Serves a prerendered route using Incremental Static Regeneration.
+ *
+ * The latest render of the route is served from the suspense cache, falling back to the file
+ * prerendered at build time. When the render has expired, or when there is no render yet, the
+ * route is regenerated in the background by its edge function and the render is saved in the
+ * suspense cache.
+ *
+ * When the route has been revalidated on-demand (i.e. with `revalidatePath`) since it was rendered,
+ * it is rendered by its edge function before responding instead.
+ *
+ * @param path The path of the prerendered route (i.e. its fallback file).
+ * @param isr The ISR config of the route.
+ * @param opts The request for the route and the functions to render it or serve its fallback.
+ * @returns The response for the route.
+ */
+export async function serveIsrRoute(
+	path: string,
+	{ expiration }: BuildOutputIsrConfig,
+	{ request, ctx, render, serveFallback }: IsrRouteOpts,
+): Promise<Response> {
+	if (request.method !== 'GET' && request.method !== 'HEAD') {
+		return render(request);
+	}
+
+	let cache: CacheAdaptor;
+	let cachedRender: CachedRouteValue | null = null;
+	let isStale = true;
+	let isRevalidated = false;
+	try {
+		cache = await getSuspenseCacheAdaptor();
+
+		const start = Date.now();
+		const entry = await cache.get(getIsrCacheKey(path), {});
+		if (entry?.value?.kind === 'ROUTE') {
+			cachedRender = entry.value;
+			isStale = entry.cacheState === 'stale';
+		}
+
+		// The fallback file was rendered when the application was built.
+		const renderedAt = cachedRender
+			? entry?.lastModified ?? 0
+			: __BUILD_METADATA__.buildTimestamp;
+		isRevalidated = await isRouteRevalidated(cache, path, renderedAt);
+
+		recordCacheOperation(ctx, getSuspenseCacheAdaptorType(), {
+			outcome: isRevalidated
+				? 'revalidated'
+				: !cachedRender
+				? 'miss'
+				: isStale
+				? 'stale'
+				: 'hit',
+			duration: Date.now() - start,
+		});
+	} catch (e) {
+		// eslint-disable-next-line no-console
+		console.error(e);
+		return serveFallback();
+	}
+
+	if (isStale || isRevalidated) {
+		const regeneration = regenerateRoute(
+			cache,
+			path,
+			expiration,
+			ctx,
+			async () => render(createRegenerationRequest(request, path)),
+		);
+
+		if (isRevalidated) {
+			// The previous render (or fallback) is outdated, so the fresh render is served instead.
+			const freshRender = await regeneration;
+			if (freshRender) {
+				return createRenderResponse(request, freshRender, 'MISS');
+			}
+		} else {
+			ctx.waitUntil(regeneration);
+		}
+	}
+
+	if (!cachedRender) {
+		return serveFallback();
+	}
+
+	return createRenderResponse(request, cachedRender, isStale ? 'STALE' : 'HIT');
+}
+
+/**
+ * Gets the key used for the render of an ISR route in the suspense cache.
+ *
+ * The key contains the build ID so that renders from previous deployments are not served.
+ *
+ * @param path The path of the prerendered route.
+ * @returns The key for the suspense cache.
+ */
+export function getIsrCacheKey(path: string): string {
+	return `isr/${__BUILD_METADATA__.buildId}${path}`;
+}
+
+/**
+ * Gets the implicit tags of an ISR route, which are revalidated when calling `revalidatePath`.
+ *
+ * @example
+ * ```ts
+ * getIsrRouteTags('/blog/hello.html'); // ['_N_T_/', '_N_T_/blog', '_N_T_/blog/hello']
+ * ```
+ *
+ * @param path The path of the prerendered route.
+ * @returns The implicit tags of the route.
+ */
+export function getIsrRouteTags(path: string): string[] {
+	const pathname =
+		path.replace(/\.(?:html|rsc)$/, '').replace(/\/index$/, '') || '/';
+
+	return [...new Set(getDerivedTags([pathname]))].map(
+		tag => `${NEXT_CACHE_IMPLICIT_TAG_ID}${tag}`,
+	);
+}
+
+/**
+ * Checks whether an ISR route has been revalidated on-demand since it was rendered.
+ *
+ * @param cache The suspense cache adaptor.
+ * @param path The path of the prerendered route.
+ * @param renderedAt Time at which the route was rendered.
+ * @returns Whether one of the route's implicit tags has been revalidated since it was rendered.
+ */
+async function isRouteRevalidated(
+	cache: CacheAdaptor,
+	path: string,
+	renderedAt: number,
+): Promise<boolean> {
+	const tags = getIsrRouteTags(path);
+	const tagsRevalidatedAt = await cache.getTagsRevalidatedAt(tags);
+
+	return tags.some(tag => {
+		const revalidatedAt = tagsRevalidatedAt[tag];
+		return !!revalidatedAt && revalidatedAt >= renderedAt;
+	});
+}
+
+/**
+ * Regenerates an ISR route and saves the render in the suspense cache (in the background).
+ *
+ * Only successful renders that can be shared between users are saved.
+ *
+ * @param cache The suspense cache adaptor.
+ * @param path The path of the prerendered route.
+ * @param expiration Time (in seconds) after which the render needs to be regenerated.
+ * @param ctx Execution context for the request.
+ * @param render Renders the route.
+ * @returns The new render, or null if the route could not be regenerated.
+ */
+async function regenerateRoute(
+	cache: CacheAdaptor,
+	path: string,
+	expiration: number,
+	ctx: ExecutionContext,
+	render: () => Promise<Response>,
+): Promise<CachedRouteValue | null> {
+	const key = getIsrCacheKey(path);
+
+	const pendingRegeneration = pendingRegenerations.get(key);
+	if (pendingRegeneration) return pendingRegeneration;
+
+	const regeneration = (async (): Promise<CachedRouteValue | null> => {
+		const response = await render();
+
+		const cacheControl = response.headers.get('cache-control') ?? '';
+		if (response.status !== 200 || /private|no-store/i.test(cacheControl)) {
+			return null;
+		}
+
+		const headers = Object.fromEntries(response.headers.entries());
+		delete headers['set-cookie'];
+		delete headers[NEXT_CACHE_HEADER];
+
+		const value: CachedRouteValue = {
+			kind: 'ROUTE',
+			body: toBase64(await response.arrayBuffer()),
+			status: response.status,
+			headers,
+			revalidate: expiration,
+		};
+
+		ctx.waitUntil(
+			cache.set(key, value).catch(e => {
+				// eslint-disable-next-line no-console
+				console.error(`Failed to save the render of the ISR route ${path}`, e);
+			}),
+		);
+
+		return value;
+	})()
+		.catch(e => {
+			// eslint-disable-next-line no-console
+			console.error(`Failed to regenerate the ISR route ${path}`, e);
+			return null;
+		})
+		.finally(() => pendingRegenerations.delete(key));
+
+	pendingRegenerations.set(key, regeneration);
+
+	return regeneration;
+}
+
+/**
+ * Creates the response for a render of an ISR route.
+ *
+ * @param request The request for the route.
+ * @param render The render of the route.
+ * @param cacheState The cache state of the render, set in the `x-nextjs-cache` header.
+ * @returns The response containing the render.
+ */
+function createRenderResponse(
+	request: Request,
+	{ body, status, headers }: CachedRouteValue,
+	cacheState: 'HIT' | 'STALE' | 'MISS',
+): Response {
+	const responseHeaders = new Headers(headers);
+	responseHeaders.set(NEXT_CACHE_HEADER, cacheState);
+
+	return new Response(request.method === 'HEAD' ? null : fromBase64(body), {
+		status,
+		headers: responseHeaders,
+	});
+}
+
+/**
+ * Creates the request used to regenerate an ISR route.
+ *
+ * The request doesn't contain the headers of the user (e.g. cookies), apart from requesting the RSC
+ * payload for `.rsc` routes, so that the render can be shared between users.
+ *
+ * @param request The request for the route.
+ * @param path The path of the prerendered route.
+ * @returns The request to render the route with.
+ */
+function createRegenerationRequest(request: Request, path: string): Request {
+	return new Request(request.url, {
+		headers: path.endsWith('.rsc') ? { rsc: '1' } : {},
+	});
+}
+
+function toBase64(buffer: ArrayBuffer): string {
+	const bytes = new Uint8Array(buffer);
+
+	let binary = '';
+	for (let i = 0; i < bytes.length; i += 0x8000) {
+		binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+	}
+
+	return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+	return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+}
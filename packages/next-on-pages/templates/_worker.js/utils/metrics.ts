@@ -0,0 +1,127 @@
+/**
+ * Outcome of a suspense cache operation:
+ * - `hit`: a fresh entry was served from the cache
+ * - `miss`: no entry was found in the cache
+ * - `stale`: a stale entry was served from the cache while being revalidated
+ * - `revalidated`: entries were revalidated on-demand (e.g. with `revalidateTag` or `revalidatePath`)
+ */
+export type CacheOutcome = 'hit' | 'miss' | 'stale' | 'revalidated';
+
+/**
+ * Metrics about the suspense cache operations performed for a request.
+ */
+export type CacheMetrics = {
+	/** The suspense cache adaptor in use */
+	adaptor: string;
+	/** Number of operations for each outcome */
+	outcomes: Record<CacheOutcome, number>;
+	/** Total time (in milliseconds) spent waiting for the cache storage */
+	storageDuration: number;
+};
+
+// Cache metrics of the requests, keyed by their execution context.
+const requestsCacheMetrics = new WeakMap<ExecutionContext, CacheMetrics>();
+
+/**
+ * Records a suspense cache operation in the metrics of a request.
+ *
+ * @param ctx Execution context of the request, nothing is recorded if it isn't available.
+ * @param adaptor The suspense cache adaptor in use.
+ * @param operation The outcome (if any) and storage duration (in milliseconds) of the operation.
+ */
+export function recordCacheOperation(
+	ctx: ExecutionContext | undefined,
+	adaptor: string,
+	{ outcome, duration }: { outcome?: CacheOutcome; duration: number },
+): void {
+	if (!ctx) return;
+
+	let metrics = requestsCacheMetrics.get(ctx);
+	if (!metrics) {
+		metrics = {
+			adaptor,
+			outcomes: { hit: 0, miss: 0, stale: 0, revalidated: 0 },
+			storageDuration: 0,
+		};
+		requestsCacheMetrics.set(ctx, metrics);
+	}
+
+	if (outcome) {
+		metrics.outcomes[outcome]++;
+	}
+	metrics.storageDuration += duration;
+}
+
+/**
+ * Gets the suspense cache metrics of a request.
+ *
+ * @param ctx Execution context of the request.
+ * @returns The metrics, or undefined if no cache operation was recorded for the request.
+ */
+export function getCacheMetrics(
+	ctx: ExecutionContext,
+): CacheMetrics | undefined {
+	return requestsCacheMetrics.get(ctx);
+}
+
+/**
+ * Formats the suspense cache metrics of a request as a `Server-Timing` header value.
+ *
+ * @example
+ * ```ts
+ * // cache;desc="kv";dur=12, cache-hit;desc="2", cache-miss;desc="1"
+ * ```
+ *
+ * @param metrics The cache metrics of the request.
+ * @returns The value for the `Server-Timing` header.
+ */
+export function formatCacheServerTiming({
+	adaptor,
+	outcomes,
+	storageDuration,
+}: CacheMetrics): string {
+	return [
+		`cache;desc="${adaptor}";dur=${storageDuration}`,
+		...Object.entries(outcomes)
+			.filter(([, count]) => count > 0)
+			.map(([outcome, count]) => `cache-${outcome};desc="${count}"`),
+	].join(', ');
+}
+
+/**
+ * Writes the suspense cache metrics of a request to an Analytics Engine dataset.
+ *
+ * The data points contain:
+ * - `index1`: the adaptor
+ * - `blob1`: the adaptor, `blob2`: the request's pathname
+ * - `double1` to `double4`: the number of hits, misses, stale and revalidated operations
+ * - `double5`: the storage duration (in milliseconds)
+ *
+ * @param dataset The Analytics Engine dataset (nothing is written if it isn't bound).
+ * @param metrics The cache metrics of the request.
+ * @param request The request.
+ */
+export function writeCacheAnalytics(
+	dataset: AnalyticsEngineDataset | undefined,
+	{ adaptor, outcomes, storageDuration }: CacheMetrics,
+	request: Request,
+): void {
+	if (!dataset) return;
+
+	try {
+		dataset.writeDataPoint({
+			indexes: [adaptor],
+			blobs: [adaptor, new URL(request.url).pathname],
+			doubles: [
+				outcomes.hit,
+				outcomes.miss,
+				outcomes.stale,
+				outcomes.revalidated,
+				storageDuration,
+			],
+		});
+	} catch (e) {
+		// eslint-disable-next-line no-console
+		console.error(e);
+	}
+}
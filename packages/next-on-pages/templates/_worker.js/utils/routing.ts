@@ -5,6 +5,8 @@ import {
 	createMutableResponse,
 	applySearchParams,
 } from './http';
+import { serveIsrRoute } from './isr';
+import { createItemErrorResponse, reportError } from './errors';
 
 export type MatchedSetHeaders = {
 	/**
@@ -90,31 +92,33 @@ export async function runOrFetchBuildOutputItem(
 		switch (item?.type) {
 			case 'function':
 			case 'middleware': {
-				const edgeFunction: EdgeFunction = await import(item.entrypoint);
-				try {
-					resp = await edgeFunction.default(req, ctx);
-				} catch (e) {
-					const err = e as Error;
-					if (
-						err.name === 'TypeError' &&
-						err.message.endsWith('default is not a function')
-					) {
-						throw new Error(
-							`An error occurred while evaluating the target edge function (${item.entrypoint})`,
-						);
-					}
-					throw e;
-				}
+				resp = await runEdgeFunction(item, req, ctx);
 				break;
 			}
 			case 'override': {
-				resp = createMutableResponse(
-					await assetsFetcher.fetch(createRouteRequest(req, item.path ?? path)),
-				);
+				const { isr } = item;
+				const serveOverride = async () => {
+					const overrideResp = createMutableResponse(
+						await assetsFetcher.fetch(
+							createRouteRequest(req, item.path ?? path),
+						),
+					);
+
+					if (item.headers) {
+						applyHeaders(overrideResp.headers, item.headers);
+					}
+					return overrideResp;
+				};
 
-				if (item.headers) {
-					applyHeaders(resp.headers, item.headers);
-				}
+				// ISR routes are served from the suspense cache, and regenerated by their edge function.
+				resp = isr
+					? await serveIsrRoute(item.path ?? path, isr, {
+							request: req,
+							ctx,
+							render: async request => runEdgeFunction(isr, request, ctx),
+							serveFallback: serveOverride,
+					  })
+					: await serveOverride();
 				break;
 			}
 			case 'static': {
@@ -128,12 +132,91 @@ export async function runOrFetchBuildOutputItem(
 	} catch (e) {
 		// eslint-disable-next-line no-console
 		console.error(e);
-		return new Response('Internal Server Error', { status: 500 });
+		reportError(e, req, { path, entrypoint: getItemEntrypoint(item) }, { ctx });
+		return createItemErrorResponse();
 	}
 
 	return createMutableResponse(resp);
 }
 
+/**
+ * Gets the entrypoint of the edge function run for a build output item (if any).
+ *
+ * @param item Build output item.
+ * @returns The entrypoint of the item's edge function, or null if it does not run one.
+ */
+function getItemEntrypoint(
+	item: VercelBuildOutputItem | undefined,
+): string | null {
+	switch (item?.type) {
+		case 'function':
+		case 'middleware':
+			return item.entrypoint;
+		case 'override':
+			return item.isr?.entrypoint ?? null;
+		default:
+			return null;
+	}
+}
+
+/**
+ * Runs an edge function from the build output.
+ *
+ * @param edgeFunctionInfo Entrypoint of the edge function, and module of its route group (if any).
+ * @param request Request to run the function with.
+ * @param ctx Execution context for the request.
+ * @returns Response from the edge function.
+ */
+async function runEdgeFunction(
+	{ entrypoint, routeGroup }: { entrypoint: string; routeGroup?: string },
+	request: Request,
+	ctx: ExecutionContext,
+): Promise<Response> {
+	const edgeFunction = await importEdgeFunction(entrypoint, routeGroup);
+	try {
+		return await edgeFunction.default(request, ctx);
+	} catch (e) {
+		const err = e as Error;
+		if (
+			err.name === 'TypeError' &&
+			err.message.endsWith('default is not a function')
+		) {
+			throw new Error(
+				`An error occurred while evaluating the target edge function (${entrypoint})`,
+			);
+		}
+		throw e;
+	}
+}
+
+/**
+ * Imports an edge function, from the module of its route group when the routes are grouped.
+ *
+ * Route group modules export a loader for each of their functions, so that only the function of
+ * the matched route is evaluated, after dynamically importing the shared chunks it imports that are
+ * not bundled in the group's module.
+ *
+ * @param entrypoint Entrypoint of the edge function.
+ * @param routeGroup Module of the edge function's route group (if any).
+ * @returns The edge function.
+ */
+async function importEdgeFunction(
+	entrypoint: string,
+	routeGroup?: string,
+): Promise<EdgeFunction> {
+	if (!routeGroup) return import(entrypoint);
+
+	const { loaders }: RouteGroupModule = await import(routeGroup);
+	const loader = loaders[entrypoint];
+	if (!loader) {
+		throw new Error(
+			`Could not find the edge function (${entrypoint}) in its route group (${routeGroup})`,
+		);
+	}
+
+	return loader();
+}
+
 /**
  * Checks if a source route's matcher uses the regex format for locales with a trailing slash, where
  * the locales specified are known.
@@ -0,0 +1,127 @@
+import type { RoutingTraceEvent } from '../routes-matcher';
+import { timingSafeEqual } from './http';
+
+/**
+ * Header enabling the routing trace, its value needs to match the secret set in the
+ * `__NEXT_ON_PAGES__ROUTING_TRACE_SECRET` environment variable.
+ *
+ * The trace is also returned in this header (unless it is requested as a JSON body).
+ */
+export const ROUTING_TRACE_HEADER = 'x-next-on-pages-trace';
+
+/**
+ * Header to set to `body` in order to get the routing trace as a JSON body instead of the response.
+ */
+export const ROUTING_TRACE_OUTPUT_HEADER = 'x-next-on-pages-trace-output';
+
+/**
+ * Maximum length of the trace returned in the response header, as larger headers can exceed the
+ * response headers' size limit.
+ */
+export const MAX_ROUTING_TRACE_HEADER_LENGTH = 8 * 1024;
+
+/**
+ * How the routing trace is returned, either in a response header or as a JSON body.
+ */
+export type RoutingTraceMode = 'header' | 'body';
+
+/**
+ * Trace of the routing process of a request.
+ */
+export type RoutingTrace = {
+	/** The events that happened during the routing process */
+	events: RoutingTraceEvent[];
+	/** The number of phases checked during the routing process */
+	checkPhaseCounter: number;
+	/** The middleware invoked during the routing process */
+	middlewareInvoked: string[];
+	/** The path and status resulting from the routing process */
+	result: {
+		path: string;
+		status?: number;
+	} /** Why the events have been omitted from the trace (when the trace is too big for a header) */;
+	truncated?: string;
+};
+
+/**
+ * Extracts the routing trace mode requested by the request (if any).
+ *
+ * The trace headers are removed from the request so that they don't reach the application.
+ *
+ * @param request the (adjusted) request to check, its headers need to be mutable.
+ * @param secret the routing trace secret set in the environment variables.
+ * @returns the mode for the routing trace, or null if the request should not be traced.
+ */
+export function extractRoutingTraceMode(
+	request: Request,
+	secret: string | undefined,
+): RoutingTraceMode | null {
+	const headerValue = request.headers.get(ROUTING_TRACE_HEADER);
+	const outputValue = request.headers.get(ROUTING_TRACE_OUTPUT_HEADER);
+
+	request.headers.delete(ROUTING_TRACE_HEADER);
+	request.headers.delete(ROUTING_TRACE_OUTPUT_HEADER);
+
+	if (
+		!secret ||
+		headerValue === null ||
+		!timingSafeEqual(headerValue, secret)
+	) {
+		return null;
+	}
+
+	return outputValue?.toLowerCase() === 'body' ? 'body' : 'header';
+}
+
+/**
+ * Adds a routing trace to a response.
+ *
+ * @param response the response for the traced request.
+ * @param trace the trace of the routing process.
+ * @param mode how the trace should be returned.
+ * @returns the response containing the trace.
+ */
+export function applyRoutingTrace(
+	response: Response,
+	trace: RoutingTrace,
+	mode: RoutingTraceMode,
+): Response {
+	if (mode === 'body') {
+		return new Response(
+			JSON.stringify({
+				...trace,
+				response: {
+					status: response.status,
+					headers: Object.fromEntries(response.headers.entries()),
+				},
+			}),
+			{ headers: { 'content-type': 'application/json' } },
+		);
+	}
+
+	let traceHeader = toAsciiJson(trace);
+	if (traceHeader.length > MAX_ROUTING_TRACE_HEADER_LENGTH) {
+		traceHeader = toAsciiJson({
+			...trace,
+			events: [],
+			truncated: `The ${trace.events.length} events of the trace are too big for a response header, set the '${ROUTING_TRACE_OUTPUT_HEADER}: body' request header to get the full trace.`,
+		});
+	}
+
+	const newResponse = new Response(response.body, response);
+	newResponse.headers.set(ROUTING_TRACE_HEADER, traceHeader);
+	return newResponse;
+}
+
+/**
+ * Serializes a value to JSON, escaping non-ascii characters so that it can be used as a header value.
+ *
+ * @param value the value to serialize.
+ * @returns the ascii only JSON string.
+ */
+function toAsciiJson(value: unknown): string {
+	return JSON.stringify(value).replace(
+		/[\u007f-\uffff]/g,
+		char => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`,
+	);
+}
@@ -2,19 +2,34 @@
 export const SUSPENSE_CACHE_URL = 'INTERNAL_SUSPENSE_CACHE_HOSTNAME.local';
 
 // https://github.com/vercel/next.js/blob/f6babb4/packages/next/src/lib/constants.ts#23
-const NEXT_CACHE_IMPLICIT_TAG_ID = '_N_T_';
+export const NEXT_CACHE_IMPLICIT_TAG_ID = '_N_T_';
 
 // Set to track the revalidated tags in requests.
 const revalidatedTags = new Set<string>();
 
 /** Generic adaptor for the Suspense Cache. */
 export class CacheAdaptor {
-	/** The tags manifest for fetch calls. */
-	public tagsManifest: TagsManifest | undefined;
-	/** The key used for the tags manifest in the cache. */
+	/**
+	 * The key used for the tags manifest in the cache, each tag is stored in its own entries
+	 * prefixed by this key.
+	 */
 	public tagsManifestKey = 'tags-manifest';
-	/** Promise that resolves when tags manifest is loaded */
-	public tagsManifestPromise: Promise<void> | undefined;
+	/**
+	 * How long (in seconds) entries are kept after they need to be revalidated, during which they
+	 * are served stale while being revalidated in the background.
+	 */
+	public staleTtl = 60 * 60 * 24 * 7; // 1 week
+	/**
+	 * Maximum number of the (version 1) tags manifest's items (tag revalidations and tag keys)
+	 * migrated to per-tag entries at once, so that migrating a large tags manifest stays within the
+	 * storage operations limit of a request.
+	 */
+	public tagsManifestMigrationBatchSize = 50;
+	/**
+	 * The (version 1) tags manifest being migrated to per-tag entries, loaded once per adaptor as it
+	 * isn't updated anymore (null when there is no tags manifest left to migrate).
+	 */
+	private legacyTagsManifest: Promise<TagsManifest | null> | undefined;
 
 	/**
 	 * @param ctx The incremental cache context from Next.js. NOTE: This is not currently utilised in NOP.
@@ -36,6 +51,7 @@ export class CacheAdaptor {
 	 *
 	 * @param key Key for the item.
 	 * @param value The value to update.
+	 * @param revalidate Time (in seconds) after which the entry can be removed from the storage.
 	 */
 	public async update(
 		key: string,
@@ -45,6 +61,33 @@ export class CacheAdaptor {
 		throw new Error(`Method not implemented - ${key}, ${value}, ${revalidate}`);
 	}
 
+	/**
+	 * Lists the keys of the entries in the storage mechanism that start with a prefix.
+	 *
+	 * Storage mechanisms that can list their entries store each of a tag's keys in its own entry, so
+	 * that concurrent updates of the tag don't override each other. The other ones store the keys of
+	 * a tag in a single entry, which is read and rewritten when caching an item with the tag: items
+	 * cached concurrently with the same tag can then override each other's keys, and such items are
+	 * not removed when the tag is revalidated (they are still treated as stale based on the tag's
+	 * revalidated at timestamp). Adaptors should implement this method whenever their storage can
+	 * list its entries.
+	 *
+	 * @param prefix Prefix of the keys to list.
+	 * @returns The keys starting with the prefix.
+	 */
+	public listKeys?(prefix: string): Promise<string[]>;
+
+	/**
+	 * Removes an entry from the storage mechanism.
+	 *
+	 * By default the entry is overridden with an empty value, which is treated as a missing entry.
+	 *
+	 * @param key Key for the item.
+	 */
+	public async delete(key: string): Promise<void> {
+		await this.update(key, '');
+	}
+
 	/**
 	 * Puts a new entry in the suspense cache.
 	 *
@@ -57,11 +100,11 @@ export class CacheAdaptor {
 			value,
 		};
 
-		// Update the cache entry.
+		// Update the cache entry, keeping it after it needs to be revalidated so that it can be served stale.
 		const updateOp = this.update(
 			key,
 			JSON.stringify(newEntry),
-			value.revalidate,
+			this.getStorageTtl(newEntry),
 		);
 
 		switch (newEntry.value?.kind) {
@@ -88,6 +131,9 @@ export class CacheAdaptor {
 	/**
 	 * Retrieves an entry from the suspense cache.
 	 *
+	 * Entries that need to be revalidated (because their `revalidate` time has passed or because
+	 * one of their tags has been revalidated) are returned with a `stale` cache state.
+	 *
 	 * @param key Key for the item in the suspense cache.
 	 * @param opts Soft cache tags used when checking if an entry is stale.
 	 * @returns The cached value, or null if no entry exists.
@@ -97,12 +143,7 @@ export class CacheAdaptor {
 		{ softTags }: { softTags?: string[] },
 	): Promise<CacheHandlerValue | null> {
 		// Get entry from the cache.
-		const entryPromise = this.retrieve(key);
-
-		// Start loading the tags manifest.
-		const tagsManifestLoad = this.loadTagsManifest();
-
-		const entry = await entryPromise;
+		const entry = await this.retrieve(key);
 		if (!entry) return null;
 
 		let data: CacheHandlerValue;
@@ -115,28 +156,35 @@ export class CacheAdaptor {
 
 		switch (data.value?.kind) {
 			case 'FETCH': {
-				// Await for the tags manifest to end loading.
-				await tagsManifestLoad;
-
 				// Check if the cache entry is stale or fresh based on the tags.
 				const tags = getTagsFromEntry(data);
 				const combinedTags = softTags
 					? [...tags, ...softTags]
 					: getDerivedTags(tags);
 
-				const isStale = combinedTags.some(tag => {
-					// If a revalidation has been triggered, the current entry is stale.
-					if (revalidatedTags.has(tag)) return true;
+				// If a revalidation has been triggered during this request, don't return the entry.
+				if (combinedTags.some(tag => revalidatedTags.has(tag))) return null;
 
-					const tagEntry = this.tagsManifest?.items?.[tag];
-					return (
-						tagEntry?.revalidatedAt &&
-						tagEntry?.revalidatedAt >= (data.lastModified ?? Date.now())
-					);
-				});
+				const tagsRevalidatedAt = await this.getTagsRevalidatedAt(combinedTags);
+				const lastModified = data.lastModified ?? Date.now();
+
+				const isStale =
+					combinedTags.some(tag => {
+						const revalidatedAt = tagsRevalidatedAt[tag];
+						return revalidatedAt && revalidatedAt >= lastModified;
+					}) ||
+					(!!data.value.revalidate &&
+						lastModified + data.value.revalidate * 1000 <= Date.now());
+
+				// Stale entries are returned so that they can be used while revalidating.
+				return isStale ? { ...data, cacheState: 'stale' } : data;
+			}
+			case 'ROUTE': {
+				const lastModified = data.lastModified ?? Date.now();
+				const isStale =
+					lastModified + data.value.revalidate * 1000 <= Date.now();
 
-				// Don't return stale data from the cache.
-				return isStale ? null : data;
+				return isStale ? { ...data, cacheState: 'stale' } : data;
 			}
 			default: {
 				return data;
@@ -157,83 +205,245 @@ export class CacheAdaptor {
 	}
 
 	/**
-	 * Loads the tags manifest from the suspense cache.
+	 * Gets the timestamps at which tags were last revalidated.
 	 *
-	 * @param force Whether to force a reload of the tags manifest.
+	 * @param tags Tags to get the revalidated at timestamps for.
+	 * @returns The revalidated at timestamps of the tags that have been revalidated.
 	 */
-	public async loadTagsManifest(force = false): Promise<void> {
-		// Load tags manifest if missing or refresh if forced.
-		const shouldLoad = force || !this.tagsManifest;
+	public async getTagsRevalidatedAt(
+		tags: string[],
+	): Promise<Record<string, number | undefined>> {
+		const [values, tagsManifest] = await Promise.all([
+			Promise.all(
+				tags.map(async tag =>
+					this.retrieve(this.buildTagKey(tag, 'revalidated-at')),
+				),
+			),
+			this.getLegacyTagsManifest(),
+		]);
+
+		return Object.fromEntries(
+			tags.map((tag, i) => [
+				tag,
+				values[i] ? Number(values[i]) : tagsManifest?.items[tag]?.revalidatedAt,
+			]),
+		);
+	}
 
-		if (!shouldLoad) {
-			return;
-		}
+	/**
+	 * Gets the keys of the items in the suspense cache that have a tag.
+	 *
+	 * @param tag Tag to get the keys for.
+	 * @returns The keys of the items with the tag.
+	 */
+	public async getTagKeys(tag: string): Promise<string[]> {
+		const [tagKeys, tagsManifest] = await Promise.all([
+			this.retrieveTagKeys(tag),
+			this.getLegacyTagsManifest(),
+		]);
+
+		const legacyKeys = tagsManifest?.items[tag]?.keys ?? [];
+		return [...new Set([...tagKeys, ...legacyKeys])];
+	}
 
-		// If the tags manifest is not already being loaded, kickstart the retrieval.
-		if (!this.tagsManifestPromise) {
-			this.tagsManifestPromise = this.loadTagsManifestInternal();
-		}
+	/**
+	 * Sets the tags for an item in the suspense cache.
+	 *
+	 * Each tag is stored in its own entries (one for its revalidated at timestamp and one for each of
+	 * its keys), so that updating a tag doesn't override the updates made to it or to other tags.
+	 *
+	 * @param tags Tags for the key.
+	 * @param setTagsInfo Key for the item in the suspense cache, or the new revalidated at timestamp.
+	 */
+	public async setTags(
+		tags: string[],
+		{ cacheKey, revalidatedAt }: { cacheKey?: string; revalidatedAt?: number },
+	): Promise<void> {
+		await Promise.all(
+			tags.map(async tag => {
+				if (revalidatedAt) {
+					await this.update(
+						this.buildTagKey(tag, 'revalidated-at'),
+						`${revalidatedAt}`,
+					);
+				}
 
-		await this.tagsManifestPromise;
+				if (cacheKey) {
+					await this.addTagKeys(tag, [cacheKey]);
+				}
+			}),
+		);
 	}
 
 	/**
-	 * Internal method to load the tags manifest from the suspense cache.
+	 * Migrates the next batch of the (version 1) tags manifest's items to per-tag entries, saving the
+	 * progress of the migration. Until the whole tags manifest has been migrated, the tags that
+	 * haven't been migrated yet are read from it.
+	 *
+	 * The migration is run in the background of the requests using the suspense cache, one batch per
+	 * request.
 	 */
-	private async loadTagsManifestInternal(): Promise<void> {
-		try {
-			const rawManifest = await this.retrieve(this.tagsManifestKey);
-			if (rawManifest) {
-				this.tagsManifest = JSON.parse(rawManifest) as TagsManifest;
-			}
-		} catch (e) {
-			// noop
+	public async migrateTagsManifest(): Promise<void> {
+		const tagsManifest = await this.getLegacyTagsManifest();
+		if (!tagsManifest) return;
+
+		const progressKey = `${this.tagsManifestKey}/migration-progress`;
+		const migratedCount = Number(await this.retrieve(progressKey)) || 0;
+
+		const items = Object.entries(tagsManifest.items).flatMap(
+			([tag, { keys, revalidatedAt }]) => [
+				...(revalidatedAt ? [{ tag, revalidatedAt }] : []),
+				...keys.map(key => ({ tag, key })),
+			],
+		);
+		const batch = items.slice(
+			migratedCount,
+			migratedCount + this.tagsManifestMigrationBatchSize,
+		);
+
+		const batchTags = new Map<
+			string,
+			{ keys: string[]; revalidatedAt?: number }
+		>();
+		for (const item of batch) {
+			const batchTag = batchTags.get(item.tag) ?? { keys: [] };
+			if ('key' in item) batchTag.keys.push(item.key);
+			else batchTag.revalidatedAt = item.revalidatedAt;
+			batchTags.set(item.tag, batchTag);
+		}
+
+		await Promise.all(
+			[...batchTags].map(async ([tag, { keys, revalidatedAt }]) => {
+				const revalidatedAtKey = this.buildTagKey(tag, 'revalidated-at');
+				// Don't override revalidations that happened after the tag was already migrated.
+				if (revalidatedAt && !(await this.retrieve(revalidatedAtKey))) {
+					await this.update(revalidatedAtKey, `${revalidatedAt}`);
+				}
+
+				if (keys.length) {
+					await this.addTagKeys(tag, keys);
+				}
+			}),
+		);
+
+		if (migratedCount + batch.length < items.length) {
+			await this.update(progressKey, `${migratedCount + batch.length}`);
+			return;
 		}
 
-		this.tagsManifest ??= { version: 1, items: {} };
-		this.tagsManifestPromise = undefined;
+		const migratedManifest: MigratedTagsManifest = { version: 2 };
+		await this.update(this.tagsManifestKey, JSON.stringify(migratedManifest));
+		this.legacyTagsManifest = Promise.resolve(null);
 	}
 
 	/**
-	 * Saves the local tags manifest in the suspence cache.
+	 * Gets the (version 1) tags manifest, if it hasn't been fully migrated to per-tag entries yet.
+	 *
+	 * @returns The tags manifest, or null if there is no tags manifest left to migrate.
 	 */
-	public async saveTagsManifest(): Promise<void> {
-		if (this.tagsManifest) {
-			const newValue = JSON.stringify(this.tagsManifest);
-			await this.update(this.tagsManifestKey, newValue);
-		}
+	private async getLegacyTagsManifest(): Promise<TagsManifest | null> {
+		this.legacyTagsManifest ??= this.retrieve(this.tagsManifestKey)
+			.then(rawManifest => {
+				let tagsManifest: TagsManifest | MigratedTagsManifest | undefined;
+				try {
+					if (rawManifest) {
+						tagsManifest = JSON.parse(rawManifest) as TagsManifest;
+					}
+				} catch (e) {
+					// noop
+				}
+
+				return tagsManifest?.version === 1 ? tagsManifest : null;
+			})
+			.catch(() => {
+				// Retry loading the tags manifest next time.
+				this.legacyTagsManifest = undefined;
+				return null;
+			});
+
+		return this.legacyTagsManifest;
 	}
 
 	/**
-	 * Sets the tags for an item in the suspense cache's tags manifest.
+	 * Adds keys to the keys of the items in the suspense cache that have a tag.
 	 *
-	 * @param tags Tags for the key.
-	 * @param setTagsInfo Key for the item in the suspense cache, or the new revalidated at timestamp.
+	 * @param tag Tag to add the keys to.
+	 * @param keys Keys to add.
 	 */
-	public async setTags(
-		tags: string[],
-		{ cacheKey, revalidatedAt }: { cacheKey?: string; revalidatedAt?: number },
-	): Promise<void> {
-		await this.loadTagsManifest(true);
-
-		// eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-		const tagsManifest = this.tagsManifest!;
+	private async addTagKeys(tag: string, keys: string[]): Promise<void> {
+		if (this.listKeys) {
+			await Promise.all(
+				keys.map(async key => this.update(this.buildTagKeyKey(tag, key), key)),
+			);
+			return;
+		}
 
-		for (const tag of tags) {
-			const data = tagsManifest.items[tag] ?? { keys: [] };
+		const tagKeys = await this.retrieveTagKeys(tag);
+		const newKeys = keys.filter(key => !tagKeys.includes(key));
 
-			if (cacheKey && !data.keys.includes(cacheKey)) {
-				data.keys.push(cacheKey);
-			}
+		if (newKeys.length) {
+			await this.update(
+				this.buildTagKey(tag, 'keys'),
+				JSON.stringify([...tagKeys, ...newKeys]),
+			);
+		}
+	}
 
-			if (revalidatedAt) {
-				data.revalidatedAt = revalidatedAt;
-			}
+	/**
+	 * Retrieves the keys of the items in the suspense cache that have a tag.
+	 *
+	 * @param tag Tag to get the keys for.
+	 * @returns The keys of the items with the tag.
+	 */
+	private async retrieveTagKeys(tag: string): Promise<string[]> {
+		if (this.listKeys) {
+			const prefix = this.buildTagKeyKey(tag, '');
+			const tagKeyKeys = await this.listKeys(prefix);
+			return tagKeyKeys.map(tagKeyKey =>
+				decodeURIComponent(tagKeyKey.slice(prefix.length)),
+			);
+		}
 
-			tagsManifest.items[tag] = data;
+		try {
+			const rawKeys = await this.retrieve(this.buildTagKey(tag, 'keys'));
+			return rawKeys ? (JSON.parse(rawKeys) as string[]) : [];
+		} catch (e) {
+			return [];
 		}
+	}
 
-		await this.saveTagsManifest();
+	/**
+	 * Builds the key of the entry storing one of the keys of a tag (for storage mechanisms that can
+	 * list their entries).
+	 *
+	 * @param tag The tag.
+	 * @param key Key of an item with the tag.
+	 * @returns The key for the tag's key entry.
+	 */
+	private buildTagKeyKey(tag: string, key: string): string {
+		return `${this.buildTagKey(tag, 'keys')}/${encodeURIComponent(key)}`;
+	}
+
+	/**
+	 * Builds the key used for the entries of a tag.
+	 *
+	 * @param tag The tag.
+	 * @param entry The entry of the tag, either its revalidated at timestamp or its keys.
+	 * @returns The key for the tag's entry.
+	 */
+	public buildTagKey(tag: string, entry: 'revalidated-at' | 'keys'): string {
+		return `${this.tagsManifestKey}/${encodeURIComponent(tag)}/${entry}`;
+	}
+
+	/**
+	 * Gets how long (in seconds) an entry should be kept in the storage.
+	 *
+	 * @param entry The cache entry.
+	 * @returns The time to keep the entry for, or undefined if it should be kept indefinitely.
+	 */
+	public getStorageTtl(entry: CacheHandlerValue): number | undefined {
+		const revalidate = entry.value?.revalidate;
+		return revalidate ? revalidate + this.staleTtl : undefined;
 	}
 
 	/**
@@ -253,6 +463,8 @@ export type TagsManifest = {
 	items: { [tag: string]: TagsManifestItem };
 };
 export type TagsManifestItem = { keys: string[]; revalidatedAt?: number };
+// Tags manifest left after migrating the tags to per-tag entries.
+type MigratedTagsManifest = { version: 2 };
 
 // https://github.com/vercel/next.js/blob/df4c2aa8/packages/next/src/server/response-cache/types.ts#L24
 export type CachedFetchValue = {
@@ -271,13 +483,23 @@ export type CachedFetchValue = {
 	revalidate: number;
 };
 
+// Adapted from https://github.com/vercel/next.js/blob/df4c2aa8/packages/next/src/server/response-cache/types.ts
+export type CachedRouteValue = {
+	kind: 'ROUTE';
+	// base64 encoded body of the response
+	body: string;
+	status: number;
+	headers: { [k: string]: string };
+	revalidate: number;
+};
+
 export type CacheHandlerValue = {
 	lastModified?: number;
 	age?: number;
 	cacheState?: string;
 	value: IncrementalCacheValue | null;
 };
-export type IncrementalCacheValue = CachedFetchValue;
+export type IncrementalCacheValue = CachedFetchValue | CachedRouteValue;
 
 /**
  * Derives a list of tags from the given tags. This is taken from the Next.js source code.
@@ -315,5 +537,7 @@ export function getDerivedTags(tags: string[]): string[] {
 }
 
 export function getTagsFromEntry(entry: CacheHandlerValue): string[] {
+	if (entry.value?.kind === 'ROUTE') return [];
+
 	return entry.value?.tags ?? entry.value?.data?.tags ?? [];
 }
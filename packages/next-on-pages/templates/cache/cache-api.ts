@@ -31,4 +31,10 @@ export default class CacheApiAdaptor extends CacheAdaptor {
 		});
 		await cache.put(this.buildCacheKey(key), response);
 	}
+
+	public override async delete(key: string) {
+		const cache = await caches.open(this.cacheName);
+
+		await cache.delete(this.buildCacheKey(key));
+	}
 }
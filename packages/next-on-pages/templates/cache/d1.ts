@@ -0,0 +1,209 @@
+import { CacheAdaptor } from './adaptor.js';
+
+/**
+ * Migrations for the schema of the suspense cache tables, each migration is applied (in order)
+ * once per database.
+ */
+const migrations: string[][] = [
+	[
+		`CREATE TABLE IF NOT EXISTS suspense_cache_entries (
+			key TEXT PRIMARY KEY,
+			value TEXT NOT NULL,
+			expires_at INTEGER
+		)`,
+		`CREATE TABLE IF NOT EXISTS suspense_cache_tags (
+			tag TEXT PRIMARY KEY,
+			revalidated_at INTEGER
+		)`,
+		`CREATE TABLE IF NOT EXISTS suspense_cache_tag_keys (
+			tag TEXT NOT NULL,
+			key TEXT NOT NULL,
+			PRIMARY KEY (tag, key)
+		)`,
+	],
+];
+
+/** Promises that resolve when the schema of the suspense cache tables is up to date, per database. */
+const schemaReady = new WeakMap<D1Database, Promise<void>>();
+
+/**
+ * Suspense Cache adaptor for D1.
+ *
+ * Entries are stored in a table, and so are the tags (instead of a tags manifest), so that revalidating
+ * a tag only needs to update its row.
+ */
+export default class D1Adaptor extends CacheAdaptor {
+	constructor(ctx: Record<string, unknown> = {}) {
+		super(ctx);
+	}
+
+	public override async retrieve(key: string) {
+		const db = await getDatabase();
+
+		const value = await db
+			.prepare(
+				'SELECT value FROM suspense_cache_entries WHERE key = ?1 AND (expires_at IS NULL OR expires_at > ?2)',
+			)
+			.bind(this.buildCacheKey(key), Date.now())
+			.first<string>('value');
+
+		return value ?? null;
+	}
+
+	public override async update(
+		key: string,
+		value: string,
+		revalidate?: number,
+	) {
+		const db = await getDatabase();
+
+		const expiresAt = revalidate ? Date.now() + revalidate * 1000 : null;
+
+		await db
+			.prepare(
+				`INSERT INTO suspense_cache_entries (key, value, expires_at) VALUES (?1, ?2, ?3)
+				ON CONFLICT (key) DO UPDATE SET value = excluded.value, expires_at = excluded.expires_at`,
+			)
+			.bind(this.buildCacheKey(key), value, expiresAt)
+			.run();
+	}
+
+	public override async delete(key: string) {
+		const db = await getDatabase();
+
+		await db
+			.prepare('DELETE FROM suspense_cache_entries WHERE key = ?1')
+			.bind(this.buildCacheKey(key))
+			.run();
+	}
+
+	public override async migrateTagsManifest() {
+		// noop, the tags have always been stored in their own table
+	}
+
+	public override async getTagsRevalidatedAt(tags: string[]) {
+		if (!tags.length) return {};
+
+		const db = await getDatabase();
+
+		// The tags are bound as a single JSON array, as D1 limits the number of bound parameters.
+		const { results } = await db
+			.prepare(
+				`SELECT tag, revalidated_at FROM suspense_cache_tags
+				WHERE revalidated_at IS NOT NULL AND tag IN (SELECT value FROM json_each(?1))`,
+			)
+			.bind(JSON.stringify(tags))
+			.all<{ tag: string; revalidated_at: number }>();
+
+		return Object.fromEntries(
+			results.map(({ tag, revalidated_at }) => [tag, revalidated_at]),
+		);
+	}
+
+	public override async getTagKeys(tag: string) {
+		const db = await getDatabase();
+
+		const { results } = await db
+			.prepare('SELECT key FROM suspense_cache_tag_keys WHERE tag = ?1')
+			.bind(tag)
+			.all<{ key: string }>();
+
+		return results.map(({ key }) => key);
+	}
+
+	public override async setTags(
+		tags: string[],
+		{ cacheKey, revalidatedAt }: { cacheKey?: string; revalidatedAt?: number },
+	) {
+		if (!tags.length) return;
+
+		const db = await getDatabase();
+
+		const statements = tags.flatMap(tag => [
+			revalidatedAt
+				? db
+						.prepare(
+							`INSERT INTO suspense_cache_tags (tag, revalidated_at) VALUES (?1, ?2)
+							ON CONFLICT (tag) DO UPDATE SET revalidated_at = excluded.revalidated_at`,
+						)
+						.bind(tag, revalidatedAt)
+				: db
+						.prepare(
+							'INSERT OR IGNORE INTO suspense_cache_tags (tag) VALUES (?1)',
+						)
+						.bind(tag),
+			...(cacheKey
+				? [
+						db
+							.prepare(
+								'INSERT OR IGNORE INTO suspense_cache_tag_keys (tag, key) VALUES (?1, ?2)',
+							)
+							.bind(tag, cacheKey),
+				  ]
+				: []),
+		]);
+
+		await db.batch(statements);
+	}
+}
+
+/**
+ * Gets the D1 database for the suspense cache, making sure that its schema is up to date.
+ *
+ * @returns The D1 database.
+ */
+async function getDatabase(): Promise<D1Database> {
+	const db = process.env.__NEXT_ON_PAGES__D1_SUSPENSE_CACHE;
+	if (!db) {
+		throw new Error(
+			'The `__NEXT_ON_PAGES__D1_SUSPENSE_CACHE` D1 binding is not available.',
+		);
+	}
+
+	let dbSchemaReady = schemaReady.get(db);
+	if (!dbSchemaReady) {
+		dbSchemaReady = migrateSchema(db).catch(e => {
+			// Retry the migration on the next use.
+			schemaReady.delete(db);
+			throw e;
+		});
+		schemaReady.set(db, dbSchemaReady);
+	}
+	await dbSchemaReady;
+
+	return db;
+}
+
+/**
+ * Creates the suspense cache tables, or migrates them to the latest schema.
+ *
+ * @param db The D1 database.
+ */
+async function migrateSchema(db: D1Database): Promise<void> {
+	await db
+		.prepare(
+			'CREATE TABLE IF NOT EXISTS suspense_cache_migrations (version INTEGER PRIMARY KEY, applied_at INTEGER NOT NULL)',
+		)
+		.run();
+
+	const currentVersion =
+		(await db
+			.prepare('SELECT MAX(version) AS version FROM suspense_cache_migrations')
+			.first<number | null>('version')) ?? 0;
+
+	for (
+		let version = currentVersion + 1;
+		version <= migrations.length;
+		version++
+	) {
+		await db.batch([
+			// eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+			...migrations[version - 1]!.map(query => db.prepare(query)),
+			db
+				.prepare(
+					'INSERT OR IGNORE INTO suspense_cache_migrations (version, applied_at) VALUES (?1, ?2)',
+				)
+				.bind(version, Date.now()),
+		]);
+	}
+}
@@ -31,4 +31,32 @@ export default class KVAdaptor extends CacheAdaptor {
 			expiry,
 		);
 	}
+
+	public override async listKeys(prefix: string) {
+		const kv = process.env.__NEXT_ON_PAGES__KV_SUSPENSE_CACHE;
+		if (!kv) return [];
+
+		const keys: string[] = [];
+		let cursor: string | undefined;
+		do {
+			const result = await kv.list({
+				prefix: this.buildCacheKey(prefix),
+				cursor,
+			});
+			keys.push(
+				...result.keys.map(({ name }) =>
+					name.slice(this.buildCacheKey('').length),
+				),
+			);
+			cursor = result.list_complete ? undefined : result.cursor;
+		} while (cursor);
+
+		return keys;
+	}
+
+	public override async delete(key: string) {
+		await process.env.__NEXT_ON_PAGES__KV_SUSPENSE_CACHE?.delete(
+			this.buildCacheKey(key),
+		);
+	}
 }
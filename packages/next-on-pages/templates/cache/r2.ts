@@ -0,0 +1,111 @@
+import type { CacheHandlerValue } from './adaptor.js';
+import { CacheAdaptor } from './adaptor.js';
+
+/**
+ * Suspense Cache adaptor for R2.
+ *
+ * Entries are stored as objects, with their last modified timestamp and expiry saved in the objects'
+ * custom metadata (their tags are kept in the tags' entries, as the custom metadata is limited to
+ * 2 KiB). Contrary to KV, R2 doesn't limit the size of the values that can be stored, making it
+ * suitable for large fetch responses.
+ */
+export default class R2Adaptor extends CacheAdaptor {
+	constructor(ctx: Record<string, unknown> = {}) {
+		super(ctx);
+	}
+
+	public override async retrieve(key: string) {
+		const object = await process.env.__NEXT_ON_PAGES__R2_SUSPENSE_CACHE?.get(
+			this.buildCacheKey(key),
+		);
+		if (!object) return null;
+
+		const { expiresAt } = (object.customMetadata ?? {}) as R2EntryMetadata;
+		if (expiresAt && Number(expiresAt) <= Date.now()) {
+			// R2 objects don't expire, so expired entries are treated as missing.
+			return null;
+		}
+
+		return object.text();
+	}
+
+	public override async update(
+		key: string,
+		value: string,
+		revalidate?: number,
+	) {
+		await process.env.__NEXT_ON_PAGES__R2_SUSPENSE_CACHE?.put(
+			this.buildCacheKey(key),
+			value,
+			{
+				httpMetadata: { contentType: 'application/json' },
+				customMetadata: getCustomMetadata(value, revalidate),
+			},
+		);
+	}
+
+	public override async listKeys(prefix: string) {
+		const bucket = process.env.__NEXT_ON_PAGES__R2_SUSPENSE_CACHE;
+		if (!bucket) return [];
+
+		const keys: string[] = [];
+		let cursor: string | undefined;
+		do {
+			const result = await bucket.list({
+				prefix: this.buildCacheKey(prefix),
+				cursor,
+			});
+			keys.push(
+				...result.objects.map(({ key }) =>
+					key.slice(this.buildCacheKey('').length),
+				),
+			);
+			cursor = result.truncated ? result.cursor : undefined;
+		} while (cursor);
+
+		return keys;
+	}
+
+	public override async delete(key: string) {
+		await process.env.__NEXT_ON_PAGES__R2_SUSPENSE_CACHE?.delete(
+			this.buildCacheKey(key),
+		);
+	}
+}
+
+/** Custom metadata stored alongside the R2 objects (R2 only supports string values). */
+type R2EntryMetadata = {
+	/** Timestamp of when the entry was last modified */
+	lastModified?: string;
+	/** Timestamp after which the entry is expired */
+	expiresAt?: string;
+};
+
+/**
+ * Gets the custom metadata to store alongside a value in R2.
+ *
+ * @param value The value to store.
+ * @param revalidate The revalidation time for the value (in seconds).
+ * @returns The custom metadata for the value.
+ */
+function getCustomMetadata(
+	value: string,
+	revalidate?: number,
+): R2EntryMetadata {
+	const customMetadata: R2EntryMetadata = {};
+
+	if (revalidate) {
+		customMetadata.expiresAt = `${Date.now() + revalidate * 1000}`;
+	}
+
+	try {
+		const entry = JSON.parse(value) as CacheHandlerValue;
+		if (entry.lastModified) {
+			customMetadata.lastModified = `${entry.lastModified}`;
+		}
+	} catch {
+		// The value is not a cache entry (e.g. a tag's entry).
+	}
+
+	return customMetadata;
+}
@@ -0,0 +1,140 @@
+import type { CacheHandlerValue } from './adaptor.js';
+import { CacheAdaptor } from './adaptor.js';
+import CacheApiAdaptor from './cache-api.js';
+import KVAdaptor from './kv.js';
+
+/**
+ * Suspense Cache adaptor using the Cache API in front of Workers KV.
+ *
+ * Entries are read from the (per data-center) Cache API first and from KV (global) on a miss, in
+ * which case the Cache API is populated with the KV entry. Updates are written to both storages.
+ *
+ * The tags are stored in KV, so that tag revalidations are visible from all the data centers
+ * (entries revalidated in other data centers are then treated as stale when read). To avoid a KV
+ * read per tag on every read, the tags' revalidated at timestamps are also cached in the Cache API
+ * for a short time (`tagsLocalTtl`), so revalidations made in other data centers can take that
+ * long to be seen.
+ */
+export default class TieredAdaptor extends CacheAdaptor {
+	/** The per data-center tier. */
+	public local: CacheApiAdaptor;
+	/** The global tier. */
+	public global: KVAdaptor;
+	/**
+	 * How long (in seconds) the tags' revalidated at timestamps are cached in the local tier.
+	 */
+	public tagsLocalTtl = 10;
+
+	constructor(ctx: Record<string, unknown> = {}) {
+		super(ctx);
+
+		this.local = new CacheApiAdaptor(ctx);
+		this.global = new KVAdaptor(ctx);
+	}
+
+	public override async retrieve(key: string) {
+		if (this.isTagRevalidatedAtKey(key)) {
+			const localValue = await this.local.retrieve(key);
+			if (localValue !== null) return localValue;
+
+			// Tags that have never been revalidated are cached as empty values.
+			const globalValue = await this.global.retrieve(key);
+			await this.local.update(key, globalValue ?? '', this.tagsLocalTtl);
+			return globalValue;
+		}
+
+		if (this.isTagsManifestKey(key)) {
+			return this.global.retrieve(key);
+		}
+
+		const localValue = await this.local.retrieve(key);
+		if (localValue !== null) return localValue;
+
+		const globalValue = await this.global.retrieve(key);
+		if (globalValue !== null) {
+			await this.local.update(
+				key,
+				globalValue,
+				this.getStorageTtlFromValue(globalValue),
+			);
+		}
+
+		return globalValue;
+	}
+
+	public override async update(
+		key: string,
+		value: string,
+		revalidate?: number,
+	) {
+		if (this.isTagRevalidatedAtKey(key)) {
+			await Promise.all([
+				this.local.update(key, value, this.tagsLocalTtl),
+				this.global.update(key, value, revalidate),
+			]);
+			return;
+		}
+
+		if (this.isTagsManifestKey(key)) {
+			await this.global.update(key, value, revalidate);
+			return;
+		}
+
+		await Promise.all([
+			this.local.update(key, value, revalidate),
+			this.global.update(key, value, revalidate),
+		]);
+	}
+
+	public override async listKeys(prefix: string) {
+		return this.global.listKeys(prefix);
+	}
+
+	public override async revalidateTag(tag: string) {
+		await super.revalidateTag(tag);
+
+		// Remove the tag's entries from the local tier, so that they are not read again in this data center.
+		const keys = await this.getTagKeys(tag);
+		await Promise.all(keys.map(async key => this.local.delete(key)));
+	}
+
+	public override async delete(key: string) {
+		await Promise.all([this.local.delete(key), this.global.delete(key)]);
+	}
+
+	/**
+	 * Checks whether a key is the one of the tags manifest or of one of the tags' entries.
+	 *
+	 * @param key Key for the item.
+	 * @returns Whether the key is for the tags.
+	 */
+	private isTagsManifestKey(key: string): boolean {
+		return (
+			key === this.tagsManifestKey || key.startsWith(`${this.tagsManifestKey}/`)
+		);
+	}
+
+	/**
+	 * Checks whether a key is the one of a tag's revalidated at timestamp.
+	 *
+	 * @param key Key for the item.
+	 * @returns Whether the key is for a tag's revalidated at timestamp.
+	 */
+	private isTagRevalidatedAtKey(key: string): boolean {
+		return this.isTagsManifestKey(key) && key.endsWith('/revalidated-at');
+	}
+
+	/**
+	 * Gets how long (in seconds) a serialized entry should be kept in the storage.
+	 *
+	 * @param value The serialized cache entry.
+	 * @returns The time to keep the entry for, or undefined if it should be kept indefinitely.
+	 */
+	private getStorageTtlFromValue(value: string): number | undefined {
+		try {
+			return this.getStorageTtl(JSON.parse(value) as CacheHandlerValue);
+		} catch {
+			return undefined;
+		}
+	}
+}
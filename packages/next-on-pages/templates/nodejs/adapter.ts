@@ -0,0 +1,343 @@
+import { Buffer } from 'node:buffer';
+import { once } from 'node:events';
+import { Readable, Writable } from 'node:stream';
+import { parse } from 'cookie';
+
+/**
+ * Handler exported by a Node.js serverless function.
+ */
+export type NodejsHandler = (
+	req: NodejsRequest,
+	res: NodejsResponse,
+) => unknown | Promise<unknown>;
+
+/**
+ * Adapts the `(req, res)` handler of a Node.js serverless function to a fetch handler, so that the
+ * function can be run by the worker like an edge function.
+ *
+ * The response is streamed as soon as the handler sends its headers (or writes to the body), and
+ * the worker is kept alive until the handler finishes. Handlers settling without sending a response
+ * (e.g. forgetting to call `res.end()`) make the fetch handler reject, instead of leaving the
+ * request hanging.
+ *
+ * @param handler The Node.js handler.
+ * @returns The fetch handler running the Node.js handler.
+ */
+export function adaptNodejsHandler(handler: NodejsHandler) {
+	return async (request: Request, ctx: ExecutionContext): Promise<Response> => {
+		const body = request.body ? Buffer.from(await request.arrayBuffer()) : null;
+
+		const req = new NodejsRequest(request, body);
+		const res = new NodejsResponse(req);
+
+		ctx.waitUntil(
+			(async () => {
+				try {
+					await handler(req, res);
+
+					// Handlers reading the request body with events respond once it has been read.
+					if (req.readableFlowing && !req.readableEnded) {
+						await once(req, 'end');
+					}
+
+					if (!res.headersSent && !res.writableEnded) {
+						res.destroy(
+							new Error(
+								'The Node.js handler settled without sending a response (did it call `res.end()`?)',
+							),
+						);
+					}
+				} catch (e) {
+					res.destroy(e as Error);
+				}
+			})(),
+		);
+
+		return res.response;
+	};
+}
+
+/**
+ * Incoming request passed to the Node.js handler, implementing the commonly used parts of the
+ * Node.js `http.IncomingMessage` API (and the `query`, `cookies` and `body` helpers of Vercel's
+ * Node.js runtime).
+ */
+export class NodejsRequest extends Readable {
+	public readonly method: string;
+	public readonly url: string;
+	public readonly headers: Record<string, string>;
+	public readonly rawHeaders: string[];
+	public readonly httpVersion = '1.1';
+	public readonly httpVersionMajor = 1;
+	public readonly httpVersionMinor = 1;
+	public readonly socket: { remoteAddress?: string; encrypted: boolean };
+	public readonly connection: { remoteAddress?: string; encrypted: boolean };
+	public readonly query: Record<string, string | string[]>;
+	public readonly cookies: Record<string, string>;
+
+	private rawBody: Buffer | null;
+
+	constructor(request: Request, rawBody: Buffer | null) {
+		super();
+
+		const { pathname, search, searchParams, protocol } = new URL(request.url);
+
+		this.method = request.method;
+		this.url = `${pathname}${search}`;
+		this.headers = Object.fromEntries(request.headers.entries());
+		this.rawHeaders = [...request.headers.entries()].flat();
+		this.socket = this.connection = {
+			remoteAddress: request.headers.get('cf-connecting-ip') ?? undefined,
+			encrypted: protocol === 'https:',
+		};
+		this.query = [...searchParams.keys()].reduce(
+			(query, key) => {
+				const values = searchParams.getAll(key);
+				query[key] = values.length > 1 ? values : values[0] ?? '';
+				return query;
+			},
+			{} as Record<string, string | string[]>,
+		);
+		// Note: malformed cookie values are kept as they are instead of failing the request.
+		this.cookies = parse(request.headers.get('cookie') ?? '');
+		this.rawBody = rawBody;
+	}
+
+	/**
+	 * The body of the request, parsed based on its `content-type` header.
+	 */
+	public get body(): unknown {
+		if (!this.rawBody) return undefined;
+
+		const contentType = this.headers['content-type'] ?? '';
+		const text = this.rawBody.toString('utf8');
+
+		if (contentType.includes('application/json')) {
+			return JSON.parse(text);
+		}
+		if (contentType.includes('application/x-www-form-urlencoded')) {
+			return Object.fromEntries(new URLSearchParams(text));
+		}
+		if (contentType.startsWith('text/')) {
+			return text;
+		}
+
+		return this.rawBody;
+	}
+
+	public override _read(): void {
+		if (this.rawBody) {
+			this.push(this.rawBody);
+		}
+		this.push(null);
+	}
+}
+
+/**
+ * Server response passed to the Node.js handler, implementing the commonly used parts of the
+ * Node.js `http.ServerResponse` API (and the `status`, `send`, `json` and `redirect` helpers of
+ * Vercel's Node.js runtime).
+ */
+export class NodejsResponse extends Writable {
+	public statusCode = 200;
+	public statusMessage = '';
+
+	/** The response for the fetch handler, resolved once the headers are sent */
+	public readonly response: Promise<Response>;
+
+	private headers = new Map<string, string | string[]>();
+	private sent = false;
+	private writer: WritableStreamDefaultWriter<Uint8Array>;
+	private readable: ReadableStream<Uint8Array>;
+	private resolveResponse: (response: Response) => void = () => undefined;
+	private rejectResponse: (error: Error) => void = () => undefined;
+
+	constructor(private req: NodejsRequest) {
+		super();
+
+		const { readable, writable } = new TransformStream<
+			Uint8Array,
+			Uint8Array
+		>();
+		this.readable = readable;
+		this.writer = writable.getWriter();
+
+		this.response = new Promise((resolve, reject) => {
+			this.resolveResponse = resolve;
+			this.rejectResponse = reject;
+		});
+
+		// Errors are handled when destroying the response, they don't need to be thrown again.
+		this.on('error', () => undefined);
+	}
+
+	public get headersSent(): boolean {
+		return this.sent;
+	}
+
+	public setHeader(name: string, value: string | number | string[]): this {
+		this.headers.set(
+			name.toLowerCase(),
+			Array.isArray(value) ? value : `${value}`,
+		);
+		return this;
+	}
+
+	public getHeader(name: string): string | string[] | undefined {
+		return this.headers.get(name.toLowerCase());
+	}
+
+	public getHeaders(): Record<string, string | string[]> {
+		return Object.fromEntries(this.headers);
+	}
+
+	public getHeaderNames(): string[] {
+		return [...this.headers.keys()];
+	}
+
+	public hasHeader(name: string): boolean {
+		return this.headers.has(name.toLowerCase());
+	}
+
+	public removeHeader(name: string): void {
+		this.headers.delete(name.toLowerCase());
+	}
+
+	public writeHead(
+		statusCode: number,
+		statusMessage?: string | Record<string, string | number | string[]>,
+		headers?: Record<string, string | number | string[]>,
+	): this {
+		if (typeof statusMessage === 'object') {
+			headers = statusMessage;
+			statusMessage = undefined;
+		}
+
+		this.statusCode = statusCode;
+		if (statusMessage) this.statusMessage = statusMessage;
+		Object.entries(headers ?? {}).forEach(([name, value]) =>
+			this.setHeader(name, value),
+		);
+
+		this.flushHeaders();
+		return this;
+	}
+
+	/**
+	 * Sends the headers, resolving the response for the fetch handler.
+	 */
+	public flushHeaders(): void {
+		if (this.sent) return;
+		this.sent = true;
+
+		const headers = new Headers();
+		this.headers.forEach((value, name) =>
+			(Array.isArray(value) ? value : [value]).forEach(v =>
+				headers.append(name, v),
+			),
+		);
+
+		this.resolveResponse(
+			new Response(this.hasBody() ? this.readable : null, {
+				status: this.statusCode,
+				statusText: this.statusMessage,
+				headers,
+			}),
+		);
+	}
+
+	public status(statusCode: number): this {
+		this.statusCode = statusCode;
+		return this;
+	}
+
+	public send(body: unknown): this {
+		if (body === null || body === undefined) {
+			this.end();
+		} else if (typeof body === 'object' && !Buffer.isBuffer(body)) {
+			this.json(body);
+		} else {
+			if (!this.hasHeader('content-type')) {
+				this.setHeader(
+					'content-type',
+					Buffer.isBuffer(body)
+						? 'application/octet-stream'
+						: 'text/html; charset=utf-8',
+				);
+			}
+			this.end(Buffer.isBuffer(body) ? body : `${body}`);
+		}
+		return this;
+	}
+
+	public json(body: unknown): this {
+		this.setHeader('content-type', 'application/json; charset=utf-8');
+		this.end(JSON.stringify(body));
+		return this;
+	}
+
+	public redirect(statusOrUrl: number | string, url?: string): this {
+		const [statusCode, location] =
+			typeof statusOrUrl === 'number'
+				? [statusOrUrl, url ?? '/']
+				: [307, statusOrUrl];
+
+		this.writeHead(statusCode, { location });
+		this.end();
+		return this;
+	}
+
+	public override _write(
+		chunk: Buffer,
+		_encoding: BufferEncoding,
+		callback: (error?: Error | null) => void,
+	): void {
+		this.flushHeaders();
+
+		if (!this.hasBody()) {
+			callback();
+			return;
+		}
+
+		// The chunk is copied since Node.js buffers can share their (pooled) memory.
+		this.writer.write(new Uint8Array(chunk)).then(() => callback(), callback);
+	}
+
+	public override _final(callback: (error?: Error | null) => void): void {
+		this.flushHeaders();
+		this.writer.close().then(() => callback(), callback);
+	}
+
+	public override _destroy(
+		error: Error | null,
+		callback: (error?: Error | null) => void,
+	): void {
+		if (error) {
+			// eslint-disable-next-line no-console
+			console.error(error);
+		}
+
+		if (!this.sent) {
+			this.sent = true;
+			this.rejectResponse(
+				error ?? new Error('The response was closed before being sent'),
+			);
+		} else if (error) {
+			this.writer.abort(error).catch(() => undefined);
+		}
+
+		callback(error);
+	}
+
+	/**
+	 * Checks whether the response can have a body (based on the request method and status code).
+	 *
+	 * @returns Whether the response can have a body.
+	 */
+	private hasBody(): boolean {
+		return (
+			this.req.method !== 'HEAD' &&
+			![101, 204, 205, 304].includes(this.statusCode)
+		);
+	}
+}
@@ -221,6 +221,7 @@ export async function createRouterTestData(
 		outputDir,
 		workerJsDir: workerJsDir,
 		nopDistDir: join(workerJsDir, '__next-on-pages-dist__'),
+		templatesDir: join(__dirname, '..', '..', 'templates'),
 		disableChunksDedup: true,
 		vercelConfig: { version: 3 },
 	});
@@ -309,7 +310,7 @@ export function createInvalidFuncDir(
  */
 export function mockPrerenderConfigFile(
 	path: string,
-	opts: { ext?: string; sourcePath?: string } = {},
+	opts: { ext?: string; sourcePath?: string; expiration?: number } = {},
 ): string {
 	const extension = opts.ext || (path.endsWith('.rsc') ? 'rsc' : 'html');
 	const fsPath = `${path}.prerender-fallback.${extension}`;
@@ -322,6 +323,7 @@ export function mockPrerenderConfigFile(
 			fsPath,
 		},
 		sourcePath: opts.sourcePath,
+		expiration: opts.expiration,
 		initialHeaders: {
 			...((path.endsWith('.rsc') || path.endsWith('.json')) && {
 				'content-type': 'text/x-component',
@@ -459,6 +461,15 @@ export const nodejsFuncDir = {
 	'index.js': '',
 };
 
+export const prerenderEdgeFuncDir = {
+	'.vc-config.json': JSON.stringify({
+		operationType: 'ISR',
+		runtime: 'edge',
+		entrypoint: 'index.js',
+	}),
+	'index.js': '',
+};
+
 export const prerenderFuncDir = {
 	'.vc-config.json': JSON.stringify({
 		operationType: 'ISR',
@@ -0,0 +1,360 @@
+import { describe, test, expect, afterEach, vi } from 'vitest';
+import mockFs from 'mock-fs';
+import { readFile } from 'node:fs/promises';
+import { gzipSync } from 'node:zlib';
+import type {
+	BuildSizes,
+	FunctionSizes,
+} from '../../../src/buildApplication/buildReport';
+import {
+	formatByteSize,
+	getBuildSizes,
+	warnIfWorkerExceedsSizeLimits,
+	writeHtmlReport,
+	workerGzipByteSizeLimits,
+} from '../../../src/buildApplication/buildReport';
+import type { ProcessedVercelFunctions } from '../../../src/buildApplication/processVercelFunctions';
+import type { FunctionInfo } from '../../../src/buildApplication/processVercelFunctions/configs';
+
+const homeFile = 'export default "home";'.repeat(20);
+const aboutFile = 'export default "about";';
+const chunkFile = 'export const chunk = 1;'.repeat(10);
+const indexFile = 'export default { fetch() {} };';
+
+const gzipSize = (contents: string) => gzipSync(contents).byteLength;
+
+const processedFunctions = {
+	collectedFunctions: {
+		functionsDir: 'functions',
+		edgeFunctions: new Map([
+			[
+				'functions/home.func',
+				{
+					relativePath: '/home.func',
+					config: { runtime: 'edge', entrypoint: 'index.js' },
+					route: { path: '/home' },
+					outputPath: '__next-on-pages-dist__/functions/home.func.js',
+				} as FunctionInfo,
+			],
+			[
+				'functions/about.func',
+				{
+					relativePath: '/about.func',
+					config: { runtime: 'edge', entrypoint: 'index.js' },
+					route: { path: '/about' },
+					outputPath: '__next-on-pages-dist__/functions/about.func.js',
+				} as FunctionInfo,
+			],
+		]),
+		nodejsFunctions: new Map(),
+		prerenderedFunctions: new Map(),
+		invalidFunctions: new Map(),
+		ignoredFunctions: new Map(),
+	},
+	identifiers: {
+		entrypointsMap: new Map(),
+		identifierMaps: {
+			wasm: new Map(),
+			manifest: new Map([
+				[
+					'__BUILD_MANIFEST',
+					{ consumers: ['functions/about.func/index.js'], inlined: true },
+				],
+			]),
+			webpack: new Map([
+				[
+					'872',
+					{
+						consumers: ['functions/home.func/index.js'],
+						newDest: '__next-on-pages-dist__/webpack/872.js',
+					},
+				],
+			]),
+		},
+	},
+} as ProcessedVercelFunctions;
+
+describe('getBuildSizes', () => {
+	afterEach(() => mockFs.restore());
+
+	test('collects the sizes of the functions and of the worker', async () => {
+		mockFs({
+			'_worker.js': {
+				'index.js': indexFile,
+				'nop-build-log.json': '{}',
+				'__next-on-pages-dist__': {
+					functions: { 'home.func.js': homeFile, 'about.func.js': aboutFile },
+					webpack: { '872.js': chunkFile },
+				},
+			},
+		});
+
+		const sizes = await getBuildSizes('_worker.js', processedFunctions);
+
+		const chunkSizes = {
+			path: '__next-on-pages-dist__/webpack/872.js',
+			byteSize: chunkFile.length,
+			gzipByteSize: gzipSize(chunkFile),
+		};
+
+		expect(sizes).toEqual({
+			functions: [
+				{
+					route: '/home',
+					outputPath: '__next-on-pages-dist__/functions/home.func.js',
+					byteSize: homeFile.length,
+					gzipByteSize: gzipSize(homeFile),
+					imports: { webpack: [chunkSizes], manifest: [], wasm: [] },
+					totalByteSize: homeFile.length + chunkSizes.byteSize,
+					totalGzipByteSize: gzipSize(homeFile) + chunkSizes.gzipByteSize,
+				},
+				{
+					route: '/about',
+					outputPath: '__next-on-pages-dist__/functions/about.func.js',
+					byteSize: aboutFile.length,
+					gzipByteSize: gzipSize(aboutFile),
+					imports: { webpack: [], manifest: [], wasm: [] },
+					totalByteSize: aboutFile.length,
+					totalGzipByteSize: gzipSize(aboutFile),
+				},
+			],
+			worker: {
+				byteSize:
+					indexFile.length +
+					homeFile.length +
+					aboutFile.length +
+					chunkFile.length,
+				gzipByteSize:
+					gzipSize(indexFile) +
+					gzipSize(homeFile) +
+					gzipSize(aboutFile) +
+					gzipSize(chunkFile),
+				gzipByteSizeLimits: workerGzipByteSizeLimits,
+			},
+		});
+	});
+
+	test("reports the sizes of the grouped functions' route group modules", async () => {
+		const groupFile = `${homeFile}${aboutFile}${chunkFile}`;
+		mockFs({
+			'_worker.js': {
+				'index.js': indexFile,
+				'__next-on-pages-dist__': {
+					'route-groups': { 'group-0.js': groupFile },
+				},
+			},
+		});
+
+		const sizes = await getBuildSizes('_worker.js', processedFunctions, {
+			entrypoints: {},
+			groups: [
+				{
+					name: 'group-0',
+					module: '__next-on-pages-dist__/route-groups/group-0.js',
+					byteSize: groupFile.length,
+					modules: 3,
+					sharedChunks: [],
+					routes: [
+						{
+							route: '/home',
+							entrypoint: '__next-on-pages-dist__/functions/home.func.js',
+							evaluationTime: null,
+						},
+						{
+							route: '/about',
+							entrypoint: '__next-on-pages-dist__/functions/about.func.js',
+							evaluationTime: null,
+						},
+					],
+				},
+			],
+		});
+
+		const groupSizes = {
+			outputPath: '__next-on-pages-dist__/route-groups/group-0.js',
+			routeGroup: 'group-0',
+			byteSize: groupFile.length,
+			gzipByteSize: gzipSize(groupFile),
+			// the chunk bundled in the group's module is not listed
+			imports: { webpack: [], manifest: [], wasm: [] },
+			totalByteSize: groupFile.length,
+			totalGzipByteSize: gzipSize(groupFile),
+		};
+		expect(sizes.functions).toEqual([
+			{ route: '/home', ...groupSizes },
+			{ route: '/about', ...groupSizes },
+		]);
+	});
+});
+
+const buildSizes: BuildSizes = {
+	functions: [
+		{
+			route: '/home',
+			outputPath: '__next-on-pages-dist__/functions/home.func.js',
+			byteSize: 2 * 1024 * 1024,
+			gzipByteSize: 1024 * 1024,
+			imports: {
+				webpack: [
+					{
+						path: '__next-on-pages-dist__/webpack/872.js',
+						byteSize: 4 * 1024 * 1024,
+						gzipByteSize: 3 * 1024 * 1024,
+					},
+				],
+				manifest: [],
+				wasm: [],
+			},
+			totalByteSize: 6 * 1024 * 1024,
+			totalGzipByteSize: 4 * 1024 * 1024,
+		},
+		{
+			route: '/about',
+			outputPath: '__next-on-pages-dist__/functions/about.func.js',
+			byteSize: 1024,
+			gzipByteSize: 512,
+			imports: { webpack: [], manifest: [], wasm: [] },
+			totalByteSize: 1024,
+			totalGzipByteSize: 512,
+		},
+	],
+	worker: {
+		byteSize: 7 * 1024 * 1024,
+		gzipByteSize: 4.5 * 1024 * 1024,
+		gzipByteSizeLimits: workerGzipByteSizeLimits,
+	},
+};
+
+describe('warnIfWorkerExceedsSizeLimits', () => {
+	test('warns with the largest routes when the worker exceeds a limit', () => {
+		const mockedWarn = vi.spyOn(console, 'warn').mockImplementation(() => null);
+
+		warnIfWorkerExceedsSizeLimits(buildSizes);
+
+		expect(mockedWarn).toHaveBeenCalledTimes(1);
+		const [message] = mockedWarn.mock.calls[0] as [string];
+		expect(message).toMatch(
+			/the worker is 4\.50 MiB gzipped, which exceeds the 3\.00 MiB limit of the Workers Free plan/,
+		);
+		expect(message).toMatch(
+			/- \/home \(4\.00 MiB gzipped\)\n.*- \/about \(512 B gzipped\)/,
+		);
+
+		mockedWarn.mockRestore();
+	});
+
+	test('does not warn when the worker is within the limits', () => {
+		const mockedWarn = vi.spyOn(console, 'warn').mockImplementation(() => null);
+
+		warnIfWorkerExceedsSizeLimits({
+			...buildSizes,
+			worker: { ...buildSizes.worker, gzipByteSize: 1024 * 1024 },
+		});
+
+		expect(mockedWarn).not.toHaveBeenCalled();
+
+		mockedWarn.mockRestore();
+	});
+});
+
+describe('writeHtmlReport', () => {
+	afterEach(() => mockFs.restore());
+
+	test('writes the report with the treemap data', async () => {
+		mockFs({});
+		const mockedLog = vi.spyOn(console, 'log').mockImplementation(() => null);
+
+		await writeHtmlReport('nop-build-report.html', buildSizes);
+
+		const report = await readFile('nop-build-report.html', 'utf8');
+		const data = JSON.parse(/const data = (.*);\n/.exec(report)?.[1] ?? 'null');
+
+		expect(data.name).toEqual('_worker.js');
+		expect(data.children.map(({ name }: { name: string }) => name)).toEqual([
+			'Routes',
+			'Shared files',
+			'Other worker files',
+		]);
+		expect(data.children[0].children[0]).toMatchObject({
+			name: '/home',
+			byteSize: 2 * 1024 * 1024,
+		});
+		expect(data.children[1].children).toEqual([
+			{
+				name: '__next-on-pages-dist__/webpack/872.js',
+				byteSize: 4 * 1024 * 1024,
+				gzipByteSize: 3 * 1024 * 1024,
+				details: ['Imported by: /home'],
+			},
+		]);
+		expect(data.children[2]).toEqual({
+			name: 'Other worker files',
+			byteSize: 1024 * 1024 - 1024,
+			gzipByteSize: 0.5 * 1024 * 1024 - 512,
+		});
+		expect(mockedLog).lastCalledWith(
+			expect.stringMatching(/Build report saved to 'nop-build-report\.html'/),
+		);
+
+		mockedLog.mockRestore();
+	});
+
+	test('embeds the data as is', async () => {
+		mockFs({});
+		const mockedLog = vi.spyOn(console, 'log').mockImplementation(() => null);
+		const route = "/[$$]/$&/$`/$'/</script>";
+
+		await writeHtmlReport('nop-build-report.html', {
+			...buildSizes,
+			functions: [{ ...(buildSizes.functions[1] as FunctionSizes), route }],
+		});
+
+		const report = await readFile('nop-build-report.html', 'utf8');
+		const data = JSON.parse(/const data = (.*);\n/.exec(report)?.[1] ?? 'null');
+
+		expect(data.children[0].children[0].name).toEqual(route);
+		expect(report).not.toContain('</script>"');
+
+		mockedLog.mockRestore();
+	});
+
+	test('lists the grouped routes once per route group', async () => {
+		mockFs({});
+		const mockedLog = vi.spyOn(console, 'log').mockImplementation(() => null);
+		const [home, about] = buildSizes.functions;
+
+		await writeHtmlReport('nop-build-report.html', {
+			...buildSizes,
+			functions: [
+				{ ...(home as FunctionSizes), routeGroup: 'group-0' },
+				{ ...(about as FunctionSizes), routeGroup: 'group-0' },
+			],
+		});
+
+		const report = await readFile('nop-build-report.html', 'utf8');
+		const data = JSON.parse(/const data = (.*);\n/.exec(report)?.[1] ?? 'null');
+
+		expect(data.children[0].children).toEqual([
+			{
+				name: 'group-0',
+				byteSize: 2 * 1024 * 1024,
+				gzipByteSize: 1024 * 1024,
+				details: [
+					'Output file: __next-on-pages-dist__/functions/home.func.js',
+					'Route: /home (including the shared files: 6.00 MiB, 4.00 MiB gzipped)',
+					'Route: /about (including the shared files: 1.0 KiB, 512 B gzipped)',
+				],
+			},
+		]);
+
+		mockedLog.mockRestore();
+	});
+});
+
+describe('formatByteSize', () => {
+	test('formats the sizes with the appropriate unit', () => {
+		expect(formatByteSize(512)).toEqual('512 B');
+		expect(formatByteSize(1536)).toEqual('1.5 KiB');
+		expect(formatByteSize(3 * 1024 * 1024)).toEqual('3.00 MiB');
+	});
+});
@@ -0,0 +1,261 @@
+import { afterEach, beforeEach, describe, test, expect } from 'vitest';
+import { mkdir, mkdtemp, readFile, readdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { pathToFileURL } from 'url';
+import {
+	buildRouteGroups,
+	groupRoutesByCoUsage,
+} from '../../../src/buildApplication/buildRouteGroups';
+import type { ProcessedVercelFunctions } from '../../../src/buildApplication/processVercelFunctions';
+import type { FunctionInfo } from '../../../src/buildApplication/processVercelFunctions/configs';
+import type { ProcessedVercelOutput } from '../../../src/buildApplication/processVercelOutput';
+import { mockConsole } from '../../_helpers';
+
+const createRoute = (route: string, chunks: string[]) => ({
+	route,
+	entrypoint: `__next-on-pages-dist__/functions${route}.func.js`,
+	chunks: new Set(chunks),
+});
+
+const chunkSizes = new Map([
+	['__next-on-pages-dist__/webpack/react.js', 1000],
+	['__next-on-pages-dist__/webpack/blog.js', 300],
+	['__next-on-pages-dist__/webpack/editor.js', 2000],
+	['__next-on-pages-dist__/webpack/utils.js', 50],
+]);
+
+describe('groupRoutesByCoUsage', () => {
+	test('groups the routes importing mostly the same shared chunks', () => {
+		const home = createRoute('/home', [
+			'__next-on-pages-dist__/webpack/react.js',
+		]);
+		const blog = createRoute('/blog', [
+			'__next-on-pages-dist__/webpack/react.js',
+			'__next-on-pages-dist__/webpack/blog.js',
+		]);
+		const post = createRoute('/blog/[slug]', [
+			'__next-on-pages-dist__/webpack/react.js',
+			'__next-on-pages-dist__/webpack/blog.js',
+			'__next-on-pages-dist__/webpack/utils.js',
+		]);
+		const editor = createRoute('/editor', [
+			'__next-on-pages-dist__/webpack/editor.js',
+			'__next-on-pages-dist__/webpack/utils.js',
+		]);
+
+		expect(
+			groupRoutesByCoUsage([home, blog, post, editor], chunkSizes),
+		).toEqual([[home, blog, post], [editor]]);
+	});
+
+	test('does not group routes without shared chunks', () => {
+		const api = createRoute('/api/hello', []);
+		const ping = createRoute('/api/ping', []);
+		const utils = createRoute('/api/utils', [
+			'__next-on-pages-dist__/webpack/utils.js',
+		]);
+
+		expect(groupRoutesByCoUsage([api, ping, utils], chunkSizes)).toEqual([
+			[api],
+			[ping],
+			[utils],
+		]);
+	});
+
+	test('groups a few hundred routes', () => {
+		const sections = ['shop', 'blog', 'docs'];
+		const sectionSizes = new Map(
+			sections.map(section => [
+				`__next-on-pages-dist__/webpack/${section}.js`,
+				10_000,
+			]),
+		);
+		const routes = Array.from({ length: 300 }, (_, idx) => {
+			const section = sections[idx % sections.length];
+			return createRoute(`/${section}/${idx}`, [
+				`__next-on-pages-dist__/webpack/${section}.js`,
+				`__next-on-pages-dist__/webpack/page-${idx}.js`,
+			]);
+		});
+		const pageSizes = new Map(
+			routes.flatMap(({ chunks }) =>
+				[...chunks].map(chunk => [chunk, 100] as const),
+			),
+		);
+
+		const groups = groupRoutesByCoUsage(
+			routes,
+			new Map([...pageSizes, ...sectionSizes]),
+		);
+
+		expect(groups.map(group => group.map(({ route }) => route).sort())).toEqual(
+			sections.map(section =>
+				routes
+					.map(({ route }) => route)
+					.filter(route => route.startsWith(`/${section}/`))
+					.sort(),
+			),
+		);
+	});
+});
+
+describe('buildRouteGroups', () => {
+	let tmpDir: string;
+
+	beforeEach(async () => {
+		tmpDir = await mkdtemp(join(tmpdir(), 'route-groups-'));
+	});
+
+	afterEach(async () => {
+		await rm(tmpDir, { recursive: true, force: true });
+	});
+
+	test('only bundles the chunks imported by a single group', async () => {
+		const workerJsDir = join(tmpDir, '_worker.js');
+		const nopDistDir = join(workerJsDir, '__next-on-pages-dist__');
+		const chunks = {
+			blog: `export const blog = "${'blog'.repeat(500)}";`,
+			shop: `export const shop = "${'shop'.repeat(500)}";`,
+			shared: 'export const shared = "shared";',
+			middleware: 'export const middleware = "middleware";',
+		};
+		const functions: Record<string, (keyof typeof chunks)[]> = {
+			blog: ['blog', 'shared'],
+			post: ['blog', 'shared'],
+			shop: ['shop', 'shared', 'middleware'],
+			cart: ['shop', 'shared'],
+			middleware: ['middleware'],
+		};
+
+		await mkdir(join(nopDistDir, 'webpack'), { recursive: true });
+		await mkdir(join(nopDistDir, 'functions'), { recursive: true });
+		for (const [name, contents] of Object.entries(chunks)) {
+			await writeFile(join(nopDistDir, 'webpack', `${name}.js`), contents);
+		}
+		for (const [name, imports] of Object.entries(functions)) {
+			await writeFile(
+				join(nopDistDir, 'functions', `${name}.func.js`),
+				`${imports
+					.map(chunk => `import { ${chunk} } from '../webpack/${chunk}.js';`)
+					.join('\n')}
+				export default () => [${imports.join(', ')}];`,
+			);
+		}
+
+		const processedFunctions = {
+			collectedFunctions: {
+				edgeFunctions: new Map(
+					Object.keys(functions).map(name => [
+						`functions/${name}.func`,
+						{
+							relativePath: `/${name}.func`,
+							config: { runtime: 'edge', entrypoint: 'index.js' },
+							route: { path: `/${name}` },
+							outputPath: `__next-on-pages-dist__/functions/${name}.func.js`,
+						} as FunctionInfo,
+					]),
+				),
+			},
+			identifiers: {
+				identifierMaps: {
+					wasm: new Map(),
+					manifest: new Map(),
+					webpack: new Map(
+						Object.keys(chunks).map(chunk => [
+							chunk,
+							{
+								consumers: Object.entries(functions)
+									.filter(([, imports]) =>
+										imports.includes(chunk as keyof typeof chunks),
+									)
+									.map(([name]) => `functions/${name}.func/index.js`),
+								newDest: `__next-on-pages-dist__/webpack/${chunk}.js`,
+							},
+						]),
+					),
+				},
+			},
+		} as unknown as ProcessedVercelFunctions;
+		const processedOutput = {
+			vercelOutput: new Map([
+				[
+					'middleware',
+					{
+						type: 'middleware',
+						entrypoint: '__next-on-pages-dist__/functions/middleware.func.js',
+					},
+				],
+			]),
+		} as unknown as ProcessedVercelOutput;
+
+		const mockedConsole = mockConsole('log');
+		const manifest = await buildRouteGroups(
+			processedFunctions,
+			processedOutput,
+			{ outputDir: tmpDir, workerJsDir, nopDistDir, minify: false },
+		);
+		mockedConsole.restore();
+
+		expect(
+			manifest.groups.map(({ module, sharedChunks, routes }) => ({
+				module,
+				sharedChunks,
+				routes: routes.map(({ route }) => route),
+			})),
+		).toEqual([
+			{
+				module: '__next-on-pages-dist__/route-groups/group-0.js',
+				sharedChunks: ['__next-on-pages-dist__/webpack/shared.js'],
+				routes: ['/blog', '/post'],
+			},
+			{
+				module: '__next-on-pages-dist__/route-groups/group-1.js',
+				sharedChunks: [
+					'__next-on-pages-dist__/webpack/middleware.js',
+					'__next-on-pages-dist__/webpack/shared.js',
+				],
+				routes: ['/cart', '/shop'],
+			},
+		]);
+
+		// the chunks imported by a single group are bundled in its module, the others are imported
+		// when loading the functions importing them
+		const blogGroup = await readFile(
+			join(nopDistDir, 'route-groups', 'group-0.js'),
+			'utf-8',
+		);
+		expect(blogGroup).toContain('blogblog');
+		expect(blogGroup).toMatch(/import\("\.\.\/webpack\/shared\.js"\)/);
+		expect(blogGroup).not.toMatch(/from "\.\.\/webpack\/shared\.js"/);
+		expect(blogGroup).not.toContain('"shared"');
+
+		const { loaders } = await import(
+			/* @vite-ignore */
+			pathToFileURL(join(nopDistDir, 'route-groups', 'group-1.js')).href
+		);
+		const shop = await loaders[
+			'__next-on-pages-dist__/functions/shop.func.js'
+		]();
+		expect(shop.default()).toEqual([
+			'shop'.repeat(500),
+			'shared',
+			'middleware',
+		]);
+
+		// the evaluation of the routes is measured
+		for (const { routes } of manifest.groups) {
+			for (const { evaluationTime } of routes) {
+				expect(evaluationTime).toBeTypeOf('number');
+			}
+		}
+
+		expect((await readdir(join(nopDistDir, 'webpack'))).sort()).toEqual([
+			'middleware.js',
+			'shared.js',
+		]);
+		expect(await readdir(join(nopDistDir, 'functions'))).toEqual([
+			'middleware.func.js',
+		]);
+	});
+});
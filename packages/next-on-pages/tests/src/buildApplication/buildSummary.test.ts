@@ -3,6 +3,7 @@ import mockFs from 'mock-fs';
 import type { BuildLog } from '../../../src/buildApplication/buildSummary';
 import {
 	printBuildSummary,
+	getBuildInfo,
 	writeBuildInfo,
 } from '../../../src/buildApplication/buildSummary';
 import type { ProcessedVercelOutput } from '../../../src/buildApplication/processVercelOutput';
@@ -46,6 +47,9 @@ describe('buildSummary', () => {
 					],
 					['/nested/home', { route: { path: '/nested/home' } } as FunctionInfo],
 				]),
+				nodejsFunctions: new Map([
+					['/api/node', { route: { path: '/api/node' } } as FunctionInfo],
+				]),
 				prerenderedFunctions: new Map([
 					[
 						'/prerendered-a',
@@ -91,6 +95,9 @@ describe('buildSummary', () => {
 			⚡️   ┌ /home
 			⚡️   └ /nested/home
 			⚡️ 
+			⚡️ Node.js Function Routes (1)
+			⚡️   - /api/node
+			⚡️ 
 			⚡️ Prerendered Routes (3)
 			⚡️   ┌ /prerendered-a
 			⚡️   ├ /prerendered-b
@@ -135,6 +142,9 @@ describe('buildSummary', () => {
 					['/home', { route: { path: '/home' } } as FunctionInfo],
 					['/nested/home', { route: { path: '/nested/home' } } as FunctionInfo],
 				]),
+				nodejsFunctions: new Map([
+					['/api/node', { route: { path: '/api/node' } } as FunctionInfo],
+				]),
 				prerenderedFunctions: new Map([
 					[
 						'/prerendered-one',
@@ -171,10 +181,13 @@ describe('buildSummary', () => {
 		};
 
 		await writeBuildInfo(
-			{ outputDir: 'dist', functionsDir: '' },
-			staticAssets,
-			processedVercelOutput,
-			procesedVercelFunctions,
+			'dist',
+			await getBuildInfo(
+				{ outputDir: 'dist', functionsDir: '' },
+				staticAssets,
+				processedVercelOutput,
+				procesedVercelFunctions,
+			),
 		);
 
 		expect(mockedConsole).toHaveBeenCalledTimes(1);
@@ -198,6 +211,7 @@ describe('buildSummary', () => {
 				ignored: [{ route: { path: '/ignored-rsc-route' } }],
 				invalid: [{ route: { path: '/invalid-node-func' } }],
 				middleware: ['middleware'],
+				nodejs: [{ route: { path: '/api/node' } }],
 				prerendered: [
 					{ route: { path: '/prerendered-one' } },
 					{ route: { path: '/prerendered-two' } },
@@ -215,6 +229,14 @@ describe('buildSummary', () => {
 				webpack: { '872': { consumers: 1, consumersList: ['/home'] } },
 			},
 		});
+		expect(logFile?.sizes).toEqual({
+			functions: [],
+			worker: {
+				byteSize: 0,
+				gzipByteSize: 0,
+				gzipByteSizeLimits: { free: 3 * 1024 * 1024, paid: 10 * 1024 * 1024 },
+			},
+		});
 
 		mockedConsole.mockRestore();
 		mockFs.restore();
@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { buildCustomCacheAdaptor } from '../../../src/buildApplication/buildWorkerFile';
+
+describe('buildCustomCacheAdaptor', () => {
+	let tmpDir: string;
+
+	beforeEach(async () => {
+		tmpDir = await mkdtemp(join(tmpdir(), 'custom-cache-adaptor-'));
+	});
+
+	afterEach(async () => {
+		await rm(tmpDir, { recursive: true, force: true });
+	});
+
+	test('bundles the adaptor importing the base adaptor bundled alongside the worker', async () => {
+		const adaptorPath = join(tmpDir, 'my-adaptor.ts');
+		await writeFile(
+			join(tmpDir, 'storage.ts'),
+			'export const storage = new Map<string, string>();',
+		);
+		await writeFile(
+			adaptorPath,
+			`import { CacheAdaptor } from '@khulnasoft/next-on-pages/cache';
+			import { storage } from './storage';
+
+			export default class MyAdaptor extends CacheAdaptor {
+				async retrieve(key: string) {
+					return storage.get(key) ?? null;
+				}
+			}`,
+		);
+		const nopDistDir = join(tmpDir, '__next-on-pages-dist__');
+
+		await buildCustomCacheAdaptor(adaptorPath, nopDistDir, {
+			format: 'esm',
+		});
+
+		const adaptor = await readFile(
+			join(nopDistDir, 'cache', 'custom.js'),
+			'utf-8',
+		);
+		expect(adaptor).toMatch(/import { CacheAdaptor } from "\.\/adaptor\.js";/);
+		// the adaptor's own imports are bundled
+		expect(adaptor).toMatch(/var storage = \/\* @__PURE__ \*\/ new Map\(\);/);
+		expect(adaptor).not.toMatch(/@khulnasoft\/next-on-pages\/cache/);
+	});
+});
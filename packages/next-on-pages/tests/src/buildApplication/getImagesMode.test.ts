@@ -0,0 +1,40 @@
+import { describe, test, expect, afterEach } from 'vitest';
+import mockFs from 'mock-fs';
+import { getImagesMode } from '../../../src/buildApplication/getImagesMode';
+
+const mockImagesManifest = (images: Record<string, unknown>) =>
+	mockFs({
+		'.next': {
+			'images-manifest.json': JSON.stringify({ version: 1, images }),
+		},
+	});
+
+describe('getImagesMode', () => {
+	afterEach(() => mockFs.restore());
+
+	test('images are optimized when there is no images manifest', async () => {
+		mockFs({ '.next': {} });
+
+		expect(await getImagesMode()).toEqual('optimized');
+	});
+
+	test('images are optimized with the default loader', async () => {
+		mockImagesManifest({ loader: 'default', path: '/_next/image' });
+
+		expect(await getImagesMode()).toEqual('optimized');
+	});
+
+	test('detects unoptimized images', async () => {
+		mockImagesManifest({ loader: 'default', unoptimized: true });
+
+		expect(await getImagesMode()).toEqual('unoptimized');
+	});
+
+	test('detects custom loaders', async () => {
+		mockImagesManifest({ loader: 'imgix', path: 'https://example.imgix.net' });
+		expect(await getImagesMode()).toEqual('custom-loader');
+
+		mockImagesManifest({ loader: 'custom', loaderFile: './image-loader.ts' });
+		expect(await getImagesMode()).toEqual('custom-loader');
+	});
+});
@@ -0,0 +1,181 @@
+import { describe, test, expect, afterEach, vi } from 'vitest';
+import mockFs from 'mock-fs';
+import {
+	collectFunctionsFrom,
+	mockConsole,
+	nodejsFuncDir,
+	prerenderFuncDir,
+} from '../../../_helpers';
+import { resolve } from 'path';
+import { getInvalidFunctionDiagnostics } from '../../../../src/buildApplication/processVercelFunctions/invalidFunctionDiagnostics';
+import { checkInvalidFunctions } from '../../../../src/buildApplication/processVercelFunctions/invalidFunctions';
+import { processEdgeFunctions } from '../../../../src/buildApplication/processVercelFunctions/edgeFunctions';
+import { processPrerenderFunctions } from '../../../../src/buildApplication/processVercelFunctions/prerenderFunctions';
+
+const functionsDir = resolve('.vercel/output/functions');
+const edgeRuntimeExample = "export const runtime = 'edge';";
+
+describe('getInvalidFunctionDiagnostics', () => {
+	afterEach(() => mockFs.restore());
+
+	test('reports the routes missing the edge runtime with their source file', async () => {
+		const { collectedFunctions, restoreFsMock } = await collectFunctionsFrom({
+			functions: {
+				'index.func': nodejsFuncDir,
+				'index.rsc.func': nodejsFuncDir,
+				api: { 'hello.func': nodejsFuncDir },
+				blog: { '[slug].func': nodejsFuncDir },
+				'about.func': nodejsFuncDir,
+			},
+			otherDirs: {
+				app: {
+					'page.tsx': '',
+					'(marketing)': { blog: { '[slug]': { 'page.tsx': '' } } },
+					api: { hello: { 'route.ts': '' } },
+				},
+				src: { pages: { 'about.tsx': '' } },
+			},
+		});
+
+		const diagnostics = await getInvalidFunctionDiagnostics(
+			collectedFunctions.invalidFunctions,
+			{ edgeRuntimeExample },
+		);
+		restoreFsMock();
+
+		expect(diagnostics).toEqual([
+			{
+				route: '/about',
+				functionPath: '.vercel/output/functions/about.func',
+				sourceFile: 'src/pages/about.tsx',
+				reason: 'missing-edge-runtime',
+				message: 'The route is not configured to run with the Edge Runtime.',
+				fix: "Add `export const runtime = 'edge';` to `src/pages/about.tsx`.",
+			},
+			{
+				route: '/api/hello',
+				functionPath: '.vercel/output/functions/api/hello.func',
+				sourceFile: 'app/api/hello/route.ts',
+				reason: 'missing-edge-runtime',
+				message: 'The route is not configured to run with the Edge Runtime.',
+				fix: "Add `export const runtime = 'edge';` to `app/api/hello/route.ts`.",
+			},
+			{
+				route: '/blog/[slug]',
+				functionPath: '.vercel/output/functions/blog/[slug].func',
+				sourceFile: 'app/(marketing)/blog/[slug]/page.tsx',
+				reason: 'missing-edge-runtime',
+				message: 'The route is not configured to run with the Edge Runtime.',
+				fix: "Add `export const runtime = 'edge';` to `app/(marketing)/blog/[slug]/page.tsx`.",
+			},
+			{
+				route: '/index',
+				functionPath: '.vercel/output/functions/index.func',
+				sourceFile: 'app/page.tsx',
+				reason: 'missing-edge-runtime',
+				message: 'The route is not configured to run with the Edge Runtime.',
+				fix: "Add `export const runtime = 'edge';` to `app/page.tsx`.",
+			},
+		]);
+	});
+
+	test('reports the other reasons of invalid functions', async () => {
+		const mockedConsole = mockConsole('error');
+		const { collectedFunctions, restoreFsMock } = await collectFunctionsFrom({
+			functions: {
+				'missing.func': {
+					'.vc-config.json': JSON.stringify({
+						runtime: 'edge',
+						entrypoint: 'index.js',
+					}),
+				},
+				'image.func': {
+					'.vc-config.json': JSON.stringify({
+						runtime: 'nodejs18.x',
+						handler: 'index.js',
+						filePathMap: {
+							'node_modules/@img/sharp/lib/sharp.node':
+								'node_modules/@img/sharp/lib/sharp.node',
+						},
+					}),
+					'index.js': '',
+				},
+				products: { '[id].func': prerenderFuncDir },
+			},
+		});
+
+		await processEdgeFunctions(collectedFunctions);
+		await processPrerenderFunctions(collectedFunctions, {
+			functionsDir,
+			outputDir: resolve('.vercel/output/static'),
+		});
+		const diagnostics = await getInvalidFunctionDiagnostics(
+			collectedFunctions.invalidFunctions,
+			{ edgeRuntimeExample },
+		);
+		restoreFsMock();
+		mockedConsole.restore();
+
+		expect(
+			diagnostics.map(({ route, reason, fix }) => ({ route, reason, fix })),
+		).toEqual([
+			{
+				route: '/image',
+				reason: 'nodejs-dependency',
+				fix: "Replace `@img/sharp` in the route with a package supporting the Edge Runtime, then add `export const runtime = 'edge';` to it.",
+			},
+			{
+				route: '/missing',
+				reason: 'missing-entrypoint',
+				fix: 'Delete the `.vercel/output` directory and build the application again (without the `--skip-build` flag).',
+			},
+			{
+				route: '/products/[id]',
+				reason: 'dynamic-static-params',
+				fix: "Add `export const dynamicParams = false;` to the route so that only the prerendered params are served, or add `export const runtime = 'edge';` to it.",
+			},
+		]);
+	});
+
+	test('prints the diagnostics as JSON when requested', async () => {
+		const processExitMock = vi
+			.spyOn(process, 'exit')
+			.mockImplementation(async () => undefined as never);
+		const mockedConsoleError = mockConsole('error');
+		const mockedConsoleLog = mockConsole('log');
+
+		const { collectedFunctions, restoreFsMock } = await collectFunctionsFrom({
+			functions: { 'about.func': nodejsFuncDir },
+		});
+
+		await checkInvalidFunctions(collectedFunctions, {
+			functionsDir,
+			vercelConfig: { version: 3 },
+			json: true,
+		});
+		restoreFsMock();
+
+		expect(processExitMock).toHaveBeenCalledWith(1);
+		mockedConsoleLog.expectCalls([
+			JSON.stringify({
+				invalidFunctions: [
+					{
+						route: '/about',
+						functionPath: '.vercel/output/functions/about.func',
+						reason: 'missing-edge-runtime',
+						message:
+							'The route is not configured to run with the Edge Runtime.',
+						fix: "Add `export const runtime = 'edge';` to the route.",
+					},
+				],
+			}),
+		]);
+		mockedConsoleError.expectCalls([
+			/- \/about\n.+The route is not configured to run with the Edge Runtime\.\n.+Fix: Add `export const runtime = 'edge';` to the route\./,
+		]);
+
+		processExitMock.mockRestore();
+		mockedConsoleError.restore();
+		mockedConsoleLog.restore();
+	});
+});
@@ -126,7 +126,7 @@ describe('checkInvalidFunctions', () => {
 
 		expect(processExitMock).toHaveBeenCalledWith(1);
 		mockedConsole.expectCalls([
-			/The following routes were not configured to run with the Edge Runtime(?:.|\n)+- \/en/,
+			/The following routes could not be built for the Edge Runtime(?:.|\n)+- \/en/,
 		]);
 
 		processExitMock.mockRestore();
@@ -334,7 +334,7 @@ describe('checkInvalidFunctions', () => {
 
 		expect(processExitMock).toHaveBeenCalledWith(1);
 		mockedConsoleError.expectCalls([
-			/The following routes were not configured to run with the Edge Runtime(?:.|\n)+- \/\[dynamic-1\]/,
+			/The following routes could not be built for the Edge Runtime(?:.|\n)+- \/\[dynamic-1\]/,
 		]);
 
 		processExitMock.mockRestore();
@@ -0,0 +1,121 @@
+import { describe, test, expect, afterEach } from 'vitest';
+import mockFs from 'mock-fs';
+import {
+	collectFunctionsFrom,
+	edgeFuncDir,
+	nodejsFuncDir,
+	getRouteInfo,
+} from '../../../_helpers';
+import { resolve } from 'path';
+import { processEdgeFunctions } from '../../../../src/buildApplication/processVercelFunctions/edgeFunctions';
+import { checkInvalidFunctions } from '../../../../src/buildApplication/processVercelFunctions/invalidFunctions';
+import { collectNodejsFunctions } from '../../../../src/buildApplication/processVercelFunctions/nodejsFunctions';
+
+const functionsDir = resolve('.vercel/output/functions');
+
+describe('collectNodejsFunctions', () => {
+	afterEach(() => mockFs.restore());
+
+	test('collects the Node.js functions when they are enabled', async () => {
+		const { collectedFunctions, restoreFsMock } = await collectFunctionsFrom({
+			functions: {
+				'index.func': edgeFuncDir,
+				api: {
+					'hello.func': {
+						'.vc-config.json': JSON.stringify({
+							runtime: 'nodejs18.x',
+							handler: 'api/hello.js',
+							launcherType: 'Nodejs',
+						}),
+						api: { 'hello.js': '' },
+					},
+					'mapped.func': {
+						'.vc-config.json': JSON.stringify({
+							runtime: 'nodejs18.x',
+							handler: 'api/mapped.js',
+							filePathMap: { 'api/mapped.js': 'api/mapped.js' },
+						}),
+					},
+				},
+			},
+			otherDirs: { api: { 'mapped.js': '' } },
+		});
+
+		await processEdgeFunctions(collectedFunctions);
+		await checkInvalidFunctions(collectedFunctions, {
+			functionsDir,
+			vercelConfig: { version: 3 },
+			experimentalNodejsFunctions: true,
+		});
+		restoreFsMock();
+
+		const { edgeFunctions, nodejsFunctions, invalidFunctions } =
+			collectedFunctions;
+
+		expect(edgeFunctions.size).toEqual(1);
+		expect(nodejsFunctions.size).toEqual(2);
+		expect(getRouteInfo(nodejsFunctions, 'api/hello.func')).toEqual({
+			path: '/api/hello',
+			overrides: [],
+		});
+		expect(getRouteInfo(nodejsFunctions, 'api/mapped.func')).toEqual({
+			path: '/api/mapped',
+			overrides: [],
+		});
+		expect(invalidFunctions.size).toEqual(0);
+	});
+
+	test('adds rsc routes as overrides of the non-rsc Node.js functions', async () => {
+		const { collectedFunctions, restoreFsMock } = await collectFunctionsFrom({
+			functions: {
+				'index.func': nodejsFuncDir,
+				'index.rsc.func': nodejsFuncDir,
+			},
+		});
+
+		await processEdgeFunctions(collectedFunctions);
+		await checkInvalidFunctions(collectedFunctions, {
+			functionsDir,
+			vercelConfig: { version: 3 },
+			experimentalNodejsFunctions: true,
+		});
+		restoreFsMock();
+
+		const { nodejsFunctions, invalidFunctions, ignoredFunctions } =
+			collectedFunctions;
+
+		expect(nodejsFunctions.size).toEqual(1);
+		expect(getRouteInfo(nodejsFunctions, 'index.func')).toEqual({
+			path: '/index',
+			overrides: ['/', '/index.rsc'],
+		});
+		expect(invalidFunctions.size).toEqual(0);
+		expect(ignoredFunctions.size).toEqual(1);
+		expect(
+			ignoredFunctions.get(resolve(functionsDir, 'index.rsc.func'))?.reason,
+		).toEqual('unnecessary rsc function');
+	});
+
+	test('leaves the Node.js functions without entrypoint invalid', async () => {
+		const { collectedFunctions, restoreFsMock } = await collectFunctionsFrom({
+			functions: {
+				'index.func': edgeFuncDir,
+				'api.func': {
+					'.vc-config.json': JSON.stringify({
+						runtime: 'nodejs18.x',
+						handler: 'missing.js',
+					}),
+				},
+			},
+		});
+
+		await processEdgeFunctions(collectedFunctions);
+		await collectNodejsFunctions(collectedFunctions);
+		restoreFsMock();
+
+		const { nodejsFunctions, invalidFunctions } = collectedFunctions;
+
+		expect(nodejsFunctions.size).toEqual(0);
+		expect(invalidFunctions.size).toEqual(1);
+	});
+});
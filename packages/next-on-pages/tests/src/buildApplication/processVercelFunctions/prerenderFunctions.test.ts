@@ -6,15 +6,49 @@ import {
 	mockPrerenderConfigFile,
 	edgeFuncDir,
 	prerenderFuncDir,
+	prerenderEdgeFuncDir,
 	getRouteInfo,
 } from '../../../_helpers';
 import { resolve } from 'path';
 import { readdirSync } from 'node:fs';
-import { processPrerenderFunctions } from '../../../../src/buildApplication/processVercelFunctions/prerenderFunctions';
+import {
+	getStaticIsrRoutes,
+	processPrerenderFunctions,
+} from '../../../../src/buildApplication/processVercelFunctions/prerenderFunctions';
 
 const functionsDir = resolve('.vercel/output/functions');
 const outputDir = resolve('.vercel/output/static');
 
+// Output of `export const revalidate = 60` in an app router page using the Node.js runtime.
+const nodejsIsrFuncDir = {
+	'.vc-config.json': JSON.stringify({
+		operationType: 'ISR',
+		handler: '___next_launcher.cjs',
+		runtime: 'nodejs18.x',
+		launcherType: 'Nodejs',
+		shouldAddHelpers: false,
+		supportsResponseStreaming: true,
+	}),
+	'___next_launcher.cjs': '',
+};
+const nodejsIsrPrerenderConfig = (path: string) =>
+	JSON.stringify({
+		...JSON.parse(mockPrerenderConfigFile(path, { expiration: 60 })),
+		group: 1,
+		bypassToken: 'bypass-token',
+		allowQuery: [],
+	});
+const nodejsIsrPageFunctions = {
+	blog: {
+		'post.func': nodejsIsrFuncDir,
+		'post.prerender-config.json': nodejsIsrPrerenderConfig('post'),
+		'post.prerender-fallback.html': '',
+		'post.rsc.func': nodejsIsrFuncDir,
+		'post.rsc.prerender-config.json': nodejsIsrPrerenderConfig('post.rsc'),
+		'post.rsc.prerender-fallback.rsc': '',
+	},
+};
+
 describe('processPrerenderFunctions', () => {
 	afterEach(() => mockFs.restore());
 
@@ -381,6 +415,141 @@ describe('processPrerenderFunctions', () => {
 		mockedConsole.restore();
 	});
 
+	test('keeps the edge functions of ISR routes', async () => {
+		const mockedConsole = mockConsole('warn');
+
+		const { collectedFunctions, restoreFsMock } = await collectFunctionsFrom({
+			functions: {
+				blog: {
+					'edge.func': prerenderEdgeFuncDir,
+					'edge.prerender-config.json': mockPrerenderConfigFile('edge', {
+						expiration: 60,
+					}),
+					'edge.prerender-fallback.html': '',
+					'never.func': prerenderEdgeFuncDir,
+					'never.prerender-config.json': mockPrerenderConfigFile('never'),
+					'never.prerender-fallback.html': '',
+					'nodejs.func': prerenderFuncDir,
+					'nodejs.prerender-config.json': mockPrerenderConfigFile('nodejs', {
+						expiration: 60,
+					}),
+					'nodejs.prerender-fallback.html': '',
+				},
+			},
+		});
+
+		await processPrerenderFunctions(collectedFunctions, {
+			functionsDir,
+			outputDir,
+		});
+		restoreFsMock();
+
+		const { edgeFunctions, prerenderedFunctions, invalidFunctions } =
+			collectedFunctions;
+
+		expect(edgeFunctions.size).toEqual(1);
+		expect(getRouteInfo(edgeFunctions, 'blog/edge.func')).toEqual({
+			path: '/blog/edge',
+			overrides: [],
+		});
+
+		expect(prerenderedFunctions.size).toEqual(3);
+		expect(getRouteInfo(prerenderedFunctions, 'blog/edge.func')).toEqual({
+			path: '/blog/edge.html',
+			headers: { vary: 'RSC, Next-Router-State-Tree, Next-Router-Prefetch' },
+			overrides: ['/blog/edge'],
+			expiration: 60,
+		});
+		expect(
+			getRouteInfo(prerenderedFunctions, 'blog/never.func')?.expiration,
+		).toBeUndefined();
+		expect(
+			getRouteInfo(prerenderedFunctions, 'blog/nodejs.func')?.expiration,
+		).toBeUndefined();
+
+		expect(invalidFunctions.size).toEqual(0);
+
+		mockedConsole.expectCalls([
+			/The ISR route \/blog\/nodejs can't be regenerated/,
+		]);
+		mockedConsole.restore();
+	});
+
+	test('warns about the Next.js ISR pages with Node.js prerender functions', async () => {
+		const mockedConsole = mockConsole('warn');
+
+		const { collectedFunctions, restoreFsMock } = await collectFunctionsFrom({
+			functions: nodejsIsrPageFunctions,
+		});
+
+		await processPrerenderFunctions(collectedFunctions, {
+			functionsDir,
+			outputDir,
+		});
+		restoreFsMock();
+
+		const { edgeFunctions, prerenderedFunctions, invalidFunctions } =
+			collectedFunctions;
+
+		expect(edgeFunctions.size).toEqual(0);
+		expect(prerenderedFunctions.size).toEqual(2);
+		expect(getRouteInfo(prerenderedFunctions, 'blog/post.func')).toEqual({
+			path: '/blog/post.html',
+			headers: { vary: 'RSC, Next-Router-State-Tree, Next-Router-Prefetch' },
+			overrides: ['/blog/post'],
+			expiration: undefined,
+			staticIsr: true,
+		});
+		expect(invalidFunctions.size).toEqual(0);
+
+		expect(getStaticIsrRoutes(prerenderedFunctions)).toEqual(['/blog/post']);
+
+		mockedConsole.expectCalls([
+			/The ISR route \/blog\/post can't be regenerated as its prerender function is not an edge function, it is only served from its prerendered file \(even when revalidated with `revalidatePath`\)\. Set the `--experimental-nodejs-functions` flag/,
+		]);
+		mockedConsole.restore();
+	});
+
+	test('keeps the Node.js functions of ISR routes when they are enabled', async () => {
+		const mockedConsole = mockConsole('warn');
+
+		const { collectedFunctions, restoreFsMock } = await collectFunctionsFrom({
+			functions: nodejsIsrPageFunctions,
+		});
+
+		await processPrerenderFunctions(collectedFunctions, {
+			functionsDir,
+			outputDir,
+			experimentalNodejsFunctions: true,
+		});
+		restoreFsMock();
+
+		const { edgeFunctions, nodejsFunctions, prerenderedFunctions } =
+			collectedFunctions;
+
+		expect(edgeFunctions.size).toEqual(0);
+		expect(nodejsFunctions.size).toEqual(2);
+		expect(getRouteInfo(nodejsFunctions, 'blog/post.func')).toEqual({
+			path: '/blog/post',
+			overrides: [],
+		});
+		expect(getRouteInfo(nodejsFunctions, 'blog/post.rsc.func')).toEqual({
+			path: '/blog/post.rsc',
+			overrides: [],
+		});
+
+		expect(getRouteInfo(prerenderedFunctions, 'blog/post.func')).toEqual({
+			path: '/blog/post.html',
+			headers: { vary: 'RSC, Next-Router-State-Tree, Next-Router-Prefetch' },
+			overrides: ['/blog/post'],
+			expiration: 60,
+		});
+		expect(getStaticIsrRoutes(prerenderedFunctions)).toEqual([]);
+
+		mockedConsole.expectCalls([]);
+		mockedConsole.restore();
+	});
+
 	test('fails with missing file', async () => {
 		const mockedConsole = mockConsole('warn');
 
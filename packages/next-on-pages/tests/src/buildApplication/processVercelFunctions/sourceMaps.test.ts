@@ -0,0 +1,161 @@
+import { describe, test, expect, afterEach } from 'vitest';
+import mockFs from 'mock-fs';
+import { TraceMap, originalPositionFor } from '@jridgewell/trace-mapping';
+import { resolve } from 'path';
+import {
+	MappedString,
+	readSourceFile,
+} from '../../../../src/buildApplication/processVercelFunctions/sourceMaps';
+
+const functionSource = {
+	path: resolve('src', 'fn.js'),
+	contents: 'let a = 1;\nexport default a;',
+};
+
+describe('MappedString', () => {
+	test('mirrors the string operations', () => {
+		const contents = MappedString.fromSource(functionSource);
+
+		expect(
+			contents
+				.replace(/(let|const) (\w+)/g, '$1 _$2')
+				.replaceLast('a;', 'b;')
+				.toString(),
+		).toEqual('let _a = 1;\nexport default b;');
+		expect(
+			MappedString.concat([
+				'/* header */',
+				contents.slice(4, 9),
+				contents.slice(11),
+			]).toString(),
+		).toEqual('/* header */a = 1export default a;');
+	});
+
+	test('maps the transformed code back to its source', () => {
+		const contents = MappedString.concat([
+			'// header\n',
+			MappedString.fromSource(functionSource).replace(
+				/export\s+default\s+/g,
+				'return ',
+			),
+		]);
+
+		expect(contents.toString()).toEqual('// header\nlet a = 1;\nreturn a;');
+
+		const sourceMap = contents.toSourceMap(resolve('dist'));
+		expect(sourceMap).toMatchObject({
+			version: 3,
+			sources: ['../src/fn.js'],
+			sourcesContent: [functionSource.contents],
+		});
+		const traceMap = new TraceMap(sourceMap);
+		expect(originalPositionFor(traceMap, { line: 2, column: 4 })).toEqual({
+			source: '../src/fn.js',
+			line: 1,
+			column: 4,
+			name: null,
+		});
+		expect(originalPositionFor(traceMap, { line: 3, column: 7 })).toEqual({
+			source: '../src/fn.js',
+			line: 2,
+			column: 15,
+			name: null,
+		});
+	});
+
+	test('maps the sections extracted after replacing the following ones', () => {
+		const contents = MappedString.fromSource({
+			path: resolve('src', 'chunks.js'),
+			contents: 'let a = 1;\nlet b = 2;\nlet c = 3;',
+		})
+			.replaceLast('let c = 3;', 'c;')
+			.replaceLast('let b = 2;', 'b;');
+		const section = MappedString.concat(['/* a */ ', contents.slice(0, 10)]);
+
+		expect(contents.toString()).toEqual('let a = 1;\nb;\nc;');
+		expect(section.toString()).toEqual('/* a */ let a = 1;');
+		expect(
+			originalPositionFor(new TraceMap(section.toSourceMap(resolve('src'))), {
+				line: 1,
+				column: 12,
+			}),
+		).toEqual({ source: 'chunks.js', line: 1, column: 4, name: null });
+	});
+
+	test("maps the code back to the source's original sources", () => {
+		const contents = MappedString.fromSource({
+			path: resolve('fn', 'index.js'),
+			contents: 'a;\nb;',
+			sourceMap: {
+				version: 3,
+				sources: ['webpack://_N_E/./app/page.tsx'],
+				sourcesContent: ['a;b;'],
+				names: [],
+				mappings: 'AAAA;AAAE',
+			},
+		});
+
+		const sourceMap = contents.toSourceMap(resolve('dist'));
+		expect(sourceMap).toMatchObject({
+			sources: ['webpack://_N_E/app/page.tsx'],
+			sourcesContent: ['a;b;'],
+		});
+		expect(
+			originalPositionFor(new TraceMap(sourceMap), { line: 2, column: 0 }),
+		).toEqual({
+			source: 'webpack://_N_E/app/page.tsx',
+			line: 1,
+			column: 2,
+			name: null,
+		});
+	});
+});
+
+describe('readSourceFile', () => {
+	afterEach(() => mockFs.restore());
+
+	test('reads the source map referenced by the file', async () => {
+		const sourceMap = {
+			version: 3,
+			sources: ['page.tsx'],
+			names: [],
+			mappings: 'AAAA',
+		};
+		mockFs({
+			fn: { 'index.js.map': JSON.stringify(sourceMap) },
+		});
+
+		expect(
+			await readSourceFile(
+				resolve('fn', 'index.js'),
+				'a;\n//# sourceMappingURL=index.js.map\n',
+			),
+		).toEqual({
+			path: resolve('fn', 'index.js'),
+			contents: 'a;\n\n',
+			sourceMap,
+		});
+		expect(
+			await readSourceFile(
+				resolve('fn', 'inline.js'),
+				`a;\n//# sourceMappingURL=data:application/json;base64,${Buffer.from(
+					JSON.stringify(sourceMap),
+				).toString('base64')}`,
+			),
+		).toEqual({
+			path: resolve('fn', 'inline.js'),
+			contents: 'a;\n',
+			sourceMap,
+		});
+		expect(
+			await readSourceFile(
+				resolve('fn', 'missing.js'),
+				'a;\n//# sourceMappingURL=missing.js.map',
+			),
+		).toEqual({
+			path: resolve('fn', 'missing.js'),
+			contents: 'a;\n',
+			sourceMap: null,
+		});
+	});
+});
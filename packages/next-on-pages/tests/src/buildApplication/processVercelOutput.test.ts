@@ -452,6 +452,67 @@ describe('processVercelOutput', () => {
 
 		expect(processed).toEqual(expected);
 	});
+
+	test('links ISR routes to the edge functions regenerating them', () => {
+		const route = {
+			headers: { vary: 'RSC, Next-Router-State-Tree, Next-Router-Prefetch' },
+			expiration: 60,
+		};
+		const inputtedPrerendered = new Map<string, FunctionInfo>([
+			[
+				'/(group)/blog.func',
+				{
+					relativePath: '/(group)/blog.func',
+					route: { ...route, path: '/blog.html', overrides: ['/blog'] },
+				} as unknown as FunctionInfo,
+			],
+			[
+				'/(group)/blog.rsc.func',
+				{
+					relativePath: '/(group)/blog.rsc.func',
+					route: { ...route, path: '/blog.rsc', overrides: [] },
+				} as unknown as FunctionInfo,
+			],
+		]);
+		const inputtedFunctions = new Map<string, FunctionInfo>([
+			[
+				'/(group)/blog.func',
+				{
+					relativePath: '/(group)/blog.func',
+					outputPath: '/blog/index.js',
+					// the RSC function has been replaced by the non-RSC one
+					route: { path: '/blog', overrides: ['/blog.rsc'] },
+				} as FunctionInfo,
+			],
+		]);
+
+		const { vercelOutput } = processVercelOutput(
+			{ version: 3 },
+			['/blog.html', '/blog.rsc'],
+			inputtedPrerendered,
+			inputtedFunctions,
+		);
+
+		const isr = { entrypoint: '/blog/index.js', expiration: 60 };
+		expect(vercelOutput.get('/blog')).toEqual({
+			type: 'override',
+			path: '/blog.html',
+			headers: route.headers,
+			isr,
+		});
+		expect(vercelOutput.get('/blog.html')).toEqual({
+			type: 'override',
+			path: '/blog.html',
+			headers: route.headers,
+			isr,
+		});
+		expect(vercelOutput.get('/blog.rsc')).toEqual({
+			type: 'override',
+			path: '/blog.rsc',
+			headers: route.headers,
+			isr,
+		});
+	});
 });
 
 describe('processOutputDir', () => {
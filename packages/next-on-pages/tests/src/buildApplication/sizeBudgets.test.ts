@@ -0,0 +1,227 @@
+import { describe, test, expect, afterEach, vi } from 'vitest';
+import mockFs from 'mock-fs';
+import type { BuildSizes } from '../../../src/buildApplication/buildReport';
+import { workerGzipByteSizeLimits } from '../../../src/buildApplication/buildReport';
+import {
+	enforceSizeBudgets,
+	getBaselineBuildSizes,
+	getExceededSizeBudgets,
+} from '../../../src/buildApplication/sizeBudgets';
+
+const { exitMock } = vi.hoisted(() => ({ exitMock: vi.fn() }));
+vi.mock('process', async () => ({
+	...(await vi.importActual<typeof import('process')>('process')),
+	exit: exitMock,
+}));
+
+const KiB = 1024;
+
+const createSizes = (
+	routes: Record<string, number>,
+	sharedChunks: Record<string, number>,
+	workerGzipByteSize: number,
+): BuildSizes => ({
+	functions: Object.entries(routes).map(([route, gzipByteSize]) => ({
+		route,
+		outputPath: `__next-on-pages-dist__/functions${route}.func.js`,
+		byteSize: gzipByteSize * 3,
+		gzipByteSize,
+		imports: {
+			webpack: Object.entries(sharedChunks).map(([path, gzipByteSize]) => ({
+				path,
+				byteSize: gzipByteSize * 3,
+				gzipByteSize,
+			})),
+			manifest: [],
+			wasm: [],
+		},
+		totalByteSize: 0,
+		totalGzipByteSize: 0,
+	})),
+	worker: {
+		byteSize: workerGzipByteSize * 3,
+		gzipByteSize: workerGzipByteSize,
+		gzipByteSizeLimits: workerGzipByteSizeLimits,
+	},
+});
+
+const sizes = createSizes(
+	{ '/home': 100 * KiB, '/blog': 2048 * KiB },
+	{ '__next-on-pages-dist__/webpack/872.js': 600 * KiB },
+	2800 * KiB,
+);
+const baselineSizes = createSizes(
+	{ '/home': 120 * KiB },
+	{ '__next-on-pages-dist__/webpack/872.js': 400 * KiB },
+	600 * KiB,
+);
+
+describe('getExceededSizeBudgets', () => {
+	test('returns the exceeded budgets compared to the baseline build', () => {
+		expect(
+			getExceededSizeBudgets(
+				sizes,
+				{ worker: 2048 * KiB, route: 500 * KiB, sharedChunk: 500 * KiB },
+				baselineSizes,
+			),
+		).toEqual([
+			{
+				type: 'worker',
+				name: '_worker.js',
+				gzipByteSize: 2800 * KiB,
+				budget: 2048 * KiB,
+				baselineGzipByteSize: 600 * KiB,
+			},
+			{
+				type: 'route',
+				name: '/blog',
+				gzipByteSize: 2048 * KiB,
+				budget: 500 * KiB,
+				baselineGzipByteSize: null,
+			},
+			{
+				type: 'sharedChunk',
+				name: '__next-on-pages-dist__/webpack/872.js',
+				gzipByteSize: 600 * KiB,
+				budget: 500 * KiB,
+				baselineGzipByteSize: 400 * KiB,
+			},
+		]);
+	});
+
+	test('only checks the configured budgets', () => {
+		expect(getExceededSizeBudgets(sizes, { route: 50 * KiB })).toEqual([
+			{
+				type: 'route',
+				name: '/home',
+				gzipByteSize: 100 * KiB,
+				budget: 50 * KiB,
+				baselineGzipByteSize: undefined,
+			},
+			{
+				type: 'route',
+				name: '/blog',
+				gzipByteSize: 2048 * KiB,
+				budget: 50 * KiB,
+				baselineGzipByteSize: undefined,
+			},
+		]);
+		expect(getExceededSizeBudgets(sizes, {})).toEqual([]);
+	});
+
+	test('checks the route budget against the route groups modules', () => {
+		const groupedSizes: BuildSizes = {
+			...sizes,
+			functions: [
+				...sizes.functions.map(fn => ({ ...fn, routeGroup: 'group-0' })),
+				...createSizes({ '/about': 100 * KiB }, {}, 0).functions,
+			],
+		};
+
+		expect(
+			getExceededSizeBudgets(groupedSizes, { route: 50 * KiB }, baselineSizes),
+		).toEqual([
+			{
+				type: 'route',
+				name: '/about',
+				gzipByteSize: 100 * KiB,
+				budget: 50 * KiB,
+				baselineGzipByteSize: null,
+			},
+			{
+				type: 'routeGroup',
+				name: 'group-0 (/home, /blog)',
+				gzipByteSize: 100 * KiB,
+				budget: 50 * KiB,
+				baselineGzipByteSize: null,
+			},
+		]);
+	});
+});
+
+describe('enforceSizeBudgets', () => {
+	afterEach(() => {
+		exitMock.mockClear();
+	});
+
+	test('fails the build with the diff from the baseline build', () => {
+		const mockedError = vi
+			.spyOn(console, 'error')
+			.mockImplementation(() => null);
+
+		enforceSizeBudgets(
+			sizes,
+			{ route: 500 * KiB, sharedChunk: 500 * KiB },
+			baselineSizes,
+		);
+
+		expect(exitMock).toHaveBeenCalledWith(1);
+		const [message] = mockedError.mock.calls[0] as [string];
+		expect(message).toMatch(
+			/The following size budgets have been exceeded \(gzipped sizes, compared to the baseline build\):/,
+		);
+		expect(message).toMatch(
+			/- Route \/blog: 2\.00 MiB exceeds the 500\.0 KiB budget \(new\)/,
+		);
+		expect(message).toMatch(
+			/- Shared chunk __next-on-pages-dist__\/webpack\/872\.js: 600\.0 KiB exceeds the 500\.0 KiB budget \(\+200\.0 KiB, was 400\.0 KiB\)/,
+		);
+
+		mockedError.mockRestore();
+	});
+
+	test('only warns when configured to', () => {
+		const mockedWarn = vi.spyOn(console, 'warn').mockImplementation(() => null);
+
+		enforceSizeBudgets(sizes, { worker: 2048 * KiB, onExceeded: 'warn' });
+
+		expect(exitMock).not.toHaveBeenCalled();
+		const [message] = mockedWarn.mock.calls[0] as [string];
+		expect(message).toMatch(
+			/Warning: The following size budgets have been exceeded \(gzipped sizes\):\n.*- Worker _worker\.js: 2\.73 MiB exceeds the 2\.00 MiB budget\n?$/,
+		);
+
+		mockedWarn.mockRestore();
+	});
+
+	test('does nothing when the budgets are not exceeded', () => {
+		const mockedError = vi
+			.spyOn(console, 'error')
+			.mockImplementation(() => null);
+
+		enforceSizeBudgets(sizes, { worker: 10 * 1024 * KiB });
+
+		expect(mockedError).not.toHaveBeenCalled();
+
+		mockedError.mockRestore();
+	});
+});
+
+describe('getBaselineBuildSizes', () => {
+	afterEach(() => mockFs.restore());
+
+	test('reads the sizes from the previous build log', async () => {
+		mockFs({
+			'_worker.js': {
+				'nop-build-log.json': JSON.stringify({ sizes: baselineSizes }),
+			},
+			'main-build-log.json': JSON.stringify({ sizes }),
+			'old-build-log.json': JSON.stringify({ buildFiles: {} }),
+		});
+
+		expect(await getBaselineBuildSizes('_worker.js', {})).toEqual(
+			baselineSizes,
+		);
+		expect(
+			await getBaselineBuildSizes('_worker.js', {
+				baseline: 'main-build-log.json',
+			}),
+		).toEqual(sizes);
+		expect(
+			await getBaselineBuildSizes('_worker.js', {
+				baseline: 'old-build-log.json',
+			}),
+		).toEqual(null);
+		expect(await getBaselineBuildSizes('missing', {})).toEqual(null);
+	});
+});
@@ -0,0 +1,101 @@
+import { describe, test, expect, afterEach } from 'vitest';
+import mockFs from 'mock-fs';
+import { resolve } from 'path';
+import { resolveConfigFile } from '../../../src/config/resolveConfigFile';
+import { mockConsole } from '../../_helpers';
+
+describe('resolveConfigFile', () => {
+	afterEach(() => mockFs.restore());
+
+	test('returns null when there is no config file', async () => {
+		mockFs({ 'package.json': '{}' });
+
+		expect(await resolveConfigFile()).toEqual(null);
+	});
+
+	test('reads a json config file', async () => {
+		mockFs({
+			'next-on-pages.config.json': JSON.stringify({
+				outdir: 'dist',
+				disableWorkerMinification: true,
+				cache: { adaptor: 'kv' },
+				routesJson: { exclude: ['/blog/*'] },
+			}),
+		});
+
+		expect(await resolveConfigFile()).toEqual({
+			path: resolve('next-on-pages.config.json'),
+			config: {
+				outdir: 'dist',
+				disableWorkerMinification: true,
+				cache: { adaptor: 'kv' },
+				routesJson: { exclude: ['/blog/*'] },
+			},
+		});
+	});
+
+	test('ignores (and warns about) unsupported options', async () => {
+		const mockedConsole = mockConsole('warn');
+		mockFs({
+			'next-on-pages.config.json': JSON.stringify({
+				skipBuild: true,
+				watch: true,
+				unknown: 123,
+			}),
+		});
+
+		expect((await resolveConfigFile())?.config).toEqual({ skipBuild: true });
+		mockedConsole.expectCalls([
+			/the following options in 'next-on-pages.config.json' are not supported and will be ignored: watch, unknown/,
+		]);
+		mockedConsole.restore();
+	});
+
+	test('throws when the config file does not contain a config object', async () => {
+		mockFs({ 'next-on-pages.config.json': '["dist"]' });
+
+		await expect(resolveConfigFile()).rejects.toThrowError(
+			"Invalid config file 'next-on-pages.config.json'",
+		);
+	});
+
+	test('throws when an option has an invalid value', async () => {
+		mockFs({
+			'next-on-pages.config.json': JSON.stringify({
+				cache: { adaptor: 'foo' },
+			}),
+		});
+
+		await expect(resolveConfigFile()).rejects.toThrowError(
+			"Invalid config file 'next-on-pages.config.json', the 'cache.adaptor' option needs to be one of 'cache-api', 'kv', 'd1', 'r2', 'tiered'.",
+		);
+
+		mockFs({
+			'next-on-pages.config.json': JSON.stringify({
+				sizeBudgets: { route: '100kb' },
+			}),
+		});
+
+		await expect(resolveConfigFile()).rejects.toThrowError(
+			"Invalid config file 'next-on-pages.config.json', the 'sizeBudgets.route' option needs to be a number.",
+		);
+
+		mockFs({
+			'next-on-pages.config.json': JSON.stringify({
+				images: { remotePatterns: [{ hostname: 'example.com' }, {}] },
+			}),
+		});
+
+		await expect(resolveConfigFile()).rejects.toThrowError(
+			"Invalid config file 'next-on-pages.config.json', the 'images.remotePatterns[1].hostname' option needs to be a string.",
+		);
+	});
+
+	test('throws when the config file can not be parsed', async () => {
+		mockFs({ 'next-on-pages.config.json': '{ outdir: ' });
+
+		await expect(resolveConfigFile()).rejects.toThrowError(
+			"Invalid config file 'next-on-pages.config.json'",
+		);
+	});
+});
@@ -0,0 +1,221 @@
+import { describe, test, expect } from 'vitest';
+import type { RoutingInfo } from '../../../src/buildApplication/buildWorkerFile';
+import {
+	createInspectedRequest,
+	formatRoutingTrace,
+	traceRequest,
+} from '../../../src/inspectRoute';
+
+const routingInfo: RoutingInfo = {
+	config: {
+		version: 3,
+		routes: {
+			none: [
+				{
+					src: '^/old$',
+					dest: '/new',
+					headers: { 'x-from': 'old' },
+					continue: true,
+				},
+				{
+					src: '^/(.*)$',
+					middlewarePath: 'middleware',
+					missing: [{ type: 'cookie', key: 'token' }],
+					continue: true,
+				},
+			],
+			filesystem: [],
+			miss: [],
+			rewrite: [
+				{
+					src: '^/blog/(?<slug>[^/]+)$',
+					dest: '/blog/[slug]?slug=$slug',
+					has: [{ type: 'header', key: 'x-blog' }],
+				},
+			],
+			resource: [],
+			hit: [],
+			error: [{ src: '^/(.*)$', dest: '/404', status: 404 }],
+		},
+	},
+	output: {
+		'/new': { type: 'static' },
+		'/404': { type: 'static' },
+		'/blog/[slug]': {
+			type: 'function',
+			entrypoint: './__next-on-pages-dist__/functions/blog/[slug].func.js',
+		},
+		middleware: {
+			type: 'middleware',
+			entrypoint: './__next-on-pages-dist__/functions/middleware.func.js',
+		},
+	},
+	buildMetadata: {
+		collectedLocales: [],
+		buildId: 'test-build',
+		buildTimestamp: 0,
+		imagesMode: 'optimized',
+	},
+};
+
+describe('inspectRoute', () => {
+	test('traces the routes, middleware, headers and rewrites of each phase', async () => {
+		const request = createInspectedRequest({
+			url: '/old',
+			method: 'get',
+			headers: [],
+			cookies: [],
+		});
+
+		const { trace, match } = await traceRequest(request, routingInfo);
+
+		expect(trace).toEqual([
+			{ type: 'phase', phase: 'none', path: '/old' },
+			{
+				type: 'route',
+				phase: 'none',
+				index: 0,
+				src: '^/old$',
+				checks: [{ type: 'src', passed: true }],
+				matched: true,
+			},
+			{
+				type: 'headers',
+				phase: 'none',
+				index: 0,
+				headers: { 'x-from': 'old' },
+			},
+			{ type: 'rewrite', phase: 'none', index: 0, from: '/old', to: '/new' },
+			{
+				type: 'route',
+				phase: 'none',
+				index: 1,
+				src: '^/(.*)$',
+				checks: [
+					{ type: 'src', passed: true },
+					{
+						type: 'missing',
+						field: { type: 'cookie', key: 'token' },
+						passed: true,
+					},
+				],
+				matched: true,
+			},
+			{ type: 'middleware', path: 'middleware', status: 200 },
+			{ type: 'phase', phase: 'hit', path: '/new' },
+		]);
+		expect(match.path).toEqual('/new');
+	});
+
+	test('traces the failed checks and the error phase', async () => {
+		const request = createInspectedRequest({
+			url: 'https://example.com/blog/hello',
+			method: 'GET',
+			headers: [],
+			cookies: ['token=abc'],
+		});
+
+		const { trace, match } = await traceRequest(request, routingInfo);
+
+		expect(trace.filter(({ type }) => type === 'route')).toEqual([
+			{
+				type: 'route',
+				phase: 'none',
+				index: 1,
+				src: '^/(.*)$',
+				checks: [
+					{ type: 'src', passed: true },
+					{
+						type: 'missing',
+						field: { type: 'cookie', key: 'token' },
+						passed: false,
+					},
+				],
+				matched: false,
+			},
+			{
+				type: 'route',
+				phase: 'rewrite',
+				index: 0,
+				src: '^/blog/(?<slug>[^/]+)$',
+				checks: [
+					{ type: 'src', passed: true },
+					{
+						type: 'has',
+						field: { type: 'header', key: 'x-blog' },
+						passed: false,
+					},
+				],
+				matched: false,
+			},
+			{
+				type: 'route',
+				phase: 'error',
+				index: 0,
+				src: '^/(.*)$',
+				checks: [
+					{ type: 'src', passed: true },
+					{ type: 'status', passed: true },
+				],
+				matched: true,
+			},
+		]);
+		expect(match).toEqual(
+			expect.objectContaining({ path: '/404', status: 404 }),
+		);
+	});
+
+	test('formats the trace in a human readable way', async () => {
+		const request = createInspectedRequest({
+			url: '/blog/hello',
+			method: 'GET',
+			headers: ['x-blog: 1'],
+			cookies: ['token=abc'],
+		});
+
+		const { trace, match } = await traceRequest(request, routingInfo);
+
+		expect(
+			formatRoutingTrace(request, trace, match, routingInfo.output),
+		).toEqual([
+			'Inspecting GET http://localhost/blog/hello',
+			'',
+			"Phase 'none' (path: /blog/hello)",
+			'  ✗ route #1 ^/(.*)$',
+			"      missing: cookie 'token' (failed)",
+			'',
+			"Phase 'filesystem' (path: /blog/hello)",
+			'',
+			"Phase 'rewrite' (path: /blog/hello)",
+			'  ✓ route #0 ^/blog/(?<slug>[^/]+)$',
+			"      has: header 'x-blog' (passed)",
+			'      rewrite: /blog/hello -> /blog/[slug]',
+			'',
+			"Phase 'hit' (path: /blog/[slug])",
+			'',
+			'Result:',
+			'  path: /blog/[slug]',
+			'  build output item: function (./__next-on-pages-dist__/functions/blog/[slug].func.js)',
+			'  status: from the build output item',
+		]);
+	});
+
+	test('throws on invalid headers or cookies', () => {
+		expect(() =>
+			createInspectedRequest({
+				url: '/',
+				method: 'GET',
+				headers: ['invalid'],
+				cookies: [],
+			}),
+		).toThrowError("Invalid header 'invalid'");
+		expect(() =>
+			createInspectedRequest({
+				url: '/',
+				method: 'GET',
+				headers: [],
+				cookies: ['invalid'],
+			}),
+		).toThrowError("Invalid cookie 'invalid'");
+	});
+});
@@ -0,0 +1,63 @@
+import { describe, test, expect, afterEach } from 'vitest';
+import mockFs from 'mock-fs';
+import { resolve } from 'path';
+import { findStaticAsset } from '../../../src/previewApplication/assets';
+
+describe('findStaticAsset', () => {
+	afterEach(() => mockFs.restore());
+
+	const outputDir = resolve('static');
+
+	function mockOutputDir() {
+		mockFs({
+			static: {
+				'_worker.js': { 'index.js': '' },
+				'_routes.json': '{}',
+				'index.html': '',
+				'about.html': '',
+				blog: { 'index.html': '' },
+				_next: { static: { 'main.js': '' } },
+			},
+			'secret.txt': '',
+		});
+	}
+
+	test('finds files by their exact path', async () => {
+		mockOutputDir();
+
+		expect(await findStaticAsset(outputDir, '/_next/static/main.js')).toEqual(
+			resolve('static/_next/static/main.js'),
+		);
+		expect(await findStaticAsset(outputDir, '/about.html')).toEqual(
+			resolve('static/about.html'),
+		);
+	});
+
+	test('finds html files by their extension-less paths', async () => {
+		mockOutputDir();
+
+		expect(await findStaticAsset(outputDir, '/')).toEqual(
+			resolve('static/index.html'),
+		);
+		expect(await findStaticAsset(outputDir, '/about')).toEqual(
+			resolve('static/about.html'),
+		);
+		expect(await findStaticAsset(outputDir, '/blog')).toEqual(
+			resolve('static/blog/index.html'),
+		);
+		expect(await findStaticAsset(outputDir, '/blog/')).toEqual(
+			resolve('static/blog/index.html'),
+		);
+	});
+
+	test('does not serve non-asset files or files outside the output directory', async () => {
+		mockOutputDir();
+
+		expect(await findStaticAsset(outputDir, '/_worker.js/index.js')).toEqual(
+			null,
+		);
+		expect(await findStaticAsset(outputDir, '/_routes.json')).toEqual(null);
+		expect(await findStaticAsset(outputDir, '/../secret.txt')).toEqual(null);
+		expect(await findStaticAsset(outputDir, '/unknown')).toEqual(null);
+	});
+});
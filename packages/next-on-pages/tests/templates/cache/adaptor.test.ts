@@ -0,0 +1,208 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import type { IncrementalCacheValue } from '../../../templates/cache';
+import { CacheAdaptor } from '../../../templates/cache';
+
+class MemoryAdaptor extends CacheAdaptor {
+	public store = new Map<string, { value: string; revalidate?: number }>();
+
+	public override async retrieve(key: string) {
+		return this.store.get(key)?.value ?? null;
+	}
+
+	public override async update(
+		key: string,
+		value: string,
+		revalidate?: number,
+	) {
+		this.store.set(key, { value, revalidate });
+	}
+}
+
+class ListableMemoryAdaptor extends MemoryAdaptor {
+	public override async listKeys(prefix: string) {
+		return [...this.store.keys()].filter(key => key.startsWith(prefix));
+	}
+}
+
+const createFetchValue = (
+	tags: string[],
+	revalidate = 60,
+): IncrementalCacheValue => ({
+	kind: 'FETCH',
+	data: { headers: {}, body: 'body', url: 'https://example.com' },
+	tags,
+	revalidate,
+});
+
+describe('CacheAdaptor', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	test('keeps entries in the storage after they need to be revalidated', async () => {
+		const adaptor = new MemoryAdaptor();
+
+		await adaptor.set('key', createFetchValue(['tag-a'], 60));
+
+		expect(adaptor.store.get('key')?.revalidate).toEqual(60 + adaptor.staleTtl);
+	});
+
+	test('returns fresh entries', async () => {
+		const adaptor = new MemoryAdaptor();
+		await adaptor.set('key', createFetchValue(['tag-b'], 60));
+
+		vi.advanceTimersByTime(59_000);
+
+		const entry = await adaptor.get('key', {});
+		expect(entry?.value).toEqual(createFetchValue(['tag-b'], 60));
+		expect(entry?.cacheState).toBeUndefined();
+	});
+
+	test('returns entries past their revalidate time as stale', async () => {
+		const adaptor = new MemoryAdaptor();
+		await adaptor.set('key', createFetchValue(['tag-c'], 60));
+
+		vi.advanceTimersByTime(60_000);
+
+		const entry = await adaptor.get('key', {});
+		expect(entry?.value).toEqual(createFetchValue(['tag-c'], 60));
+		expect(entry?.cacheState).toEqual('stale');
+	});
+
+	test('returns entries with revalidated tags as stale', async () => {
+		const adaptor = new MemoryAdaptor();
+		await adaptor.set('key', createFetchValue(['tag-d'], 0));
+
+		vi.advanceTimersByTime(1_000);
+
+		// the tag revalidated by another request
+		await adaptor.setTags(['tag-d'], { revalidatedAt: Date.now() });
+
+		// note: adaptors are created for each request
+		const newAdaptor = new MemoryAdaptor();
+		newAdaptor.store = adaptor.store;
+
+		const entry = await newAdaptor.get('key', {});
+		expect(entry?.cacheState).toEqual('stale');
+	});
+
+	test('does not return entries with tags revalidated during the request', async () => {
+		const adaptor = new MemoryAdaptor();
+		await adaptor.set('key', createFetchValue(['tag-e'], 0));
+
+		await adaptor.revalidateTag('tag-e');
+
+		expect(await adaptor.get('key', {})).toEqual(null);
+	});
+});
+
+describe('CacheAdaptor tags', () => {
+	test('stores each tag in its own entries', async () => {
+		const adaptor = new MemoryAdaptor();
+
+		await adaptor.set('key-a', createFetchValue(['tag-f', 'tag-g']));
+		await adaptor.set('key-b', createFetchValue(['tag-f']));
+		await adaptor.setTags(['tag-g'], { revalidatedAt: 1000 });
+
+		expect(adaptor.store.get('tags-manifest/tag-f/keys')?.value).toEqual(
+			JSON.stringify(['key-a', 'key-b']),
+		);
+		expect(adaptor.store.get('tags-manifest/tag-g/keys')?.value).toEqual(
+			JSON.stringify(['key-a']),
+		);
+		expect(
+			adaptor.store.get('tags-manifest/tag-g/revalidated-at')?.value,
+		).toEqual('1000');
+		expect(
+			await adaptor.getTagsRevalidatedAt(['tag-f', 'tag-g', 'tag-h']),
+		).toEqual({ 'tag-f': undefined, 'tag-g': 1000, 'tag-h': undefined });
+		expect(await adaptor.getTagKeys('tag-f')).toEqual(['key-a', 'key-b']);
+	});
+
+	test("stores each of a tag's keys in its own entry when the storage can list its entries", async () => {
+		const adaptor = new ListableMemoryAdaptor();
+
+		await adaptor.set('key-a', createFetchValue(['tag-k']));
+		await adaptor.set('key/b', createFetchValue(['tag-k']));
+
+		expect([...adaptor.store.keys()]).toContain(
+			'tags-manifest/tag-k/keys/key%2Fb',
+		);
+		expect(await adaptor.getTagKeys('tag-k')).toEqual(['key-a', 'key/b']);
+	});
+
+	test('does not lose the keys of concurrent updates of a tag', async () => {
+		const adaptor = new ListableMemoryAdaptor();
+
+		await Promise.all([
+			adaptor.setTags(['tag-l'], { cacheKey: 'key-a' }),
+			adaptor.setTags(['tag-l'], { cacheKey: 'key-b' }),
+		]);
+
+		expect((await adaptor.getTagKeys('tag-l')).sort()).toEqual([
+			'key-a',
+			'key-b',
+		]);
+	});
+
+	test('migrates the version 1 tags manifest in batches', async () => {
+		const adaptor = new MemoryAdaptor();
+		adaptor.tagsManifestMigrationBatchSize = 2;
+
+		adaptor.store.set('tags-manifest', {
+			value: JSON.stringify({
+				version: 1,
+				items: {
+					'tag-i': { keys: ['key-a'], revalidatedAt: 1000 },
+					'tag-j': { keys: ['key-a', 'key-b'] },
+				},
+			}),
+		});
+		adaptor.store.set('tags-manifest/tag-i/revalidated-at', { value: '2000' });
+
+		// the tags are read from the tags manifest until they are migrated
+		expect(await adaptor.getTagsRevalidatedAt(['tag-i', 'tag-j'])).toEqual({
+			'tag-i': 2000,
+			'tag-j': undefined,
+		});
+		expect(await adaptor.getTagKeys('tag-j')).toEqual(['key-a', 'key-b']);
+
+		await adaptor.migrateTagsManifest();
+		expect(
+			adaptor.store.get('tags-manifest/migration-progress')?.value,
+		).toEqual('2');
+		expect(adaptor.store.get('tags-manifest/tag-j/keys')).toBeUndefined();
+		expect(await adaptor.getTagKeys('tag-j')).toEqual(['key-a', 'key-b']);
+
+		await adaptor.migrateTagsManifest();
+		expect(
+			adaptor.store.get('tags-manifest/tag-i/revalidated-at')?.value,
+		).toEqual('2000');
+		expect(adaptor.store.get('tags-manifest/tag-j/keys')?.value).toEqual(
+			JSON.stringify(['key-a', 'key-b']),
+		);
+		expect(adaptor.store.get('tags-manifest')?.value).toEqual(
+			JSON.stringify({ version: 2 }),
+		);
+		expect(await adaptor.getTagKeys('tag-j')).toEqual(['key-a', 'key-b']);
+	});
+
+	test('loads the tags manifest of its own storage', async () => {
+		const adaptor = new MemoryAdaptor();
+		const otherAdaptor = new MemoryAdaptor();
+		adaptor.store.set('tags-manifest', {
+			value: JSON.stringify({
+				version: 1,
+				items: { 'tag-m': { keys: ['key-a'] } },
+			}),
+		});
+
+		expect(await adaptor.getTagKeys('tag-m')).toEqual(['key-a']);
+		expect(await otherAdaptor.getTagKeys('tag-m')).toEqual([]);
+	});
+});
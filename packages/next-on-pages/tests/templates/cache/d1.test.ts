@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import initSqlJs from 'sql.js';
+import type { IncrementalCacheValue } from '../../../templates/cache';
+import D1Adaptor from '../../../templates/cache/d1';
+
+type SqlValue = string | number | null;
+
+/**
+ * Creates a fake D1 database backed by an in-memory SQLite database, recording the executed queries
+ * and enforcing D1's limit of bound parameters.
+ */
+const createD1Database = async () => {
+	const SQL = await initSqlJs();
+	const sqlite = new SQL.Database();
+	const queries: string[] = [];
+
+	const execute = (query: string, params: SqlValue[]) => {
+		queries.push(query.replace(/\s+/g, ' ').trim());
+		if (params.length > 100) {
+			throw new Error('D1 allows at most 100 bound parameters per statement');
+		}
+
+		const stmt = sqlite.prepare(query);
+		stmt.bind(params);
+		const results: Record<string, SqlValue>[] = [];
+		while (stmt.step()) {
+			results.push(stmt.getAsObject() as Record<string, SqlValue>);
+		}
+		stmt.free();
+
+		return results;
+	};
+
+	const prepare = (query: string, params: SqlValue[] = []) => ({
+		bind: (...values: SqlValue[]) => prepare(query, values),
+		first: async (column: string) =>
+			execute(query, params)[0]?.[column] ?? null,
+		all: async () => ({ results: execute(query, params) }),
+		run: async () => ({ results: execute(query, params) }),
+	});
+
+	const db = {
+		prepare: (query: string) => prepare(query),
+		batch: async (statements: ReturnType<typeof prepare>[]) =>
+			Promise.all(statements.map(async statement => statement.run())),
+	} as unknown as D1Database;
+
+	return { db, queries, sqlite };
+};
+
+const createFetchValue = (
+	tags: string[],
+	revalidate = 60,
+): IncrementalCacheValue => ({
+	kind: 'FETCH',
+	data: { headers: {}, body: 'body', url: 'https://example.com' },
+	tags,
+	revalidate,
+});
+
+const stubDatabase = (db: D1Database) =>
+	vi.stubGlobal('process', {
+		...process,
+		env: { ...process.env, __NEXT_ON_PAGES__D1_SUSPENSE_CACHE: db },
+	});
+
+describe('D1Adaptor', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.unstubAllGlobals();
+	});
+
+	test('creates the schema on first use', async () => {
+		const { db, queries, sqlite } = await createD1Database();
+		stubDatabase(db);
+
+		await new D1Adaptor().retrieve('key');
+		const migrationQueries = queries.length;
+		await new D1Adaptor().retrieve('key');
+
+		const [tables] = sqlite.exec(
+			"SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name",
+		);
+		expect(tables?.values.flat()).toEqual([
+			'suspense_cache_entries',
+			'suspense_cache_migrations',
+			'suspense_cache_tag_keys',
+			'suspense_cache_tags',
+		]);
+		const [migrations] = sqlite.exec(
+			'SELECT version FROM suspense_cache_migrations',
+		);
+		expect(migrations?.values).toEqual([[1]]);
+		// the schema is only migrated once
+		expect(queries.length).toEqual(migrationQueries + 1);
+	});
+
+	test('gets the entries that have been set', async () => {
+		const { db } = await createD1Database();
+		stubDatabase(db);
+		const adaptor = new D1Adaptor();
+
+		await adaptor.set('key', createFetchValue(['d1-tag-a']));
+
+		const entry = await adaptor.get('key', {});
+		expect(entry?.value).toEqual(createFetchValue(['d1-tag-a']));
+		expect(entry?.cacheState).toBeUndefined();
+		expect(await adaptor.getTagKeys('d1-tag-a')).toEqual(['key']);
+		expect(await adaptor.get('missing-key', {})).toEqual(null);
+	});
+
+	test('revalidates a tag with a single statement', async () => {
+		const { db, queries } = await createD1Database();
+		stubDatabase(db);
+		const adaptor = new D1Adaptor();
+		await adaptor.set('key', createFetchValue(['d1-tag-b']));
+		queries.length = 0;
+
+		await adaptor.revalidateTag('d1-tag-b');
+
+		expect(queries).toEqual([
+			'INSERT INTO suspense_cache_tags (tag, revalidated_at) VALUES (?1, ?2) ON CONFLICT (tag) DO UPDATE SET revalidated_at = excluded.revalidated_at',
+		]);
+		expect(await adaptor.getTagsRevalidatedAt(['d1-tag-b'])).toEqual({
+			'd1-tag-b': Date.now(),
+		});
+	});
+
+	test('returns entries with revalidated tags as stale', async () => {
+		const { db } = await createD1Database();
+		stubDatabase(db);
+		const adaptor = new D1Adaptor();
+		await adaptor.set('key', createFetchValue(['d1-tag-c'], 0));
+
+		vi.advanceTimersByTime(1_000);
+
+		// the tag revalidated by another request
+		await adaptor.setTags(['d1-tag-c'], { revalidatedAt: Date.now() });
+
+		const entry = await adaptor.get('key', {});
+		expect(entry?.value).toEqual(createFetchValue(['d1-tag-c'], 0));
+		expect(entry?.cacheState).toEqual('stale');
+	});
+
+	test('gets the revalidated at timestamps of more tags than can be bound', async () => {
+		const { db } = await createD1Database();
+		stubDatabase(db);
+		const adaptor = new D1Adaptor();
+		const tags = Array.from({ length: 150 }, (_, i) => `d1-tag-${i}`);
+		await adaptor.setTags(tags.slice(100), { revalidatedAt: Date.now() });
+
+		const tagsRevalidatedAt = await adaptor.getTagsRevalidatedAt(tags);
+
+		expect(Object.keys(tagsRevalidatedAt)).toEqual(tags.slice(100));
+	});
+});
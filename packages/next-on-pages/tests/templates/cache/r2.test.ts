@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import type { IncrementalCacheValue } from '../../../templates/cache';
+import R2Adaptor from '../../../templates/cache/r2';
+
+/** Creates a fake R2 bucket storing the objects in memory. */
+const createR2Bucket = () => {
+	const objects = new Map<
+		string,
+		{ value: string; customMetadata: Record<string, string> }
+	>();
+
+	const bucket = {
+		get: async (key: string) => {
+			const object = objects.get(key);
+			return object
+				? {
+						customMetadata: object.customMetadata,
+						text: async () => object.value,
+				  }
+				: null;
+		},
+		put: async (
+			key: string,
+			value: string,
+			{ customMetadata = {} }: R2PutOptions = {},
+		) => {
+			objects.set(key, { value, customMetadata });
+		},
+		delete: async (key: string) => {
+			objects.delete(key);
+		},
+		list: async ({ prefix = '' }: R2ListOptions = {}) => ({
+			objects: [...objects.keys()]
+				.filter(key => key.startsWith(prefix))
+				.map(key => ({ key })),
+			truncated: false,
+		}),
+	} as unknown as R2Bucket;
+
+	return { bucket, objects };
+};
+
+const createFetchValue = (
+	tags: string[],
+	revalidate = 60,
+): IncrementalCacheValue => ({
+	kind: 'FETCH',
+	data: { headers: {}, body: 'body', url: 'https://example.com' },
+	tags,
+	revalidate,
+});
+
+const stubBucket = (bucket: R2Bucket) =>
+	vi.stubGlobal('process', {
+		...process,
+		env: { ...process.env, __NEXT_ON_PAGES__R2_SUSPENSE_CACHE: bucket },
+	});
+
+describe('R2Adaptor', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.unstubAllGlobals();
+	});
+
+	test('retrieves the stored entries', async () => {
+		const { bucket } = createR2Bucket();
+		stubBucket(bucket);
+		const adaptor = new R2Adaptor();
+
+		await adaptor.update('key', 'value');
+
+		expect(await adaptor.retrieve('key')).toEqual('value');
+		expect(await adaptor.retrieve('missing-key')).toEqual(null);
+	});
+
+	test('stores the last modified timestamp and expiry in the custom metadata', async () => {
+		const { bucket, objects } = createR2Bucket();
+		stubBucket(bucket);
+		const adaptor = new R2Adaptor();
+		const tags = Array.from(
+			{ length: 128 },
+			(_, i) => `r2-${'t'.repeat(250)}-${i}`,
+		);
+
+		await adaptor.set('key', createFetchValue(tags, 60));
+
+		const { customMetadata } = objects.get(adaptor.buildCacheKey('key')) ?? {};
+		expect(customMetadata).toEqual({
+			lastModified: `${Date.now()}`,
+			expiresAt: `${Date.now() + (60 + adaptor.staleTtl) * 1000}`,
+		});
+		expect(await adaptor.getTagKeys(tags[0] as string)).toEqual(['key']);
+	});
+
+	test('treats expired entries as missing', async () => {
+		const { bucket } = createR2Bucket();
+		stubBucket(bucket);
+		const adaptor = new R2Adaptor();
+
+		await adaptor.update('key', 'value', 60);
+
+		vi.advanceTimersByTime(59_000);
+		expect(await adaptor.retrieve('key')).toEqual('value');
+
+		vi.advanceTimersByTime(1_000);
+		expect(await adaptor.retrieve('key')).toEqual(null);
+	});
+
+	test('updates and deletes entries', async () => {
+		const { bucket } = createR2Bucket();
+		stubBucket(bucket);
+		const adaptor = new R2Adaptor();
+
+		await adaptor.update('key', 'value', 60);
+		await adaptor.update('key', 'new value');
+
+		vi.advanceTimersByTime(60_000);
+		expect(await adaptor.retrieve('key')).toEqual('new value');
+
+		await adaptor.delete('key');
+		expect(await adaptor.retrieve('key')).toEqual(null);
+	});
+});
@@ -0,0 +1,133 @@
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import type { IncrementalCacheValue } from '../../../templates/cache';
+import TieredAdaptor from '../../../templates/cache/tiered';
+
+/** Creates a fake KV namespace storing the values in memory. */
+const createKVNamespace = () => {
+	const values = new Map<string, string>();
+
+	const kv = {
+		get: vi.fn(async (key: string) => values.get(key) ?? null),
+		put: async (key: string, value: string) => {
+			values.set(key, value);
+		},
+		delete: async (key: string) => {
+			values.delete(key);
+		},
+		list: async ({ prefix }: { prefix: string }) => ({
+			keys: [...values.keys()]
+				.filter(key => key.startsWith(prefix))
+				.map(name => ({ name })),
+			list_complete: true,
+		}),
+	};
+
+	return { kv, values };
+};
+
+const createFetchValue = (
+	tags: string[],
+	revalidate = 60,
+): IncrementalCacheValue => ({
+	kind: 'FETCH',
+	data: { headers: {}, body: 'body', url: 'https://example.com' },
+	tags,
+	revalidate,
+});
+
+/** Creates an adaptor for a data center, with its own local tier. */
+const createAdaptor = (dataCenter = 'local') => {
+	const adaptor = new TieredAdaptor();
+	adaptor.local.cacheName = `suspense-cache-${dataCenter}-${Math.random()}`;
+	return adaptor;
+};
+
+const stubNamespace = (kv: ReturnType<typeof createKVNamespace>['kv']) =>
+	vi.stubGlobal('process', {
+		...process,
+		env: { ...process.env, __NEXT_ON_PAGES__KV_SUSPENSE_CACHE: kv },
+	});
+
+describe('TieredAdaptor', () => {
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.unstubAllGlobals();
+	});
+
+	test('populates the local tier when reading an entry from the global tier', async () => {
+		const { kv } = createKVNamespace();
+		stubNamespace(kv);
+		const adaptor = createAdaptor();
+		await adaptor.global.update('key', 'value');
+
+		expect(await adaptor.local.retrieve('key')).toEqual(null);
+		expect(await adaptor.retrieve('key')).toEqual('value');
+		expect(await adaptor.local.retrieve('key')).toEqual('value');
+
+		kv.get.mockClear();
+		expect(await adaptor.retrieve('key')).toEqual('value');
+		expect(kv.get).not.toHaveBeenCalled();
+	});
+
+	test('writes the entries to both tiers', async () => {
+		const { kv } = createKVNamespace();
+		stubNamespace(kv);
+		const adaptor = createAdaptor();
+
+		await adaptor.update('key', 'value');
+
+		expect(await adaptor.local.retrieve('key')).toEqual('value');
+		expect(await adaptor.global.retrieve('key')).toEqual('value');
+
+		await adaptor.delete('key');
+
+		expect(await adaptor.local.retrieve('key')).toEqual(null);
+		expect(await adaptor.global.retrieve('key')).toEqual(null);
+	});
+
+	test('revalidates the tags in both tiers', async () => {
+		vi.useFakeTimers({ toFake: ['Date'] });
+		const { kv } = createKVNamespace();
+		stubNamespace(kv);
+		const adaptor = createAdaptor();
+		const otherAdaptor = createAdaptor('other');
+		await adaptor.set('key', createFetchValue(['tiered-tag-a']));
+		// the entry (and its tags) are cached in the local tier of the other data center
+		expect(await otherAdaptor.get('key', {})).not.toEqual(null);
+
+		await adaptor.revalidateTag('tiered-tag-a');
+
+		// the entry is removed from the local tier of the data center that revalidated it
+		expect(await adaptor.local.retrieve('key')).toEqual(null);
+		expect(await adaptor.getTagsRevalidatedAt(['tiered-tag-a'])).toEqual({
+			'tiered-tag-a': Date.now(),
+		});
+		// and seen by the other data centers, once their cached tags have expired
+		const revalidatedAt = Date.now();
+		expect(await otherAdaptor.getTagsRevalidatedAt(['tiered-tag-a'])).toEqual({
+			'tiered-tag-a': undefined,
+		});
+		vi.setSystemTime(Date.now() + otherAdaptor.tagsLocalTtl * 1000);
+		expect(await otherAdaptor.getTagsRevalidatedAt(['tiered-tag-a'])).toEqual({
+			'tiered-tag-a': revalidatedAt,
+		});
+	});
+
+	test("caches the tags' revalidated at timestamps in the local tier", async () => {
+		const { kv } = createKVNamespace();
+		stubNamespace(kv);
+		const adaptor = createAdaptor();
+		await adaptor.setTags(['tiered-tag-b'], { revalidatedAt: 1000 });
+
+		kv.get.mockClear();
+		expect(
+			await adaptor.getTagsRevalidatedAt(['tiered-tag-b', 'tiered-tag-c']),
+		).toEqual({ 'tiered-tag-b': 1000, 'tiered-tag-c': undefined });
+		// the tags manifest to migrate (loaded once per adaptor) and the tag missing from the local tier
+		expect(kv.get).toHaveBeenCalledTimes(2);
+
+		kv.get.mockClear();
+		await adaptor.getTagsRevalidatedAt(['tiered-tag-b', 'tiered-tag-c']);
+		expect(kv.get).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,95 @@
+import { describe, test, expect, vi, afterEach } from 'vitest';
+import { processVercelConfig } from '../../src/buildApplication/getVercelConfig';
+import { handleRequest } from '../../templates/_worker.js/handleRequest';
+
+const crashingFunction = vi.fn(() => {
+	throw new Error('Something went wrong');
+});
+vi.mock('crashing-function-entrypoint', () => ({ default: crashingFunction }));
+vi.mock('error-function-entrypoint', () => ({
+	default: () => new Response('<h1>Error route</h1>'),
+}));
+
+const output: VercelBuildOutput = {
+	'/crash': { type: 'function', entrypoint: 'crashing-function-entrypoint' },
+	'/500': { type: 'static' },
+	'/_error': { type: 'function', entrypoint: 'error-function-entrypoint' },
+};
+
+const buildMetadata: NextOnPagesBuildMetadata = {
+	collectedLocales: [],
+	buildId: 'build-id',
+	buildTimestamp: 0,
+	imagesMode: 'unoptimized',
+};
+
+const assetsFetch = vi.fn(async (input: string | URL | Request) => {
+	const { pathname } = new URL(input instanceof Request ? input.url : input);
+	return pathname === '/500'
+		? new Response('<h1>500 - Server-side error occurred</h1>', {
+				headers: { 'content-type': 'text/html' },
+		  })
+		: new Response('Not Found', { status: 404 });
+});
+
+const createReqCtx = (url: string) => ({
+	request: new Request(url),
+	assetsFetcher: {
+		fetch: assetsFetch,
+	} as unknown as Fetcher,
+	ctx: {
+		waitUntil: () => null,
+		passThroughOnException: () => null,
+	} as unknown as ExecutionContext,
+});
+
+describe('handleRequest', () => {
+	afterEach(() => {
+		crashingFunction.mockClear();
+		assetsFetch.mockClear();
+		vi.restoreAllMocks();
+	});
+
+	test("routes the function's failure through the error phase", async () => {
+		vi.spyOn(console, 'error').mockImplementation(() => null);
+		const config = processVercelConfig({
+			version: 3,
+			routes: [
+				{ handle: 'error' },
+				{ src: '/.*', dest: '/_error', status: 500 },
+			],
+		});
+
+		const response = await handleRequest(
+			createReqCtx('https://example.com/crash'),
+			config,
+			output,
+			buildMetadata,
+		);
+
+		expect(response.status).toEqual(500);
+		expect(await response.text()).toEqual('<h1>Error route</h1>');
+		expect(crashingFunction).toHaveBeenCalledTimes(1);
+		// the static error page is not fetched when the error route handles the error
+		expect(assetsFetch).not.toHaveBeenCalled();
+	});
+
+	test('serves the fallback error page without an error route', async () => {
+		vi.spyOn(console, 'error').mockImplementation(() => null);
+		const config = processVercelConfig({ version: 3, routes: [] });
+
+		const response = await handleRequest(
+			createReqCtx('https://example.com/crash'),
+			config,
+			output,
+			buildMetadata,
+		);
+
+		expect(response.status).toEqual(500);
+		expect(await response.text()).toEqual(
+			'<h1>500 - Server-side error occurred</h1>',
+		);
+		expect(crashingFunction).toHaveBeenCalledTimes(1);
+		expect(assetsFetch).toHaveBeenCalledTimes(1);
+	});
+});
@@ -0,0 +1,173 @@
+import { describe, expect, test } from 'vitest';
+import type { NodejsHandler } from '../../../templates/nodejs/adapter';
+import { adaptNodejsHandler } from '../../../templates/nodejs/adapter';
+import { mockConsole } from '../../_helpers';
+
+const createCtx = () => {
+	const waitUntilPromises: Promise<unknown>[] = [];
+
+	return {
+		ctx: {
+			waitUntil: (promise: Promise<unknown>) => {
+				waitUntilPromises.push(promise);
+			},
+			passThroughOnException: () => undefined,
+		},
+		waitForHandler: async () => Promise.all(waitUntilPromises),
+	};
+};
+
+const runHandler = async (handler: NodejsHandler, request: Request) => {
+	const { ctx, waitForHandler } = createCtx();
+	const response = await adaptNodejsHandler(handler)(request, ctx);
+	return { response, waitForHandler };
+};
+
+describe('adaptNodejsHandler', () => {
+	test('passes the request to the handler', async () => {
+		const { response } = await runHandler(
+			(req, res) => {
+				res.setHeader('content-type', 'application/json');
+				res.end(
+					JSON.stringify({
+						method: req.method,
+						url: req.url,
+						header: req.headers['x-custom'],
+						query: req.query,
+						cookies: req.cookies,
+						body: req.body,
+					}),
+				);
+			},
+			new Request('https://example.com/api/hello?a=1&b=2&b=3', {
+				method: 'POST',
+				headers: {
+					'x-custom': 'value',
+					cookie: 'session=abc; theme=dark',
+					'content-type': 'application/json',
+				},
+				body: JSON.stringify({ name: 'hello' }),
+			}),
+		);
+
+		expect(response.status).toEqual(200);
+		expect(response.headers.get('content-type')).toEqual('application/json');
+		expect(await response.json()).toEqual({
+			method: 'POST',
+			url: '/api/hello?a=1&b=2&b=3',
+			header: 'value',
+			query: { a: '1', b: ['2', '3'] },
+			cookies: { session: 'abc', theme: 'dark' },
+			body: { name: 'hello' },
+		});
+	});
+
+	test('keeps the malformed cookie values as they are', async () => {
+		const { response } = await runHandler(
+			(req, res) => res.end(JSON.stringify(req.cookies)),
+			new Request('https://example.com/api/hello', {
+				headers: { cookie: 'a=%E0%A4%A; b=caf%C3%A9' },
+			}),
+		);
+
+		expect(response.status).toEqual(200);
+		expect(await response.json()).toEqual({ a: '%E0%A4%A', b: 'café' });
+	});
+
+	test('streams the request body to the handler', async () => {
+		const { response } = await runHandler(
+			async (req, res) => {
+				const chunks: Buffer[] = [];
+				for await (const chunk of req) {
+					chunks.push(chunk);
+				}
+				res.end(Buffer.concat(chunks).toString('utf8').toUpperCase());
+			},
+			new Request('https://example.com/api/upper', {
+				method: 'POST',
+				body: 'hello',
+			}),
+		);
+
+		expect(await response.text()).toEqual('HELLO');
+	});
+
+	test('streams the response written by the handler', async () => {
+		const { response, waitForHandler } = await runHandler(async (_req, res) => {
+			res.writeHead(201, {
+				'content-type': 'text/plain',
+				'set-cookie': ['a=1', 'b=2'],
+			});
+			res.write('hello');
+			await new Promise(resolve => setTimeout(resolve, 10));
+			res.end(' world');
+		}, new Request('https://example.com/api/stream'));
+
+		expect(response.status).toEqual(201);
+		expect(response.headers.get('set-cookie')).toEqual('a=1, b=2');
+		expect(await response.text()).toEqual('hello world');
+		await waitForHandler();
+	});
+
+	test('supports the response helpers', async () => {
+		const { response: jsonResponse } = await runHandler(
+			(_req, res) => res.status(404).json({ error: 'not found' }),
+			new Request('https://example.com/api/json'),
+		);
+		expect(jsonResponse.status).toEqual(404);
+		expect(await jsonResponse.json()).toEqual({ error: 'not found' });
+
+		const { response: redirectResponse } = await runHandler(
+			(_req, res) => res.redirect('/new'),
+			new Request('https://example.com/api/redirect'),
+		);
+		expect(redirectResponse.status).toEqual(307);
+		expect(redirectResponse.headers.get('location')).toEqual('/new');
+	});
+
+	test('rejects when the handler throws before sending a response', async () => {
+		const mockedConsole = mockConsole('error');
+		const { ctx } = createCtx();
+
+		await expect(
+			adaptNodejsHandler(() => {
+				throw new Error('handler error');
+			})(new Request('https://example.com/api/error'), ctx),
+		).rejects.toThrowError('handler error');
+
+		mockedConsole.expectCalls([new Error('handler error')]);
+		mockedConsole.restore();
+	});
+
+	test('rejects when the handler settles without sending a response', async () => {
+		const mockedConsole = mockConsole('error');
+		const { ctx } = createCtx();
+
+		await expect(
+			adaptNodejsHandler(async (_req, res) => {
+				res.setHeader('content-type', 'text/plain');
+			})(new Request('https://example.com/api/forgotten'), ctx),
+		).rejects.toThrowError(
+			'The Node.js handler settled without sending a response',
+		);
+
+		mockedConsole.expectCalls([expect.any(Error)]);
+		mockedConsole.restore();
+	});
+
+	test('waits for the handlers reading the request body with events', async () => {
+		const { response } = await runHandler(
+			(req, res) => {
+				let body = '';
+				req.on('data', chunk => (body += chunk));
+				req.on('end', () => res.end(body.toUpperCase()));
+			},
+			new Request('https://example.com/api/upper', {
+				method: 'POST',
+				body: 'hello',
+			}),
+		);
+
+		expect(await response.text()).toEqual('HELLO');
+	});
+});
@@ -0,0 +1,161 @@
+import { describe, test, expect, vi, afterEach, beforeEach } from 'vitest';
+import { mockConsole } from '../../_helpers';
+import {
+	getSuspenseCacheAdaptor,
+	getSuspenseCacheAdaptorType,
+	handleCachePurgeRequest,
+} from '../../../templates/_worker.js/utils/cache';
+
+class CustomAdaptor {
+	public revalidatedTags: string[] = [];
+
+	public async revalidateTag(tag: string) {
+		this.revalidatedTags.push(tag);
+	}
+
+	public async migrateTagsManifest() {}
+}
+vi.mock('./__next-on-pages-dist__/cache/custom.js', () => ({
+	default: CustomAdaptor,
+}));
+
+const purgeUrl = 'https://example.com/__next-on-pages/cache/purge';
+
+const createPurgeRequest = (
+	body: unknown,
+	headers: Record<string, string> = { Authorization: 'Bearer secret' },
+) =>
+	new Request(purgeUrl, {
+		method: 'POST',
+		headers,
+		body: typeof body === 'string' ? body : JSON.stringify(body),
+	});
+
+describe('handleCachePurgeRequest', () => {
+	test('does not handle requests when no secret is set', async () => {
+		const request = createPurgeRequest({ tags: ['tag'] });
+
+		expect(await handleCachePurgeRequest(request, undefined)).toEqual(null);
+		expect(await handleCachePurgeRequest(request, '')).toEqual(null);
+	});
+
+	test('does not handle requests for other paths', async () => {
+		const request = new Request('https://example.com/cache/purge', {
+			method: 'POST',
+		});
+
+		expect(await handleCachePurgeRequest(request, 'secret')).toEqual(null);
+	});
+
+	test('only accepts POST requests', async () => {
+		const resp = await handleCachePurgeRequest(new Request(purgeUrl), 'secret');
+
+		expect(resp?.status).toEqual(405);
+		expect(resp?.headers.get('Allow')).toEqual('POST');
+	});
+
+	test('rejects requests with a missing or wrong secret', async () => {
+		const invalidHeaders: Record<string, string>[] = [
+			{},
+			{ Authorization: 'secret' },
+			{ Authorization: 'Bearer secre' },
+			{ Authorization: 'Bearer secret!' },
+		];
+
+		for (const headers of invalidHeaders) {
+			const resp = await handleCachePurgeRequest(
+				createPurgeRequest({ tags: ['tag'] }, headers),
+				'secret',
+			);
+
+			expect(resp?.status).toEqual(401);
+		}
+	});
+
+	test('rejects invalid bodies', async () => {
+		for (const body of [
+			'invalid json',
+			{},
+			{ tags: [] },
+			{ tags: 'tag' },
+			{ paths: [1] },
+			{ keys: [''] },
+		]) {
+			const resp = await handleCachePurgeRequest(
+				createPurgeRequest(body),
+				'secret',
+			);
+
+			expect(resp?.status).toEqual(400);
+		}
+	});
+});
+
+describe('getSuspenseCacheAdaptor', () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	test('prefers the custom adaptor', async () => {
+		vi.stubGlobal('__BUILD_METADATA__', {
+			customCacheAdaptor: true,
+			suspenseCacheAdaptor: 'kv',
+		});
+		vi.stubGlobal('process', {
+			...process,
+			env: { ...process.env, __NEXT_ON_PAGES__KV_SUSPENSE_CACHE: {} },
+		});
+
+		expect(getSuspenseCacheAdaptorType()).toEqual('custom');
+		expect(await getSuspenseCacheAdaptor()).toBeInstanceOf(CustomAdaptor);
+	});
+
+	test('uses the adaptor set in the config file without a custom adaptor', () => {
+		vi.stubGlobal('__BUILD_METADATA__', {
+			customCacheAdaptor: false,
+			suspenseCacheAdaptor: 'd1',
+		});
+
+		expect(getSuspenseCacheAdaptorType()).toEqual('d1');
+	});
+});
+
+describe('revalidating ISR routes that cannot be regenerated', () => {
+	beforeEach(() => {
+		vi.stubGlobal('__BUILD_METADATA__', {
+			customCacheAdaptor: true,
+			staticIsrRoutes: ['/', '/blog/post', '/shop'],
+		});
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	test('warns about the routes revalidated with the cache purge endpoint', async () => {
+		const mockedConsole = mockConsole('warn');
+
+		const resp = await handleCachePurgeRequest(
+			createPurgeRequest({ tags: ['posts'], paths: ['/blog'] }),
+			'secret',
+		);
+
+		expect(resp?.status).toEqual(200);
+		mockedConsole.expectCalls([
+			/The revalidated ISR routes \/blog\/post can't/,
+		]);
+		mockedConsole.restore();
+	});
+
+	test('does not warn about the routes that are not revalidated', async () => {
+		const mockedConsole = mockConsole('warn');
+
+		await handleCachePurgeRequest(
+			createPurgeRequest({ tags: ['_N_T_/blog/other'] }),
+			'secret',
+		);
+
+		mockedConsole.expectCalls([]);
+		mockedConsole.restore();
+	});
+});
@@ -0,0 +1,126 @@
+import { describe, test, expect, vi, afterEach } from 'vitest';
+import {
+	createItemErrorResponse,
+	isItemErrorResponse,
+	renderErrorPage,
+	reportError,
+} from '../../../templates/_worker.js/utils';
+
+const createCtx = () => {
+	const promises: Promise<unknown>[] = [];
+	const ctx = {
+		waitUntil: (promise: Promise<unknown>) => promises.push(promise),
+		passThroughOnException: () => null,
+	} as unknown as ExecutionContext;
+
+	return { ctx, waitForPromises: async () => Promise.all(promises) };
+};
+
+describe('reportError', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	test('reports the error with the route info and the request id', async () => {
+		const { ctx, waitForPromises } = createCtx();
+		const reporter = vi.fn();
+		const error = new Error('Something went wrong');
+		const request = new Request('https://example.com/blog/hello', {
+			headers: { 'cf-ray': '8a1b2c3d4e5f6789-LHR' },
+		});
+
+		reportError(
+			error,
+			request,
+			{ path: '/blog/[slug]', entrypoint: '__next-on-pages-dist__/blog.js' },
+			{ ctx, getReporter: async () => reporter },
+		);
+		await waitForPromises();
+
+		expect(reporter).toHaveBeenCalledWith(error, request, {
+			path: '/blog/[slug]',
+			entrypoint: '__next-on-pages-dist__/blog.js',
+			requestId: '8a1b2c3d4e5f6789-LHR',
+		});
+	});
+
+	test('only logs the errors thrown by the reporter', async () => {
+		const { ctx, waitForPromises } = createCtx();
+		const mockedConsoleError = vi
+			.spyOn(console, 'error')
+			.mockImplementation(() => null);
+		const reporterError = new Error('Could not report the error');
+
+		reportError(
+			new Error('Something went wrong'),
+			new Request('https://example.com/'),
+			{ path: '/', entrypoint: null },
+			{
+				ctx,
+				getReporter: async () => () => {
+					throw reporterError;
+				},
+			},
+		);
+		await waitForPromises();
+
+		expect(mockedConsoleError).toHaveBeenCalledWith(
+			'Error while reporting an error:',
+			reporterError,
+		);
+	});
+});
+
+describe('createItemErrorResponse', () => {
+	test('creates an empty response marking the error', async () => {
+		const response = createItemErrorResponse();
+
+		expect(response.status).toEqual(500);
+		expect(response.body).toEqual(null);
+		expect(isItemErrorResponse(response)).toEqual(true);
+		expect(isItemErrorResponse(new Response(null, { status: 500 }))).toEqual(
+			false,
+		);
+	});
+});
+
+describe('renderErrorPage', () => {
+	test("renders the application's 500 page", async () => {
+		const assetsFetcher = {
+			fetch: vi.fn(
+				async () =>
+					new Response('<h1>500 - Server-side error occurred</h1>', {
+						headers: { 'content-type': 'text/html' },
+					}),
+			),
+		} as unknown as Fetcher;
+
+		const response = await renderErrorPage(
+			new Request('https://example.com/blog/hello', { method: 'POST' }),
+			assetsFetcher,
+		);
+
+		expect(assetsFetcher.fetch).toHaveBeenCalledWith(
+			new URL('https://example.com/500'),
+		);
+		expect(response.status).toEqual(500);
+		expect(response.headers.get('content-type')).toEqual('text/html');
+		expect(await response.text()).toEqual(
+			'<h1>500 - Server-side error occurred</h1>',
+		);
+	});
+
+	test('falls back to plain text without a 500 page', async () => {
+		const assetsFetcher = {
+			fetch: async () => new Response('Not Found', { status: 404 }),
+		} as unknown as Fetcher;
+
+		const response = await renderErrorPage(
+			new Request('https://example.com/'),
+			assetsFetcher,
+		);
+
+		expect(response.status).toEqual(500);
+		expect(await response.text()).toEqual('Internal Server Error');
+	});
+});
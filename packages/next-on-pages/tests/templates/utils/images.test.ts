@@ -1,7 +1,10 @@
-import { describe, expect, test } from 'vitest';
+import { afterEach, describe, expect, test, vi } from 'vitest';
 import {
 	formatResp,
+	getImageCacheKey,
+	getImageCacheTTL,
 	getResizingProperties,
+	handleImageResizingRequest,
 	isRemotePatternMatch,
 } from '../../../templates/_worker.js/utils';
 
@@ -318,3 +321,279 @@ describe('formatResp', () => {
 		expect(newResp.headers.get('Cache-Control')).toEqual('test-value');
 	});
 });
+
+describe('handleImageResizingRequest', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	// Note: the global fetch is typed with the Node.js types, hence the cast
+	const mockFetch = (resp: Response) =>
+		vi
+			.spyOn(globalThis, 'fetch')
+			.mockResolvedValue(resp as unknown as Awaited<ReturnType<typeof fetch>>);
+
+	const imageRequest = new Request(`${baseValidUrl}&w=640`, {
+		headers: { accept: 'image/webp' },
+	});
+	const opts = {
+		buildOutput: { '/images/1.jpg': { type: 'static' } } as VercelBuildOutput,
+		assetsFetcher: {
+			fetch: async () => new Response('asset'),
+		} as unknown as Fetcher,
+		imagesConfig: baseConfig,
+	};
+
+	test('invalid request fails', async () => {
+		const resp = await handleImageResizingRequest(
+			new Request(baseValidUrl),
+			opts,
+		);
+		expect(resp.status).toEqual(400);
+	});
+
+	test('resizes the image with the platform image resizing', async () => {
+		const fetchSpy = mockFetch(
+			new Response('resized', { headers: { 'cf-resized': 'internal=ok' } }),
+		);
+		const getFallbackTransformer = vi.fn();
+
+		const resp = await handleImageResizingRequest(imageRequest, {
+			...opts,
+			getFallbackTransformer,
+		});
+
+		expect(await resp.text()).toEqual('resized');
+		expect(resp.headers.get('vary')).toEqual('Accept');
+		expect(fetchSpy).toHaveBeenCalledWith(
+			expect.objectContaining({
+				url: 'https://localhost/images/1.jpg',
+				cf: { image: { width: 640, quality: 75, format: 'webp' } },
+			}),
+		);
+		expect(getFallbackTransformer).not.toHaveBeenCalled();
+	});
+
+	test('does not vary on the accept header without image formats', async () => {
+		mockFetch(
+			new Response('resized', { headers: { 'cf-resized': 'internal=ok' } }),
+		);
+
+		const resp = await handleImageResizingRequest(imageRequest, {
+			...opts,
+			imagesConfig: { ...baseConfig, formats: [] },
+		});
+
+		expect(await resp.text()).toEqual('resized');
+		expect(resp.headers.get('vary')).toEqual(null);
+	});
+
+	test('serves the original image when resizing is not available', async () => {
+		mockFetch(
+			new Response('original', { headers: { 'cf-resized': 'err=9401' } }),
+		);
+
+		const resp = await handleImageResizingRequest(imageRequest, opts);
+
+		expect(await resp.text()).toEqual('original');
+	});
+
+	test('uses the assets fetcher when the static image can not be fetched', async () => {
+		mockFetch(new Response(null, { status: 404 }));
+
+		const resp = await handleImageResizingRequest(imageRequest, opts);
+
+		expect(await resp.text()).toEqual('asset');
+	});
+
+	test('uses the fallback transformer when resizing is not available', async () => {
+		mockFetch(new Response('original'));
+		const transformer = vi.fn(
+			async (image: Response) =>
+				new Response(`transformed ${await image.text()}`),
+		);
+
+		const resp = await handleImageResizingRequest(imageRequest, {
+			...opts,
+			getFallbackTransformer: async () => transformer,
+		});
+
+		expect(await resp.text()).toEqual('transformed original');
+		expect(transformer).toHaveBeenCalledWith(expect.any(Response), {
+			width: 640,
+			quality: 75,
+			format: 'webp',
+		});
+	});
+
+	test('serves the original image when the fallback transformer does not transform it', async () => {
+		mockFetch(new Response('original'));
+
+		const resp = await handleImageResizingRequest(imageRequest, {
+			...opts,
+			getFallbackTransformer: async () => async () => null,
+		});
+
+		expect(await resp.text()).toEqual('original');
+	});
+});
+
+describe('getImageCacheKey', () => {
+	test('normalizes the key from the url, width, quality and format', () => {
+		const props = getResizingProperties(
+			new Request(`${baseValidUrl}&w=640&q=75&other=1`, {
+				headers: { accept: 'image/avif,image/webp' },
+			}),
+			{ ...baseConfig, formats: ['image/webp'] },
+		);
+
+		expect(getImageCacheKey('https://localhost', props!, 'build-id')).toEqual(
+			'https://localhost/_next/image?url=https%3A%2F%2Flocalhost%2Fimages%2F1.jpg&w=640&q=75&f=webp&build=build-id',
+		);
+	});
+
+	test('does not include the build id for external images', () => {
+		const props = getResizingProperties(
+			new Request(
+				`${baseUrl}https%3A%2F%2Fvia.placeholder.com%2Fimage.jpg&w=640`,
+			),
+			{
+				...baseConfig,
+				domains: ['via.placeholder.com'],
+			},
+		);
+
+		expect(getImageCacheKey('https://localhost', props!, 'build-id')).toEqual(
+			'https://localhost/_next/image?url=https%3A%2F%2Fvia.placeholder.com%2Fimage.jpg&w=640&q=75&f=original',
+		);
+	});
+});
+
+describe('getImageCacheTTL', () => {
+	test('uses the minimum cache TTL', () => {
+		expect(getImageCacheTTL(new Response(''))).toEqual(60);
+		expect(getImageCacheTTL(new Response(''), 3600)).toEqual(3600);
+	});
+
+	test("uses the upstream max-age when it's longer than the minimum", () => {
+		const resp = new Response('', {
+			headers: { 'cache-control': 'public, max-age=31536000' },
+		});
+		expect(getImageCacheTTL(resp, 3600)).toEqual(31536000);
+	});
+
+	test('does not cache private or no-store responses', () => {
+		for (const cacheControl of ['private, max-age=60', 'no-store']) {
+			const resp = new Response('', {
+				headers: { 'cache-control': cacheControl },
+			});
+			expect(getImageCacheTTL(resp)).toEqual(null);
+		}
+	});
+});
+
+describe('handleImageResizingRequest with the images cache', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	const createImageRequest = (headers: Record<string, string> = {}) =>
+		new Request(`${baseValidUrl}&w=640`, {
+			headers: { accept: 'image/webp', ...headers },
+		});
+
+	// Note: the cache is shared by the tests, so each test uses its own build id
+	const createOpts = (buildId: string) => {
+		const waitUntil: Promise<unknown>[] = [];
+		return {
+			waitUntil,
+			opts: {
+				buildOutput: {
+					'/images/1.jpg': { type: 'static' },
+				} as VercelBuildOutput,
+				assetsFetcher: {
+					fetch: async () => new Response('asset'),
+				} as unknown as Fetcher,
+				imagesConfig: { ...baseConfig, minimumCacheTTL: 3600 },
+				imagesCache: {
+					buildId,
+					ctx: {
+						waitUntil: (promise: Promise<unknown>) => waitUntil.push(promise),
+					} as unknown as ExecutionContext,
+				},
+			},
+		};
+	};
+
+	const mockFetch = () =>
+		vi.spyOn(globalThis, 'fetch').mockImplementation(
+			async () =>
+				new Response('resized', {
+					headers: { 'cf-resized': 'internal=ok' },
+				}) as unknown as Awaited<ReturnType<typeof fetch>>,
+		);
+
+	test('caches the resized image', async () => {
+		const fetchSpy = mockFetch();
+		const { opts, waitUntil } = createOpts('build-1');
+
+		const resp = await handleImageResizingRequest(createImageRequest(), opts);
+		await Promise.all(waitUntil);
+
+		expect(await resp.text()).toEqual('resized');
+		expect(resp.headers.get('cache-control')).toEqual('public, max-age=3600');
+		expect(resp.headers.get('etag')).toMatch(/^"[0-9a-f]{40}"$/);
+
+		const cachedResp = await handleImageResizingRequest(
+			createImageRequest(),
+			opts,
+		);
+
+		expect(await cachedResp.text()).toEqual('resized');
+		expect(cachedResp.headers.get('etag')).toEqual(resp.headers.get('etag'));
+		expect(cachedResp.headers.get('vary')).toEqual('Accept');
+		expect(fetchSpy).toHaveBeenCalledTimes(1);
+	});
+
+	test('does not use the cached image of another build', async () => {
+		const fetchSpy = mockFetch();
+		const { opts, waitUntil } = createOpts('build-2');
+
+		await handleImageResizingRequest(createImageRequest(), opts);
+		await Promise.all(waitUntil);
+		await handleImageResizingRequest(createImageRequest(), {
+			...opts,
+			imagesCache: { ...opts.imagesCache, buildId: 'build-2-new' },
+		});
+
+		expect(fetchSpy).toHaveBeenCalledTimes(2);
+	});
+
+	test('responds with a 304 when the ETag matches', async () => {
+		mockFetch();
+		const { opts, waitUntil } = createOpts('build-3');
+
+		const resp = await handleImageResizingRequest(createImageRequest(), opts);
+		await Promise.all(waitUntil);
+		const etag = resp.headers.get('etag') as string;
+
+		const notModifiedResp = await handleImageResizingRequest(
+			createImageRequest({ 'if-none-match': `W/${etag}` }),
+			opts,
+		);
+
+		expect(notModifiedResp.status).toEqual(304);
+		expect(notModifiedResp.headers.get('etag')).toEqual(etag);
+		expect(notModifiedResp.headers.get('cache-control')).toEqual(
+			'public, max-age=3600',
+		);
+		expect(notModifiedResp.headers.get('vary')).toEqual('Accept');
+
+		const modifiedResp = await handleImageResizingRequest(
+			createImageRequest({ 'if-none-match': '"other"' }),
+			opts,
+		);
+
+		expect(modifiedResp.status).toEqual(200);
+	});
+});
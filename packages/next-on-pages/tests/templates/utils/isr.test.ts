@@ -0,0 +1,242 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { CacheAdaptor } from '../../../templates/cache';
+import {
+	getIsrCacheKey,
+	getIsrRouteTags,
+	serveIsrRoute,
+} from '../../../templates/_worker.js/utils/isr';
+
+class MemoryAdaptor extends CacheAdaptor {
+	public store = new Map<string, string>();
+
+	public override async retrieve(key: string) {
+		return this.store.get(key) ?? null;
+	}
+
+	public override async update(key: string, value: string) {
+		this.store.set(key, value);
+	}
+
+	public revalidatedAt = new Map<string, number>();
+
+	public override async getTagsRevalidatedAt(tags: string[]) {
+		return Object.fromEntries(
+			tags.map(tag => [tag, this.revalidatedAt.get(tag)]),
+		);
+	}
+}
+
+const adaptor = new MemoryAdaptor();
+
+vi.mock('../../../templates/_worker.js/utils/cache', () => ({
+	getSuspenseCacheAdaptor: async () => adaptor,
+	getSuspenseCacheAdaptorType: () => 'memory',
+}));
+
+const isr = {
+	entrypoint: './__next-on-pages-dist__/functions/blog.func.js',
+	expiration: 60,
+};
+
+const createOpts = (
+	request: Request,
+	renderedBody: string,
+	init: ResponseInit = {},
+) => {
+	const waitUntilPromises: Promise<unknown>[] = [];
+	const render = vi.fn(
+		async (_request: Request) => new Response(renderedBody, init),
+	);
+
+	return {
+		opts: {
+			request,
+			ctx: {
+				waitUntil: (promise: Promise<unknown>) => {
+					waitUntilPromises.push(promise);
+				},
+				passThroughOnException: () => undefined,
+			},
+			render,
+			serveFallback: async () => new Response('fallback'),
+		},
+		render,
+		waitForRegeneration: async () => Promise.all(waitUntilPromises),
+	};
+};
+
+describe('serveIsrRoute', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+		vi.stubGlobal('__BUILD_METADATA__', {
+			buildId: 'test-build',
+			buildTimestamp: Date.now(),
+		});
+	});
+
+	afterEach(() => {
+		adaptor.store.clear();
+		adaptor.revalidatedAt.clear();
+		vi.useRealTimers();
+		vi.unstubAllGlobals();
+	});
+
+	test('serves the fallback and regenerates the route when there is no render', async () => {
+		const request = new Request('https://example.com/blog', {
+			headers: { cookie: 'session=secret' },
+		});
+		const { opts, render, waitForRegeneration } = createOpts(
+			request,
+			'render 1',
+			{ headers: { 'content-type': 'text/html', 'set-cookie': 'a=b' } },
+		);
+
+		const resp = await serveIsrRoute('/blog.html', isr, opts);
+		expect(await resp.text()).toEqual('fallback');
+
+		await waitForRegeneration();
+		expect(render).toHaveBeenCalledTimes(1);
+		expect([...(render.mock.lastCall?.[0].headers.entries() ?? [])]).toEqual(
+			[],
+		);
+
+		const cachedResp = await serveIsrRoute(
+			'/blog.html',
+			isr,
+			createOpts(request, 'render 2').opts,
+		);
+		expect(await cachedResp.text()).toEqual('render 1');
+		expect(cachedResp.headers.get('x-nextjs-cache')).toEqual('HIT');
+		expect(cachedResp.headers.get('content-type')).toEqual('text/html');
+		expect(cachedResp.headers.get('set-cookie')).toEqual(null);
+		expect(adaptor.store.has(getIsrCacheKey('/blog.html'))).toEqual(true);
+	});
+
+	test('serves expired renders stale while regenerating the route', async () => {
+		const request = new Request('https://example.com/blog');
+
+		const first = createOpts(request, 'render 1');
+		await serveIsrRoute('/blog.html', isr, first.opts);
+		await first.waitForRegeneration();
+
+		vi.advanceTimersByTime(60_000);
+
+		const second = createOpts(request, 'render 2');
+		const staleResp = await serveIsrRoute('/blog.html', isr, second.opts);
+		expect(await staleResp.text()).toEqual('render 1');
+		expect(staleResp.headers.get('x-nextjs-cache')).toEqual('STALE');
+
+		await second.waitForRegeneration();
+
+		const freshResp = await serveIsrRoute(
+			'/blog.html',
+			isr,
+			createOpts(request, 'render 3').opts,
+		);
+		expect(await freshResp.text()).toEqual('render 2');
+		expect(freshResp.headers.get('x-nextjs-cache')).toEqual('HIT');
+	});
+
+	test('requests the RSC payload when regenerating RSC routes', async () => {
+		const { opts, render, waitForRegeneration } = createOpts(
+			new Request('https://example.com/blog', {
+				headers: { rsc: '1', 'next-router-state-tree': '[]' },
+			}),
+			'rsc payload',
+		);
+
+		await serveIsrRoute('/blog.rsc', isr, opts);
+		await waitForRegeneration();
+
+		expect([...(render.mock.lastCall?.[0].headers.entries() ?? [])]).toEqual([
+			['rsc', '1'],
+		]);
+	});
+
+	test('does not save failed or private renders', async () => {
+		const request = new Request('https://example.com/blog');
+
+		for (const init of [
+			{ status: 500 },
+			{ headers: { 'cache-control': 'private, no-cache, no-store' } },
+		]) {
+			const { opts, waitForRegeneration } = createOpts(request, 'render', init);
+
+			await serveIsrRoute('/blog.html', isr, opts);
+			await waitForRegeneration();
+		}
+
+		expect(adaptor.store.size).toEqual(0);
+	});
+
+	test('renders non-GET requests with the edge function', async () => {
+		const { opts, render } = createOpts(
+			new Request('https://example.com/blog', { method: 'POST' }),
+			'render',
+		);
+
+		const resp = await serveIsrRoute('/blog.html', isr, opts);
+
+		expect(await resp.text()).toEqual('render');
+		expect(render).toHaveBeenCalledTimes(1);
+		expect(adaptor.store.size).toEqual(0);
+	});
+
+	test('renders routes revalidated on-demand before responding', async () => {
+		const request = new Request('https://example.com/blog/hello');
+
+		const first = createOpts(request, 'render 1');
+		await serveIsrRoute('/blog/hello.html', isr, first.opts);
+		await first.waitForRegeneration();
+
+		vi.advanceTimersByTime(1_000);
+		adaptor.revalidatedAt.set('_N_T_/blog/hello', Date.now());
+		vi.advanceTimersByTime(1_000);
+
+		const second = createOpts(request, 'render 2');
+		const resp = await serveIsrRoute('/blog/hello.html', isr, second.opts);
+		expect(await resp.text()).toEqual('render 2');
+		expect(resp.headers.get('x-nextjs-cache')).toEqual('MISS');
+
+		await second.waitForRegeneration();
+
+		const cachedResp = await serveIsrRoute(
+			'/blog/hello.html',
+			isr,
+			createOpts(request, 'render 3').opts,
+		);
+		expect(await cachedResp.text()).toEqual('render 2');
+		expect(cachedResp.headers.get('x-nextjs-cache')).toEqual('HIT');
+	});
+
+	test('renders the fallback when revalidated on-demand since the build', async () => {
+		vi.advanceTimersByTime(1_000);
+		adaptor.revalidatedAt.set('_N_T_/', Date.now());
+
+		const { opts } = createOpts(new Request('https://example.com/'), 'render');
+		const resp = await serveIsrRoute('/index.html', isr, opts);
+
+		expect(await resp.text()).toEqual('render');
+	});
+});
+
+describe('getIsrRouteTags', () => {
+	test('gets the implicit tags of the route', () => {
+		expect(getIsrRouteTags('/blog/hello.html')).toEqual([
+			'_N_T_/',
+			'_N_T_/blog',
+			'_N_T_/blog/hello',
+		]);
+		expect(getIsrRouteTags('/blog/hello.rsc')).toEqual([
+			'_N_T_/',
+			'_N_T_/blog',
+			'_N_T_/blog/hello',
+		]);
+		expect(getIsrRouteTags('/blog/index.html')).toEqual([
+			'_N_T_/',
+			'_N_T_/blog',
+		]);
+		expect(getIsrRouteTags('/index.rsc')).toEqual(['_N_T_/']);
+	});
+});
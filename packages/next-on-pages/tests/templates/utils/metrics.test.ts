@@ -0,0 +1,67 @@
+import { describe, test, expect, vi } from 'vitest';
+import {
+	formatCacheServerTiming,
+	getCacheMetrics,
+	recordCacheOperation,
+	writeCacheAnalytics,
+} from '../../../templates/_worker.js/utils';
+
+const createCtx = () =>
+	({
+		waitUntil: () => undefined,
+		passThroughOnException: () => undefined,
+	}) as unknown as ExecutionContext;
+
+describe('cache metrics', () => {
+	test('records the cache operations of each request', () => {
+		const ctx = createCtx();
+		const otherCtx = createCtx();
+
+		recordCacheOperation(ctx, 'kv', { outcome: 'hit', duration: 5 });
+		recordCacheOperation(ctx, 'kv', { outcome: 'hit', duration: 3 });
+		recordCacheOperation(ctx, 'kv', { outcome: 'stale', duration: 4 });
+		recordCacheOperation(ctx, 'kv', { duration: 10 });
+		recordCacheOperation(otherCtx, 'kv', { outcome: 'miss', duration: 1 });
+		recordCacheOperation(undefined, 'kv', { outcome: 'miss', duration: 1 });
+
+		expect(getCacheMetrics(ctx)).toEqual({
+			adaptor: 'kv',
+			outcomes: { hit: 2, miss: 0, stale: 1, revalidated: 0 },
+			storageDuration: 22,
+		});
+		expect(getCacheMetrics(otherCtx)?.outcomes.miss).toEqual(1);
+		expect(getCacheMetrics(createCtx())).toBeUndefined();
+	});
+
+	test('formats the metrics as a Server-Timing header', () => {
+		expect(
+			formatCacheServerTiming({
+				adaptor: 'd1',
+				outcomes: { hit: 2, miss: 1, stale: 0, revalidated: 1 },
+				storageDuration: 12,
+			}),
+		).toEqual(
+			'cache;desc="d1";dur=12, cache-hit;desc="2", cache-miss;desc="1", cache-revalidated;desc="1"',
+		);
+	});
+
+	test('writes the metrics to the Analytics Engine dataset', () => {
+		const dataset = { writeDataPoint: vi.fn() };
+
+		writeCacheAnalytics(
+			dataset,
+			{
+				adaptor: 'kv',
+				outcomes: { hit: 2, miss: 1, stale: 0, revalidated: 0 },
+				storageDuration: 7,
+			},
+			new Request('https://example.com/blog?page=2'),
+		);
+
+		expect(dataset.writeDataPoint).toHaveBeenCalledWith({
+			indexes: ['kv'],
+			blobs: ['kv', '/blog'],
+			doubles: [2, 1, 0, 0, 7],
+		});
+	});
+});
@@ -0,0 +1,135 @@
+import { describe, test, expect } from 'vitest';
+import type { RoutingTrace } from '../../../templates/_worker.js/utils';
+import {
+	MAX_ROUTING_TRACE_HEADER_LENGTH,
+	applyRoutingTrace,
+	extractRoutingTraceMode,
+} from '../../../templates/_worker.js/utils';
+
+const createRequest = (headers: Record<string, string>) =>
+	new Request('https://example.com/', { headers: new Headers(headers) });
+
+const trace: RoutingTrace = {
+	events: [
+		{ type: 'phase', phase: 'none', path: '/é' },
+		{ type: 'middleware', path: 'middleware', status: 200 },
+	],
+	checkPhaseCounter: 2,
+	middlewareInvoked: ['middleware'],
+	result: { path: '/é', status: 404 },
+};
+
+describe('extractRoutingTraceMode', () => {
+	test('does not trace requests when no secret is set', () => {
+		const request = createRequest({ 'x-next-on-pages-trace': '' });
+		expect(extractRoutingTraceMode(request, undefined)).toEqual(null);
+		expect(extractRoutingTraceMode(request, '')).toEqual(null);
+	});
+
+	test('does not trace requests with a missing or wrong secret', () => {
+		expect(extractRoutingTraceMode(createRequest({}), 'secret')).toEqual(null);
+		expect(
+			extractRoutingTraceMode(
+				createRequest({ 'x-next-on-pages-trace': 'secre' }),
+				'secret',
+			),
+		).toEqual(null);
+		expect(
+			extractRoutingTraceMode(
+				createRequest({ 'x-next-on-pages-trace': 'secret!' }),
+				'secret',
+			),
+		).toEqual(null);
+	});
+
+	test('traces requests with the correct secret', () => {
+		expect(
+			extractRoutingTraceMode(
+				createRequest({ 'x-next-on-pages-trace': 'secret' }),
+				'secret',
+			),
+		).toEqual('header');
+		expect(
+			extractRoutingTraceMode(
+				createRequest({
+					'x-next-on-pages-trace': 'secret',
+					'x-next-on-pages-trace-output': 'body',
+				}),
+				'secret',
+			),
+		).toEqual('body');
+	});
+
+	test('removes the trace headers from the request', () => {
+		const request = createRequest({
+			'x-next-on-pages-trace': 'secret',
+			'x-next-on-pages-trace-output': 'body',
+			'x-other': 'value',
+		});
+		extractRoutingTraceMode(request, 'secret');
+
+		expect(Object.fromEntries(request.headers.entries())).toEqual({
+			'x-other': 'value',
+		});
+	});
+});
+
+describe('applyRoutingTrace', () => {
+	test('adds the trace to the response headers', async () => {
+		const response = applyRoutingTrace(
+			new Response('Not Found', { status: 404, headers: { 'x-a': 'b' } }),
+			trace,
+			'header',
+		);
+
+		expect(response.status).toEqual(404);
+		expect(await response.text()).toEqual('Not Found');
+		expect(response.headers.get('x-a')).toEqual('b');
+
+		const traceHeader = response.headers.get('x-next-on-pages-trace') ?? '';
+		expect(traceHeader).not.toContain('é');
+		expect(JSON.parse(traceHeader)).toEqual(trace);
+	});
+
+	test('omits the events of traces too big for a header', async () => {
+		const bigTrace: RoutingTrace = {
+			...trace,
+			events: Array.from({ length: 500 }, (_, i) => ({
+				type: 'phase',
+				phase: 'none',
+				path: `/blog/${i}`,
+			})),
+		};
+
+		const response = applyRoutingTrace(new Response('OK'), bigTrace, 'header');
+
+		const traceHeader = response.headers.get('x-next-on-pages-trace') ?? '';
+		expect(traceHeader.length).toBeLessThanOrEqual(
+			MAX_ROUTING_TRACE_HEADER_LENGTH,
+		);
+		expect(JSON.parse(traceHeader)).toEqual({
+			...trace,
+			events: [],
+			truncated:
+				"The 500 events of the trace are too big for a response header, set the 'x-next-on-pages-trace-output: body' request header to get the full trace.",
+		});
+	});
+
+	test('returns the trace as a JSON body', async () => {
+		const response = applyRoutingTrace(
+			new Response('Not Found', { status: 404, headers: { 'x-a': 'b' } }),
+			trace,
+			'body',
+		);
+
+		expect(response.status).toEqual(200);
+		expect(response.headers.get('content-type')).toEqual('application/json');
+		expect(await response.json()).toEqual({
+			...trace,
+			response: {
+				status: 404,
+				headers: { 'x-a': 'b', 'content-type': 'text/plain;charset=UTF-8' },
+			},
+		});
+	});
+});
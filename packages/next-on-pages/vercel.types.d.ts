@@ -8,6 +8,9 @@ type VercelFunctionConfig = {
 	name: string;
 	deploymentTarget: 'v8-worker' | string;
 	entrypoint: string;
+	/** Entrypoint of Node.js serverless functions (exporting a `(req, res)` handler) */
+	handler?: string;
+	launcherType?: string;
 	envVarsInUse?: string[];
 	assets?: { name: string; path: string }[];
 	regions?: string | string[];
@@ -20,6 +23,7 @@ type VercelPrerenderConfig = {
 	sourcePath?: string;
 	fallback: { type: string; mode: number; fsPath: string };
 	initialHeaders?: Record<string, string>;
+	expiration?: number | false;
 };
 
 /**
@@ -179,12 +183,23 @@ type BuildOutputStaticOverride = {
 	type: 'override';
 	path: string;
 	headers?: Record<string, string>;
+	isr?: BuildOutputIsrConfig;
+};
+type BuildOutputIsrConfig = {
+	/** Entrypoint of the edge function regenerating the prerendered route */
+	entrypoint: string;
+	/** Module of the route group bundling the edge function (when the routes are grouped) */
+	routeGroup?: string;
+	/** Time (in seconds) after which the prerendered route needs to be regenerated */
+	expiration: number;
 };
 type BuildOutputStaticItem = BuildOutputStaticAsset | BuildOutputStaticOverride;
 
 type BuildOutputFunction = {
 	type: 'function' | 'middleware';
 	entrypoint: string;
+	/** Module of the route group bundling the function (when the routes are grouped) */
+	routeGroup?: string;
 };
 
 type BuildOutputItem = BuildOutputFunction | BuildOutputStaticItem;
@@ -197,6 +212,14 @@ type EdgeFunction = {
 	) => Response | Promise<Response>;
 };
 
+/**
+ * Module bundling the edge functions of a route group, exporting loaders that load the shared chunks
+ * imported by the functions and evaluate the functions (keyed by their entrypoints)
+ */
+type RouteGroupModule = {
+	loaders: Record<string, () => Promise<EdgeFunction>>;
+};
+
 type AdjustedBuildOutputFunction = Override<
 	BuildOutputFunction,
 	'entrypoint',